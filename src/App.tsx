@@ -1,109 +1,549 @@
-import React, { useEffect, useRef, useState } from "react";
+import React, {
+  forwardRef,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls";
-import * as CANNON from "cannon-es";
 import { EffectComposer } from "three/examples/jsm/postprocessing/EffectComposer";
 import { RenderPass } from "three/examples/jsm/postprocessing/RenderPass";
 import { UnrealBloomPass } from "three/examples/jsm/postprocessing/UnrealBloomPass";
 import { ShaderPass } from "three/examples/jsm/postprocessing/ShaderPass";
 import { FXAAShader } from "three/examples/jsm/shaders/FXAAShader";
+import {
+  CameraPose,
+  CollisionEvent,
+  ContainerConfig,
+  CueStrikeEvent,
+  FluidConfig,
+  FORCE_FIELD_TYPES,
+  ForceField,
+  ForceFieldInput,
+  ForceFieldSpec,
+  ForceFieldType,
+  FrameCost,
+  PhysicsConfig,
+  PlaybackMarker,
+  PocketGame,
+  PocketGameConfig,
+  PocketGameState,
+  RecordedEventType,
+  Recording,
+  RecordingPlayer,
+  SNAPSHOT_VERSION,
+  SceneSnapshot,
+  SimulationController,
+  SimulationErrorEvent,
+  SimulationState,
+  SimulationTelemetry,
+  SpawnSphereOptions,
+  SphereConfig,
+  SphereEscapedEvent,
+  SphereRemovedEvent,
+  SphereSpawnedEvent,
+  TelemetrySample,
+  Vector3Like,
+  createRandom,
+  decodeRecording,
+  resolveContainerConfig,
+  resolveFluidConfig,
+  resolvePhysicsConfig,
+  resolveSphereConfig,
+  parseSnapshot,
+  serializeForceFields,
+} from "./simulation";
+import { createSimulation } from "./simulation/createSimulation";
+import { AimGuide } from "./rendering/AimGuide";
+import { ForceFieldGizmos } from "./rendering/ForceFieldGizmos";
+import { LiquidSurface } from "./rendering/LiquidSurface";
+import { PocketMarkers } from "./rendering/PocketMarkers";
+import { createContainerGeometry } from "./rendering/containerGeometry";
+import { InstancedSphereRenderer } from "./rendering/InstancedSphereRenderer";
+import { SphereRenderer } from "./rendering/SphereRenderer";
+import { SphereViewRegistry } from "./rendering/SphereViewRegistry";
+import PerformanceHud from "./PerformanceHud";
+import { usePropOverrides } from "./configLayers";
+import { SceneLink, encodeSceneLink, parseSceneLink } from "./sceneLink";
+import TuningPanel from "./TuningPanel";
+import { emptyTuning } from "./tuningPresets";
+import {
+  RenderConfig,
+  SphereRenderMode,
+  resolveRenderConfig,
+  selectRenderMode,
+} from "./rendering/config";
+
+export type CueMode = "auto" | "aim";
+
+const MAX_AIM_DRAG = 3;
+const MIN_AIM_POWER = 0.05;
+const AIM_POWER_MULTIPLIER = 2;
+const CUE_PICK_TOLERANCE = 1.5;
+const FIELD_AXES: Record<string, Vector3Like> = {
+  "+x": { x: 1, y: 0, z: 0 },
+  "-x": { x: -1, y: 0, z: 0 },
+  "+y": { x: 0, y: 1, z: 0 },
+  "-y": { x: 0, y: -1, z: 0 },
+  "+z": { x: 0, y: 0, z: 1 },
+  "-z": { x: 0, y: 0, z: -1 },
+};
+
+const PLAYBACK_SPEEDS = [0.125, 0.25, 0.5, 1, 2, 4, 8];
+const PLAYBACK_DISPLAY_STEP = 100;
+const MARKER_COLORS: Record<RecordedEventType, string> = {
+  sphereSpawned: "#88ccff",
+  sphereRemoved: "#ffaa88",
+  cueStrike: "#ff7755",
+};
 
-interface PhysicsConfig {
-  gravity: number;
-  friction: number;
-  restitution: number;
-  dampingFactor: number;
-  solverIterations: number;
-  timeStep: number;
-  boundaryForceMultiplier: number;
-  centralGravityStrength: number;
-  exitThreshold: number;
+interface PlaybackState {
+  time: number;
+  duration: number;
+  playing: boolean;
+  speed: number;
+  markers: PlaybackMarker[];
 }
 
-interface SphereConfig {
-  mainRadius: number;
-  smallCount: number;
-  smallMinRadius: number;
-  smallMaxRadius: number;
-  cueBallRadius: number;
-  cueBallMass: number;
-  cueBallImpulseFactor: number;
-  cueBallColor: THREE.Color;
-  cueBallEmissiveIntensity: number;
-  regenerationInterval: number;
-  popupDuration: number;
-  popupScale: number;
-  newSphereImpulseFactor: number;
+const nextPlayback = (
+  player: RecordingPlayer | null,
+  current: PlaybackState | null
+): PlaybackState | null => {
+  if (!player) return null;
+
+  const time =
+    Math.round(player.time / PLAYBACK_DISPLAY_STEP) * PLAYBACK_DISPLAY_STEP;
+  return current &&
+    current.time === time &&
+    current.playing === player.playing &&
+    current.speed === player.playbackSpeed
+    ? current
+    : {
+        time,
+        duration: player.duration,
+        playing: player.playing,
+        speed: player.playbackSpeed,
+        markers: current?.markers ?? player.markers,
+      };
+};
+
+const cameraPose = (
+  camera: THREE.PerspectiveCamera | null,
+  controls: OrbitControls | null
+): CameraPose | null => {
+  const target = controls?.target;
+  return (
+    camera && {
+      position: { ...camera.position },
+      target: target ? { ...target } : { x: 0, y: 0, z: 0 },
+    }
+  );
+};
+
+const formatPlaybackTime = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const fieldAxisName = ({ x, y, z }: Vector3Like) =>
+  Object.keys(FIELD_AXES).find((name) => {
+    const axis = FIELD_AXES[name];
+    return axis.x === x && axis.y === y && axis.z === z;
+  }) ?? "";
+
+export interface GalacticSpheresProps {
+  seed?: number;
+  physicsConfig?: Partial<PhysicsConfig>;
+  sphereConfig?: Partial<SphereConfig>;
+  container?: Partial<ContainerConfig>;
+  fluid?: Partial<FluidConfig>;
+  renderConfig?: Partial<RenderConfig>;
+  cueMode?: CueMode;
+  paused?: boolean;
+  timeScale?: number;
+  onCollision?: (event: CollisionEvent) => void;
+  onSphereEscaped?: (event: SphereEscapedEvent) => void;
+  onSphereSpawned?: (event: SphereSpawnedEvent) => void;
+  onSphereRemoved?: (event: SphereRemovedEvent) => void;
+  onCueStrike?: (event: CueStrikeEvent) => void;
+  onSimulationError?: (event: SimulationErrorEvent) => void;
+  pocketGame?: Partial<PocketGameConfig>;
+  onGameStateChange?: (state: PocketGameState) => void;
+  forceFields?: ForceFieldSpec[];
+  fieldPlacement?: ForceFieldType | null;
+  onForceFieldsChange?: (fields: ForceFieldSpec[]) => void;
+  shareableUrl?: boolean;
+  performanceHud?: boolean;
+  onTelemetry?: (sample: TelemetrySample) => void;
 }
 
-interface SphereUserData {
-  hasLight: boolean;
-  lightIndex: number;
-  isCueBall?: boolean;
+export interface GalacticSpheresHandle {
+  pause(): void;
+  resume(): void;
+  step(): void;
+  reset(): void;
+  setTimeScale(timeScale: number): void;
+  spawnSphere(options?: SpawnSphereOptions): number | null;
+  removeSphere(id: number): boolean;
+  strikeCueBall(direction: Vector3Like, power?: number): boolean;
+  setCamera(position: Vector3Like, target?: Vector3Like): void;
+  getState(): SimulationState | null;
+  addForceField(input: ForceFieldInput): number | null;
+  removeForceField(id: number): boolean;
+  exportSnapshot(): Promise<SceneSnapshot | null>;
+  importSnapshot(snapshot: SceneSnapshot | string): void;
+  startRecording(): void;
+  stopRecording(): Promise<Recording | null>;
+  playRecording(recording: Recording | Uint8Array | ArrayBuffer): void;
+  stopPlayback(): void;
 }
 
-const GalacticSpheres: React.FC = () => {
+const GalacticSpheres: React.ForwardRefRenderFunction<
+  GalacticSpheresHandle,
+  GalacticSpheresProps
+> = (
+  {
+    seed,
+    physicsConfig,
+    sphereConfig,
+    container: containerConfig,
+    fluid,
+    renderConfig,
+    cueMode = "auto",
+    paused = false,
+    timeScale = 1,
+    onCollision,
+    onSphereEscaped,
+    onSphereSpawned,
+    onSphereRemoved,
+    onCueStrike,
+    onSimulationError,
+    pocketGame,
+    onGameStateChange,
+    forceFields,
+    fieldPlacement = null,
+    onForceFieldsChange,
+    shareableUrl = true,
+    performanceHud = false,
+    onTelemetry,
+  },
+  ref
+) => {
   const containerRef = useRef<HTMLDivElement | null>(null);
-  const [isActive, setIsActive] = useState(true);
   const [isLoading, setIsLoading] = useState(true);
+  const [aimPower, setAimPower] = useState<number | null>(null);
+  const [gameState, setGameState] = useState<PocketGameState | null>(null);
+  const [fieldList, setFieldList] = useState<readonly ForceField[]>([]);
+  const [selectedFieldId, setSelectedFieldId] = useState<number | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [playback, setPlayback] = useState<PlaybackState | null>(null);
+  const gameRef = useRef<PocketGame | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
-  const worldRef = useRef<CANNON.World | null>(null);
+  const simulationRef = useRef<SimulationController | null>(null);
+  const recordingRef = useRef(false);
+  const playerRef = useRef<RecordingPlayer | null>(null);
   const timeRef = useRef<number>(0);
-  const mousePosition = useRef<THREE.Vector2>(new THREE.Vector2(0, 0));
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const controlsRef = useRef<OrbitControls | null>(null);
-
-  const smallSphereMeshesRef = useRef<THREE.Mesh[]>([]);
-  const smallSphereBodiesRef = useRef<CANNON.Body[]>([]);
   const mainSphereMeshRef = useRef<THREE.Mesh | null>(null);
-  const cueBallIndexRef = useRef<number>(-1);
-
-  const lastImpulseTimeRef = useRef<number>(0);
-  const impulseIntervalRef = useRef<number>(3000);
-  const lastSphereRegenerationTimeRef = useRef<number>(0);
-  const impulseDirectionRef = useRef<THREE.Vector3>(new THREE.Vector3(0, 0, 0));
-  const newSphereScaleRef = useRef<number>(0);
-  const pendingNewSphereRef = useRef<{
-    mesh: THREE.Mesh | null;
-    body: CANNON.Body | null;
-    startTime: number;
-    initialPosition: THREE.Vector3;
-  }>({
-    mesh: null,
-    body: null,
-    startTime: 0,
-    initialPosition: new THREE.Vector3(),
+  const sceneLinkRef = useRef<SceneLink | null>();
+  if (sceneLinkRef.current === undefined) {
+    sceneLinkRef.current = shareableUrl
+      ? parseSceneLink(window.location.hash)
+      : null;
+  }
+  const [tuningOpen, setTuningOpen] = useState(false);
+  const [hudVisible, setHudVisible] = useState(performanceHud);
+  const [telemetry, setTelemetry] = useState<{
+    sample: TelemetrySample;
+    history: FrameCost[];
+  } | null>(null);
+  const propValues = useMemo(
+    () => ({
+      physicsConfig: physicsConfig ?? {},
+      sphereConfig: sphereConfig ?? {},
+      renderConfig: renderConfig ?? {},
+    }),
+    [physicsConfig, sphereConfig, renderConfig]
+  );
+  // props < link < tuning, with each layer only holding the keys it sets
+  const [linkValues, setLinkValues] = usePropOverrides(propValues, () => ({
+    ...emptyTuning,
+    physicsConfig: sceneLinkRef.current?.physicsConfig ?? {},
+    sphereConfig: sceneLinkRef.current?.sphereConfig ?? {},
+    renderConfig: sceneLinkRef.current?.renderConfig ?? {},
+  }));
+  const [tuning, setTuning] = usePropOverrides(propValues, emptyTuning);
+  const activePhysicsConfig = useMemo(
+    () => ({
+      ...physicsConfig,
+      ...linkValues.physicsConfig,
+      ...tuning.physicsConfig,
+    }),
+    [physicsConfig, linkValues.physicsConfig, tuning.physicsConfig]
+  );
+  const activeSphereConfig = useMemo(
+    () => ({
+      ...sphereConfig,
+      ...linkValues.sphereConfig,
+      ...tuning.sphereConfig,
+    }),
+    [sphereConfig, linkValues.sphereConfig, tuning.sphereConfig]
+  );
+  const activeRenderConfig = useMemo(
+    () => ({
+      ...renderConfig,
+      ...linkValues.renderConfig,
+      ...tuning.renderConfig,
+    }),
+    [renderConfig, linkValues.renderConfig, tuning.renderConfig]
+  );
+  const physicsConfigRef = useRef(activePhysicsConfig);
+  const sphereConfigRef = useRef(activeSphereConfig);
+  const containerConfigRef = useRef(containerConfig);
+  const fluidRef = useRef(fluid);
+  const renderConfigRef = useRef(activeRenderConfig);
+  const cueModeRef = useRef(cueMode);
+  const pocketGameRef = useRef(pocketGame);
+  const forceFieldsRef = useRef(forceFields);
+  const fieldPlacementRef = useRef(fieldPlacement);
+  const pausedRef = useRef(paused);
+  const timeScaleRef = useRef(timeScale);
+  const shareableUrlRef = useRef(shareableUrl);
+  const hudVisibleRef = useRef(hudVisible);
+  const initialSeedRef = useRef(seed);
+  physicsConfigRef.current = activePhysicsConfig;
+  sphereConfigRef.current = activeSphereConfig;
+  containerConfigRef.current = containerConfig;
+  fluidRef.current = fluid;
+  renderConfigRef.current = activeRenderConfig;
+  cueModeRef.current = cueMode;
+  pocketGameRef.current = pocketGame;
+  forceFieldsRef.current = forceFields;
+  fieldPlacementRef.current = fieldPlacement;
+  pausedRef.current = paused;
+  timeScaleRef.current = timeScale;
+  shareableUrlRef.current = shareableUrl;
+  hudVisibleRef.current = hudVisible;
+  const callbacksRef = useRef({
+    onCollision,
+    onSphereEscaped,
+    onSphereSpawned,
+    onSphereRemoved,
+    onCueStrike,
+    onSimulationError,
+    onGameStateChange,
+    onForceFieldsChange,
+    onTelemetry,
   });
+  callbacksRef.current = {
+    onCollision,
+    onSphereEscaped,
+    onSphereSpawned,
+    onSphereRemoved,
+    onCueStrike,
+    onSimulationError,
+    onGameStateChange,
+    onForceFieldsChange,
+    onTelemetry,
+  };
+
+  const updateUrl = () => {
+    const simulation = simulationRef.current;
+    if (!shareableUrlRef.current || !simulation) return;
+
+    const hash = encodeSceneLink({
+      seed: simulation.seed,
+      physicsConfig: simulation.physicsConfig,
+      sphereConfig: simulation.sphereConfig,
+      renderConfig: resolveRenderConfig(renderConfigRef.current),
+      camera: cameraPose(cameraRef.current, controlsRef.current),
+    });
+    if (window.location.hash !== `#${hash}`) {
+      window.history.replaceState(null, "", `#${hash}`);
+    }
+  };
+
+  const placeCamera = (position: Vector3Like, target: Vector3Like) => {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!camera) return;
+
+    camera.position.set(position.x, position.y, position.z);
+    if (controls) {
+      controls.target.set(target.x, target.y, target.z);
+      controls.update();
+    } else {
+      camera.lookAt(target.x, target.y, target.z);
+    }
+  };
+
+  const syncPlayback = () =>
+    setPlayback((current) => nextPlayback(playerRef.current, current));
+
+  const startRecording = () => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+
+    simulation.startRecording();
+    recordingRef.current = true;
+    setIsRecording(true);
+  };
+
+  const stopRecording = (): Promise<Recording | null> => {
+    const simulation = simulationRef.current;
+    if (!recordingRef.current || !simulation) return Promise.resolve(null);
+
+    recordingRef.current = false;
+    setIsRecording(false);
+    return simulation.stopRecording();
+  };
+
+  const playRecording = (input: Recording | Uint8Array | ArrayBuffer) => {
+    const recording =
+      input instanceof Uint8Array || input instanceof ArrayBuffer
+        ? decodeRecording(input)
+        : input;
+    playerRef.current?.dispose();
+    playerRef.current = new RecordingPlayer(recording);
+    setPlayback(nextPlayback(playerRef.current, null));
+  };
 
-  const physicsConfig: PhysicsConfig = {
-    gravity: -5.0,
-    friction: 0.1,
-    restitution: 0.85,
-    dampingFactor: 0.08,
-    solverIterations: 20,
-    timeStep: 1 / 60,
-    boundaryForceMultiplier: 150,
-    centralGravityStrength: 0,
-    exitThreshold: 1.02,
+  const stopPlayback = () => {
+    playerRef.current?.dispose();
+    playerRef.current = null;
+    setPlayback(null);
   };
 
-  const sphereConfig: SphereConfig = {
-    mainRadius: 5.0,
-    smallCount: 14,
-    smallMinRadius: 0.2,
-    smallMaxRadius: 0.6,
-    cueBallRadius: 0.5,
-    cueBallMass: 5.0,
-    cueBallImpulseFactor: 40.0,
-    cueBallColor: new THREE.Color(0xffffff),
-    cueBallEmissiveIntensity: 0.9,
-    regenerationInterval: 10000,
-    popupDuration: 800,
-    popupScale: 1.5,
-    newSphereImpulseFactor: 40.0,
+  const togglePlayback = () => {
+    const player = playerRef.current;
+    if (!player) return;
+
+    if (player.playing) {
+      player.pause();
+    } else {
+      player.play();
+    }
+    setPlayback((current) => nextPlayback(player, current));
   };
 
+  useImperativeHandle(
+    ref,
+    () => ({
+      pause: () => simulationRef.current?.pause(),
+      resume: () => simulationRef.current?.resume(),
+      step: () => simulationRef.current?.singleStep(),
+      reset: () => simulationRef.current?.reset(),
+      setTimeScale: (value) => {
+        if (simulationRef.current) {
+          simulationRef.current.timeScale = value;
+        }
+      },
+      spawnSphere: (options) =>
+        simulationRef.current?.spawnSphere(options) ?? null,
+      removeSphere: (id) => simulationRef.current?.removeSphere(id) ?? false,
+      strikeCueBall: (direction, power) =>
+        simulationRef.current?.strikeCueBall(direction, power) ?? false,
+      setCamera: (position, target = { x: 0, y: 0, z: 0 }) =>
+        placeCamera(position, target),
+      getState: () => simulationRef.current?.getState() ?? null,
+      addForceField: (input) =>
+        simulationRef.current?.addForceField(input) ?? null,
+      removeForceField: (id) =>
+        simulationRef.current?.removeForceField(id) ?? false,
+      exportSnapshot: () => {
+        const simulation = simulationRef.current;
+        if (!simulation) return Promise.resolve(null);
+
+        return simulation.captureSnapshot().then((snapshot) => ({
+          version: SNAPSHOT_VERSION,
+          simulation: snapshot,
+          camera: cameraPose(cameraRef.current, controlsRef.current),
+        }));
+      },
+      importSnapshot: (input) => {
+        const { simulation, camera } = parseSnapshot(input);
+        simulationRef.current?.importSnapshot(simulation);
+        if (camera) {
+          placeCamera(camera.position, camera.target);
+        }
+        updateUrl();
+      },
+      startRecording,
+      stopRecording,
+      playRecording,
+      stopPlayback,
+    }),
+    []
+  );
+
+  useEffect(() => {
+    simulationRef.current?.setPhysicsConfig(
+      resolvePhysicsConfig(activePhysicsConfig)
+    );
+    updateUrl();
+  }, [activePhysicsConfig]);
+
+  useEffect(() => {
+    simulationRef.current?.setSphereConfig(
+      resolveSphereConfig(activeSphereConfig)
+    );
+    updateUrl();
+  }, [activeSphereConfig]);
+
+  useEffect(() => {
+    updateUrl();
+  }, [activeRenderConfig]);
+
+  useEffect(() => {
+    simulationRef.current?.setContainerConfig(
+      resolveContainerConfig(containerConfig)
+    );
+  }, [containerConfig]);
+
+  useEffect(() => {
+    simulationRef.current?.setFluidConfig(resolveFluidConfig(fluid));
+  }, [fluid]);
+
+  useEffect(() => {
+    const simulation = simulationRef.current;
+    if (!simulation || !forceFields) return;
+
+    const current = JSON.stringify(
+      serializeForceFields(simulation.forceFields)
+    );
+    if (current !== JSON.stringify(serializeForceFields(forceFields))) {
+      simulation.setForceFields(forceFields);
+    }
+  }, [forceFields]);
+
+  useEffect(() => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+
+    if (paused) {
+      simulation.pause();
+    } else {
+      simulation.resume();
+    }
+  }, [paused]);
+
+  useEffect(() => {
+    if (simulationRef.current) {
+      simulationRef.current.timeScale = timeScale;
+    }
+  }, [timeScale]);
+
+  useEffect(() => {
+    if (simulationRef.current) {
+      simulationRef.current.autoCueStrike = cueMode === "auto";
+    }
+  }, [cueMode]);
+
+  useEffect(() => {
+    setHudVisible(performanceHud);
+  }, [performanceHud]);
+
   useEffect(() => {
     const container = containerRef.current;
 
@@ -115,6 +555,60 @@ const GalacticSpheres: React.FC = () => {
 
     if (container === null) return;
 
+    let isActive = true;
+    let animationFrameId = 0;
+    const timeouts: ReturnType<typeof setTimeout>[] = [];
+
+    // the link describes the scene it was copied from, so it only applies
+    // until the seed prop moves on to another one
+    const link = seed === initialSeedRef.current ? sceneLinkRef.current : null;
+    const simulation = createSimulation({
+      physicsConfig: physicsConfigRef.current,
+      sphereConfig: sphereConfigRef.current,
+      container: containerConfigRef.current,
+      fluid: fluidRef.current,
+      forceFields: forceFieldsRef.current,
+      seed: link?.seed ?? seed,
+    });
+    simulation.timeScale = timeScaleRef.current;
+    simulation.autoCueStrike = cueModeRef.current === "auto";
+    if (pausedRef.current) {
+      simulation.pause();
+    }
+    simulationRef.current = simulation;
+
+    simulation.on("collision", (event) =>
+      callbacksRef.current.onCollision?.(event)
+    );
+    simulation.on("sphereEscaped", (event) =>
+      callbacksRef.current.onSphereEscaped?.(event)
+    );
+    simulation.on("sphereSpawned", (event) =>
+      callbacksRef.current.onSphereSpawned?.(event)
+    );
+    simulation.on("sphereRemoved", (event) =>
+      callbacksRef.current.onSphereRemoved?.(event)
+    );
+    simulation.on("cueStrike", (event) =>
+      callbacksRef.current.onCueStrike?.(event)
+    );
+    simulation.on("simulationError", (event) => {
+      const { onSimulationError } = callbacksRef.current;
+      if (onSimulationError) {
+        onSimulationError(event);
+      } else {
+        console.error(`Simulation ${event.command} failed: ${event.message}`);
+      }
+    });
+    simulation.on("forceFieldsChanged", ({ fields }) => {
+      setFieldList(fields);
+      callbacksRef.current.onForceFieldsChange?.(serializeForceFields(fields));
+    });
+    setFieldList(simulation.forceFields);
+    const telemetryStream = new SimulationTelemetry(simulation);
+
+    const backdropRandom = createRandom(simulation.seed ^ 0x9e3779b9);
+
     const scene = new THREE.Scene();
     sceneRef.current = scene;
     scene.background = new THREE.Color(0x030820);
@@ -159,11 +653,12 @@ const GalacticSpheres: React.FC = () => {
     }
 
     const renderScene = new RenderPass(scene, camera);
+    const bloomConfig = resolveRenderConfig(renderConfigRef.current);
     const bloomPass = new UnrealBloomPass(
       new THREE.Vector2(window.innerWidth, window.innerHeight),
-      0.7,
-      0.4,
-      0.85
+      bloomConfig.bloomStrength,
+      bloomConfig.bloomRadius,
+      bloomConfig.bloomThreshold
     );
     const fxaaPass = new ShaderPass(FXAAShader);
     fxaaPass.material.uniforms["resolution"].value.x =
@@ -176,16 +671,6 @@ const GalacticSpheres: React.FC = () => {
     composer.addPass(bloomPass);
     composer.addPass(fxaaPass);
 
-    const world = new CANNON.World();
-    worldRef.current = world;
-
-    world.gravity.set(0, 0, 0);
-    world.broadphase = new CANNON.SAPBroadphase(world);
-    world.allowSleep = false;
-
-    world.defaultContactMaterial.friction = physicsConfig.friction;
-    world.defaultContactMaterial.restitution = physicsConfig.restitution;
-
     const glassMaterial = new THREE.MeshPhysicalMaterial({
       color: 0xffffff,
       metalness: 0.1,
@@ -200,13 +685,15 @@ const GalacticSpheres: React.FC = () => {
       ior: 1.6,
     });
 
-    const mainSphereRadius = sphereConfig.mainRadius;
-    const mainSphereGeometry = new THREE.SphereGeometry(
-      mainSphereRadius,
-      64,
-      64
+    const mainSphereRadius = simulation.sphereConfig.mainRadius;
+    const containerScale = () =>
+      simulation.sphereConfig.mainRadius / mainSphereRadius;
+    let containerGeometryConfig = simulation.containerConfig;
+    const mainSphereMesh = new THREE.Mesh(
+      createContainerGeometry(containerGeometryConfig, mainSphereRadius),
+      glassMaterial
     );
-    const mainSphereMesh = new THREE.Mesh(mainSphereGeometry, glassMaterial);
+    mainSphereMesh.userData.baseRadius = mainSphereRadius;
     mainSphereMesh.castShadow = true;
     mainSphereMesh.receiveShadow = true;
     mainSphereMesh.position.set(0, 0, 0);
@@ -218,9 +705,9 @@ const GalacticSpheres: React.FC = () => {
     const posArray = new Float32Array(particlesCount * 3);
 
     for (let i = 0; i < particlesCount * 3; i += 3) {
-      const phi = Math.random() * Math.PI * 2;
-      const theta = Math.random() * Math.PI;
-      const r = 7 + Math.random() * 8;
+      const phi = backdropRandom.next() * Math.PI * 2;
+      const theta = backdropRandom.next() * Math.PI;
+      const r = 7 + backdropRandom.next() * 8;
 
       posArray[i] = r * Math.sin(theta) * Math.cos(phi);
       posArray[i + 1] = r * Math.sin(theta) * Math.sin(phi);
@@ -247,337 +734,57 @@ const GalacticSpheres: React.FC = () => {
     );
     scene.add(particlesMesh);
 
-    const cannonMaterial = new CANNON.Material("sphereMaterial");
-    cannonMaterial.restitution = physicsConfig.restitution;
-    cannonMaterial.friction = physicsConfig.friction;
-
-    const generateVibrantColor = () => {
-      const hue = Math.random();
-      const saturation = 0.7 + Math.random() * 0.3;
-      const lightness = 0.5 + Math.random() * 0.3;
-      return new THREE.Color().setHSL(hue, saturation, lightness);
-    };
-
-    const sphereCount = sphereConfig.smallCount;
-    const smallSphereMeshes: THREE.Mesh[] = [];
-    const smallSphereBodies: CANNON.Body[] = [];
-
-    cueBallIndexRef.current = Math.floor(Math.random() * sphereCount);
-
-    const lastVelocities = new Array(sphereCount)
-      .fill(null)
-      .map(() => new CANNON.Vec3(0, 0, 0));
-    const stationaryTimes = new Array(sphereCount).fill(0);
-
-    for (let i = 0; i < sphereCount; i++) {
-      const isCueBall = i === cueBallIndexRef.current;
-
-      const radius = isCueBall
-        ? sphereConfig.cueBallRadius
-        : sphereConfig.smallMinRadius +
-          Math.random() *
-            (sphereConfig.smallMaxRadius - sphereConfig.smallMinRadius);
-
-      const sphereColor = isCueBall
-        ? sphereConfig.cueBallColor
-        : generateVibrantColor();
-
-      const sphereMaterial = new THREE.MeshPhysicalMaterial({
-        color: sphereColor,
-        metalness: isCueBall ? 0.8 : Math.random() * 0.3 + 0.5,
-        roughness: isCueBall ? 0.1 : Math.random() * 0.2 + 0.1,
-        emissive: sphereColor.clone().multiplyScalar(0.5),
-        emissiveIntensity: isCueBall
-          ? sphereConfig.cueBallEmissiveIntensity
-          : Math.random() * 0.6 + 0.4,
-        clearcoat: isCueBall ? 1.0 : 0.8,
-        clearcoatRoughness: isCueBall ? 0.1 : 0.2,
-      });
-
-      const sphereGeometry = new THREE.SphereGeometry(radius, 24, 24);
-      const sphereMesh = new THREE.Mesh(sphereGeometry, sphereMaterial);
-      sphereMesh.castShadow = true;
-      sphereMesh.receiveShadow = true;
-
-      const maxStartRadius = mainSphereRadius * 0;
-      const randomDir = new THREE.Vector3(
-        Math.random() * 2 - 1,
-        Math.random() * 2 - 1,
-        Math.random() * 2 - 1
-      ).normalize();
-      const randomDist = Math.random() * maxStartRadius;
-      const x = randomDir.x * randomDist;
-      const y = randomDir.y * randomDist;
-      const z = randomDir.z * randomDist;
-      sphereMesh.position.set(x, y, z);
-      scene.add(sphereMesh);
-      smallSphereMeshes.push(sphereMesh);
-
-      if (isCueBall || Math.random() > 0.3) {
-        const pointLight = new THREE.PointLight(
-          sphereColor.getHex(),
-          isCueBall ? 3.0 : Math.random() * 1.5 + 0.5,
-          isCueBall ? 5 : 3
-        );
-        pointLight.position.copy(sphereMesh.position);
-        scene.add(pointLight);
-
-        const lightIndex = scene.children.indexOf(pointLight);
+    const createSphereRenderer = (
+      mode: Exclude<SphereRenderMode, "auto">,
+      maxPointLights: number
+    ): SphereRenderer =>
+      mode === "instanced"
+        ? new InstancedSphereRenderer(scene, { maxPointLights })
+        : new SphereViewRegistry(scene, { maxPointLights });
+
+    let sphereRenderMode: Exclude<SphereRenderMode, "auto"> | null = null;
+    let sphereLightBudget = 0;
+    let sphereViews: SphereRenderer | null = null;
+    let sphereSource: SimulationController | RecordingPlayer = simulation;
+
+    const currentSphereRenderer = () => {
+      const config = resolveRenderConfig(renderConfigRef.current);
+      const source = playerRef.current ?? simulation;
+      const count = source.spheres.length + (source.pendingSphere ? 1 : 0);
+      const mode = selectRenderMode(config, count, sphereRenderMode);
 
-        sphereMesh.userData = {
-          hasLight: true,
-          lightIndex,
-          isCueBall,
-        } as SphereUserData;
-      } else {
-        sphereMesh.userData = {
-          hasLight: false,
-          lightIndex: -1,
-          isCueBall,
-        } as SphereUserData;
-      }
-
-      const sphereShape = new CANNON.Sphere(radius);
-      const sphereBody = new CANNON.Body({
-        mass: isCueBall ? sphereConfig.cueBallMass : radius * 2,
-        material: cannonMaterial,
-        position: new CANNON.Vec3(x, y, z),
-        linearDamping: physicsConfig.dampingFactor,
-        angularDamping: physicsConfig.dampingFactor,
-      });
-      sphereBody.addShape(sphereShape);
-
-      const initialVelocity = new CANNON.Vec3(
-        (Math.random() - 0.5) * 1.5,
-        (Math.random() - 0.5) * 1.5,
-        (Math.random() - 0.5) * 1.5
-      );
-      sphereBody.velocity.copy(initialVelocity);
-
-      world.addBody(sphereBody);
-      smallSphereBodies.push(sphereBody);
-
-      if (isCueBall) {
-        calculateNewImpulseDirection();
-      }
-    }
-
-    function calculateNewImpulseDirection(): THREE.Vector3 {
-      let x, y, z, lengthSquared;
-      do {
-        x = Math.random() * 2 - 1;
-        y = Math.random() * 2 - 1;
-        z = Math.random() * 2 - 1;
-        lengthSquared = x * x + y * y + z * z;
-      } while (lengthSquared >= 1 || lengthSquared < 0.1);
-
-      const length = Math.sqrt(lengthSquared);
-      return new THREE.Vector3(x / length, y / length, z / length);
-    }
-
-    function applyCueBallImpulse(time: number) {
-      if (time - lastImpulseTimeRef.current > impulseIntervalRef.current) {
-        const cueBallIndex = cueBallIndexRef.current;
-        const sphereBodies = smallSphereBodiesRef.current;
-
-        if (cueBallIndex >= 0 && cueBallIndex < sphereBodies.length) {
-          const cueBallBody = sphereBodies[cueBallIndex];
-
-          const direction = calculateNewImpulseDirection();
-          impulseDirectionRef.current.copy(direction);
-
-          const impulseVector = new CANNON.Vec3(
-            direction.x * sphereConfig.cueBallImpulseFactor,
-            direction.y * sphereConfig.cueBallImpulseFactor,
-            direction.z * sphereConfig.cueBallImpulseFactor
-          );
-
-          const applicationOffset = new CANNON.Vec3(
-            (Math.random() - 0.5) * 0.1,
-            (Math.random() - 0.5) * 0.1,
-            (Math.random() - 0.5) * 0.1
-          );
-          cueBallBody.applyImpulse(impulseVector, applicationOffset);
-
-          lastImpulseTimeRef.current = time;
-          impulseIntervalRef.current = 3000 + Math.random() * 2000;
-        }
-      }
-    }
-
-    function removeRandomSphere(time: number) {
-      const sphereMeshes = smallSphereMeshesRef.current;
-      const sphereBodies = smallSphereBodiesRef.current;
-      const cueBallIndex = cueBallIndexRef.current;
-
-      if (sphereMeshes.length <= 1 || sphereBodies.length <= 1) return;
-
-      let randomIndex;
-      do {
-        randomIndex = Math.floor(Math.random() * sphereMeshes.length);
-      } while (randomIndex === cueBallIndex);
-
-      const meshToRemove = sphereMeshes[randomIndex];
-      const bodyToRemove = sphereBodies[randomIndex];
-
-      if (randomIndex < cueBallIndex) {
-        cueBallIndexRef.current--;
-      }
-
-      const userData = meshToRemove.userData as SphereUserData;
-      if (userData.hasLight && userData.lightIndex >= 0) {
-        const lightToRemove = scene.children[
-          userData.lightIndex
-        ] as THREE.Light;
-        if (lightToRemove) {
-          scene.remove(lightToRemove);
-        }
-      }
-
-      scene.remove(meshToRemove);
-      world.removeBody(bodyToRemove);
-
-      sphereMeshes.splice(randomIndex, 1);
-      sphereBodies.splice(randomIndex, 1);
-
-      lastSphereRegenerationTimeRef.current = time;
-    }
-
-    function createNewSphere(time: number) {
-      const radius =
-        sphereConfig.smallMinRadius +
-        Math.random() *
-          (sphereConfig.smallMaxRadius - sphereConfig.smallMinRadius);
-      const sphereColor = generateVibrantColor();
-
-      const sphereMaterial = new THREE.MeshPhysicalMaterial({
-        color: sphereColor,
-        metalness: 0.7,
-        roughness: 0.15,
-        emissive: sphereColor.clone().multiplyScalar(0.6),
-        emissiveIntensity: 0.7,
-        clearcoat: 0.9,
-        clearcoatRoughness: 0.1,
-      });
-
-      const sphereGeometry = new THREE.SphereGeometry(radius, 24, 24);
-      const sphereMesh = new THREE.Mesh(sphereGeometry, sphereMaterial);
-      sphereMesh.castShadow = true;
-      sphereMesh.receiveShadow = true;
-
-      const initialDir = calculateNewImpulseDirection();
-      const initialDist = mainSphereRadius * 0.3;
-      const position = new THREE.Vector3(
-        initialDir.x * initialDist,
-        initialDir.y * initialDist,
-        initialDir.z * initialDist
-      );
-
-      sphereMesh.position.copy(position);
-      sphereMesh.scale.set(0.01, 0.01, 0.01);
-      scene.add(sphereMesh);
-
-      const pointLight = new THREE.PointLight(sphereColor.getHex(), 2.0, 5);
-      pointLight.position.copy(sphereMesh.position);
-      scene.add(pointLight);
-
-      const lightIndex = scene.children.indexOf(pointLight);
-
-      sphereMesh.userData = {
-        hasLight: true,
-        lightIndex,
-        isCueBall: false,
-      } as SphereUserData;
-
-      const sphereShape = new CANNON.Sphere(radius);
-      const sphereBody = new CANNON.Body({
-        mass: radius * 3,
-        material: cannonMaterial,
-        position: new CANNON.Vec3(position.x, position.y, position.z),
-        linearDamping: physicsConfig.dampingFactor,
-        angularDamping: physicsConfig.dampingFactor,
-      });
-      sphereBody.addShape(sphereShape);
-
-      sphereBody.type = CANNON.Body.KINEMATIC;
-      world.addBody(sphereBody);
-
-      pendingNewSphereRef.current = {
-        mesh: sphereMesh,
-        body: sphereBody,
-        startTime: time,
-        initialPosition: position.clone(),
-      };
-
-      newSphereScaleRef.current = 0;
-    }
-
-    function updateNewSphereAnimation(time: number) {
-      const pendingNewSphere = pendingNewSphereRef.current;
-      if (!pendingNewSphere.mesh || !pendingNewSphere.body) return;
-
-      const elapsed = time - pendingNewSphere.startTime;
-      const duration = sphereConfig.popupDuration;
-
-      if (elapsed <= duration) {
-        const progress = elapsed / duration;
-        const easedProgress = easeOutElastic(progress);
-
-        const scale = easedProgress * sphereConfig.popupScale;
-        pendingNewSphere.mesh.scale.set(scale, scale, scale);
-
-        const userData = pendingNewSphere.mesh.userData as SphereUserData;
-        if (userData.hasLight) {
-          const light = scene.children[userData.lightIndex] as THREE.PointLight;
-          if (light) {
-            light.intensity = 2.0 + Math.sin(progress * Math.PI * 10) * 1.0;
-          }
-        }
-      } else {
-        const mesh = pendingNewSphere.mesh;
-        const body = pendingNewSphere.body;
-
-        mesh.scale.set(1, 1, 1);
-        body.type = CANNON.Body.DYNAMIC;
-
-        const direction = calculateNewImpulseDirection();
-        const impulseVector = new CANNON.Vec3(
-          direction.x * sphereConfig.newSphereImpulseFactor,
-          direction.y * sphereConfig.newSphereImpulseFactor,
-          direction.z * sphereConfig.newSphereImpulseFactor
-        );
-        body.applyImpulse(impulseVector, body.position);
-
-        smallSphereMeshesRef.current.push(mesh);
-        smallSphereBodiesRef.current.push(body);
-
-        pendingNewSphereRef.current = {
-          mesh: null,
-          body: null,
-          startTime: 0,
-          initialPosition: new THREE.Vector3(),
-        };
+      if (
+        !sphereViews ||
+        source !== sphereSource ||
+        mode !== sphereRenderMode ||
+        config.maxPointLights !== sphereLightBudget
+      ) {
+        sphereViews?.dispose();
+        sphereViews = createSphereRenderer(mode, config.maxPointLights);
+        sphereSource = source;
+        sphereRenderMode = mode;
+        sphereLightBudget = config.maxPointLights;
       }
-    }
 
-    function easeOutElastic(x: number): number {
-      const c4 = (2 * Math.PI) / 3;
+      return sphereViews;
+    };
 
-      if (x === 0 || x === 1) return x;
-      return Math.pow(2, -10 * x) * Math.sin((x * 10 - 0.75) * c4) + 1;
-    }
+    simulation.on("snapshotImported", () => {
+      sphereViews?.dispose();
+      sphereViews = null;
+    });
 
     const createInnerGlow = () => {
       const colors = [0x88ccff, 0xffaa88];
 
-      for (let i = 0; i < 2; i++) {
+      colors.forEach((color, glowIndex) => {
         const geometry = new THREE.SphereGeometry(
           mainSphereRadius * 0.7,
           24,
           24
         );
         const material = new THREE.MeshBasicMaterial({
-          color: colors[i],
+          color,
           transparent: true,
           opacity: 0.15,
           side: THREE.BackSide,
@@ -587,17 +794,17 @@ const GalacticSpheres: React.FC = () => {
         glowSphere.position.set(0, 0, 0);
         scene.add(glowSphere);
 
-        const glowIndex = i;
         const glowUpdate = () => {
           if (!isActive) return;
           const time = Date.now() * 0.001;
-          const scale = 0.8 + Math.sin(time * 0.3 + glowIndex) * 0.1;
+          const scale =
+            (0.8 + Math.sin(time * 0.3 + glowIndex) * 0.1) * containerScale();
           glowSphere.scale.set(scale, scale, scale);
           requestAnimationFrame(glowUpdate);
         };
 
         glowUpdate();
-      }
+      });
     };
 
     createInnerGlow();
@@ -614,261 +821,382 @@ const GalacticSpheres: React.FC = () => {
     controls.minPolarAngle = Math.PI * 0.1;
     controls.maxPolarAngle = Math.PI * 0.5;
     controlsRef.current = controls;
+    controls.addEventListener("end", updateUrl);
 
     const raycaster = new THREE.Raycaster();
-    const handleMouseMove = (event: MouseEvent) => {
-      mousePosition.current.x = (event.clientX / window.innerWidth) * 2 - 1;
-      mousePosition.current.y = -(event.clientY / window.innerHeight) * 2 + 1;
+    const aimGuide = new AimGuide(scene);
+    const fieldGizmos = new ForceFieldGizmos(scene);
+    const liquidSurface = new LiquidSurface(scene);
+    const screenDown = new THREE.Vector3();
+    const dragPlane = new THREE.Plane();
+    const dragPoint = new THREE.Vector3();
+    const pointer = new THREE.Vector2();
+    const cameraDirection = new THREE.Vector3();
+    let aim: {
+      pointerId: number;
+      direction: THREE.Vector3;
+      power: number;
+    } | null = null;
+    let grab: { pointerId: number; offset: THREE.Vector3 } | null = null;
+    let fieldDrag: {
+      pointerId: number;
+      id: number;
+      offset: THREE.Vector3;
+    } | null = null;
+
+    const castPointer = (event: PointerEvent) => {
+      pointer.set(
+        (event.clientX / window.innerWidth) * 2 - 1,
+        -(event.clientY / window.innerHeight) * 2 + 1
+      );
+      raycaster.setFromCamera(pointer, camera);
     };
 
-    let lastTime = 0;
+    const intersectDragPlane = (
+      event: PointerEvent,
+      origin?: THREE.Vector3
+    ) => {
+      castPointer(event);
+      if (origin) {
+        dragPlane.setFromNormalAndCoplanarPoint(
+          camera.getWorldDirection(cameraDirection),
+          origin
+        );
+      }
+      return raycaster.ray.intersectPlane(dragPlane, dragPoint);
+    };
 
-    camera.position.set(0, 10, 0);
-    camera.lookAt(0, 0, 0);
+    const capturePointer = (event: PointerEvent) => {
+      controls.enabled = false;
+      renderer.domElement.setPointerCapture(event.pointerId);
+      event.preventDefault();
+    };
 
-    const animate = (time: number) => {
-      if (!isActive) return;
+    const endGrab = () => {
+      if (!grab) return;
 
-      const deltaTime = time - lastTime;
-      lastTime = time;
-      timeRef.current = time;
+      simulation.releaseGrab();
+      grab = null;
+      controls.enabled = true;
+    };
 
-      const world = worldRef.current;
-      const smallSphereMeshes = smallSphereMeshesRef.current;
-      const smallSphereBodies = smallSphereBodiesRef.current;
-      const mainSphereMesh = mainSphereMeshRef.current;
+    const endAim = (shoot: boolean) => {
+      if (!aim) return;
 
-      if (!world || !mainSphereMesh) return;
+      if (shoot && aim.power >= MIN_AIM_POWER) {
+        simulation.strikeCueBall(
+          aim.direction,
+          aim.power *
+            simulation.sphereConfig.cueBallImpulseFactor *
+            AIM_POWER_MULTIPLIER
+        );
+      }
 
-      for (let i = 0; i < 2; i++) {
-        world.step(physicsConfig.timeStep);
+      aim = null;
+      controls.enabled = true;
+      aimGuide.hide();
+      setAimPower(null);
+    };
+
+    const aimEnabled = () =>
+      playerRef.current === null &&
+      (cueModeRef.current === "aim" || gameRef.current !== null);
+
+    const startAim = (event: PointerEvent) => {
+      const cueBall = simulation.cueBall;
+      if (!aimEnabled() || gameRef.current?.canShoot === false || !cueBall) {
+        return false;
       }
 
+      const { x, y, z } = cueBall.body.position;
+      const reach = cueBall.radius * CUE_PICK_TOLERANCE;
       if (
-        time - lastSphereRegenerationTimeRef.current >
-        sphereConfig.regenerationInterval
+        raycaster.ray.distanceSqToPoint(new THREE.Vector3(x, y, z)) >
+        reach * reach
       ) {
-        if (
-          smallSphereMeshes.length > Math.max(2, sphereConfig.smallCount / 2)
-        ) {
-          removeRandomSphere(time);
-        }
-
-        if (!pendingNewSphereRef.current.mesh) {
-          createNewSphere(time);
-        }
+        return false;
       }
 
-      if (pendingNewSphereRef.current.mesh) {
-        updateNewSphereAnimation(time);
-      }
+      aim = {
+        pointerId: event.pointerId,
+        direction: new THREE.Vector3(),
+        power: 0,
+      };
+      setAimPower(0);
+      return true;
+    };
 
-      applyCueBallImpulse(time);
+    const startGrab = (event: PointerEvent) => {
+      if (gameRef.current) return false;
 
-      if (time % 120 === 0) {
-        smallSphereBodies.forEach((body, index) => {
-          if (index !== cueBallIndexRef.current && Math.random() > 0.5) {
-            const currentVelocity = Math.sqrt(
-              body.velocity.x * body.velocity.x +
-                body.velocity.y * body.velocity.y +
-                body.velocity.z * body.velocity.z
-            );
+      const id = currentSphereRenderer().pick(raycaster);
+      const sphere = simulation.spheres.find((entry) => entry.id === id);
+      if (!sphere || !simulation.grabSphere(sphere.id)) return false;
 
-            if (currentVelocity < 0.8) {
-              const randomImpulse = new CANNON.Vec3(
-                (Math.random() - 0.5) * 0.8,
-                (Math.random() - 0.5) * 0.8,
-                (Math.random() - 0.5) * 0.8
-              );
-              body.applyImpulse(randomImpulse, body.position);
-            }
-          }
-        });
-      }
+      const { x, y, z } = sphere.body.position;
+      const center = new THREE.Vector3(x, y, z);
+      const hit = intersectDragPlane(event, center);
+      grab = {
+        pointerId: event.pointerId,
+        offset: hit ? center.sub(hit) : new THREE.Vector3(),
+      };
+      return true;
+    };
 
-      smallSphereBodies.forEach((body, index) => {
-        if (index !== cueBallIndexRef.current) {
-          const vel = body.velocity;
-          const currentSpeed = Math.sqrt(
-            vel.x * vel.x + vel.y * vel.y + vel.z * vel.z
-          );
-
-          const lastVel = lastVelocities[index];
-          if (lastVel) {
-            const velocityChange = Math.abs(
-              currentSpeed -
-                Math.sqrt(
-                  lastVel.x * lastVel.x +
-                    lastVel.y * lastVel.y +
-                    lastVel.z * lastVel.z
-                )
-            );
+    const selectField = (id: number | null) => {
+      fieldGizmos.select(id);
+      setSelectedFieldId(id);
+    };
 
-            if (currentSpeed < 0.3 && velocityChange < 0.05) {
-              stationaryTimes[index] += deltaTime;
-
-              if (stationaryTimes[index] > 2000) {
-                const toCenter = new CANNON.Vec3(
-                  -body.position.x,
-                  -body.position.y,
-                  -body.position.z
-                );
-                toCenter.normalize();
-
-                const randomDir = new CANNON.Vec3(
-                  (Math.random() - 0.5) * 2,
-                  (Math.random() - 0.5) * 2,
-                  (Math.random() - 0.5) * 2
-                );
-                randomDir.normalize();
-
-                const finalDir = new CANNON.Vec3(
-                  toCenter.x * 0.8 + randomDir.x * 0.2,
-                  toCenter.y * 0.8 + randomDir.y * 0.2,
-                  toCenter.z * 0.8 + randomDir.z * 0.2
-                );
-                finalDir.normalize();
-
-                const impulseStrength = 8 + Math.random() * 6;
-                const impulseVector = new CANNON.Vec3(
-                  finalDir.x * impulseStrength,
-                  finalDir.y * impulseStrength,
-                  finalDir.z * impulseStrength
-                );
-
-                body.applyImpulse(impulseVector, body.position);
-                stationaryTimes[index] = 0;
-              }
-            } else {
-              stationaryTimes[index] = 0;
-            }
-          }
+    const startFieldDrag = (event: PointerEvent) => {
+      const id = fieldGizmos.pick(raycaster);
+      const field = simulation.forceFields.find((entry) => entry.id === id);
+      if (!field) return false;
+
+      const { x, y, z } = field.position;
+      const center = new THREE.Vector3(x, y, z);
+      const hit = intersectDragPlane(event, center);
+      fieldDrag = {
+        pointerId: event.pointerId,
+        id: field.id,
+        offset: hit ? center.sub(hit) : new THREE.Vector3(),
+      };
+      selectField(field.id);
+      return true;
+    };
 
-          lastVelocities[index].copy(vel);
-        }
+    const placeField = (event: PointerEvent) => {
+      const type = fieldPlacementRef.current;
+      if (!type || gameRef.current) return false;
+
+      const hit = intersectDragPlane(event, new THREE.Vector3());
+      if (!hit) return false;
+
+      const id = simulation.addForceField({
+        type,
+        position: { x: hit.x, y: hit.y, z: hit.z },
       });
+      fieldDrag = {
+        pointerId: event.pointerId,
+        id,
+        offset: new THREE.Vector3(),
+      };
+      selectField(id);
+      return true;
+    };
 
-      raycaster.setFromCamera(mousePosition.current, camera);
-      const intersects = raycaster.intersectObjects(smallSphereMeshes);
+    const handlePointerDown = (event: PointerEvent) => {
+      if (aim || grab || fieldDrag || playerRef.current) return;
 
-      if (intersects.length > 0) {
-        const index = smallSphereMeshes.indexOf(
-          intersects[0].object as THREE.Mesh
-        );
-        if (index !== -1 && index < smallSphereBodies.length) {
-          const body = smallSphereBodies[index];
-
-          const force = new CANNON.Vec3(
-            (Math.random() - 0.5) * 10,
-            (Math.random() - 0.5) * 10,
-            (Math.random() - 0.5) * 10
-          );
-          body.applyImpulse(force, body.position);
+      castPointer(event);
+      if (
+        startAim(event) ||
+        startFieldDrag(event) ||
+        startGrab(event) ||
+        placeField(event)
+      ) {
+        capturePointer(event);
+      } else {
+        selectField(null);
+      }
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (fieldDrag && event.pointerId === fieldDrag.pointerId) {
+        const hit = intersectDragPlane(event);
+        if (hit) {
+          const { x, y, z } = hit.add(fieldDrag.offset);
+          simulation.updateForceField(fieldDrag.id, {
+            position: { x, y, z },
+          });
         }
+        return;
       }
 
-      const effectiveRadius = sphereConfig.mainRadius * 0.9;
-      const toRemove: number[] = [];
+      if (grab && event.pointerId === grab.pointerId) {
+        const hit = intersectDragPlane(event);
+        if (hit) {
+          simulation.moveGrab(hit.add(grab.offset));
+        }
+        return;
+      }
 
-      smallSphereBodies.forEach((body, index) => {
-        const centerDirection = new CANNON.Vec3(
-          -body.position.x,
-          -body.position.y,
-          -body.position.z
-        );
+      const cueBall = simulation.cueBall;
+      if (!aim || event.pointerId !== aim.pointerId || !cueBall) return;
 
-        const distanceFromCenter = Math.sqrt(
-          body.position.x * body.position.x +
-            body.position.y * body.position.y +
-            body.position.z * body.position.z
-        );
+      const { x, y, z } = cueBall.body.position;
+      const cuePosition = new THREE.Vector3(x, y, z);
+      if (!intersectDragPlane(event, cuePosition)) return;
 
-        if (
-          distanceFromCenter >
-          sphereConfig.mainRadius * physicsConfig.exitThreshold
-        ) {
-          if (index !== cueBallIndexRef.current) {
-            toRemove.push(index);
-          } else {
-            body.position.scale(
-              (effectiveRadius / distanceFromCenter) * 0.7,
-              body.position
-            );
-            body.velocity.set(0, 0, 0);
-          }
-          return;
-        }
+      const drag = cuePosition.sub(dragPoint);
+      aim.power = Math.min(drag.length() / MAX_AIM_DRAG, 1);
+      aim.direction.copy(drag).normalize();
+      setAimPower(aim.power);
+    };
 
-        if (distanceFromCenter > 0) {
-          centerDirection.scale(1 / distanceFromCenter, centerDirection);
-        }
+    const handlePointerUp = (event: PointerEvent) => {
+      if (aim && event.pointerId === aim.pointerId) {
+        endAim(event.type === "pointerup");
+      }
+      if (grab && event.pointerId === grab.pointerId) {
+        endGrab();
+      }
+      if (fieldDrag && event.pointerId === fieldDrag.pointerId) {
+        fieldDrag = null;
+        controls.enabled = true;
+      }
+    };
 
-        const gravityCentral = centerDirection.clone();
-        gravityCentral.scale(
-          physicsConfig.centralGravityStrength,
-          gravityCentral
-        );
-        body.applyForce(gravityCentral, new CANNON.Vec3(0, 0, 0));
-
-        if (distanceFromCenter > effectiveRadius * 0.8) {
-          const boundaryForce = centerDirection.clone();
-          const boundaryFactor =
-            Math.pow(
-              (distanceFromCenter - effectiveRadius * 0.8) /
-                (effectiveRadius * 0.2),
-              2
-            ) * physicsConfig.boundaryForceMultiplier;
-          boundaryForce.scale(boundaryFactor, boundaryForce);
-          body.applyForce(boundaryForce, new CANNON.Vec3(0, 0, 0));
-
-          body.velocity.scale(0.95, body.velocity);
-        }
+    const updateAimGuide = () => {
+      const cueBall = simulation.cueBall;
+      if (!aim) return;
+      if (!aimEnabled() || !cueBall) {
+        endAim(false);
+        return;
+      }
 
-        const maxVelocity = 12;
-        const currentVelocity = Math.sqrt(
-          body.velocity.x * body.velocity.x +
-            body.velocity.y * body.velocity.y +
-            body.velocity.z * body.velocity.z
-        );
+      if (aim.power < MIN_AIM_POWER) {
+        aimGuide.hide();
+        return;
+      }
 
-        if (currentVelocity > maxVelocity) {
-          body.velocity.scale(maxVelocity / currentVelocity, body.velocity);
-        }
-      });
+      aimGuide.update(
+        cueBall.body.position,
+        aim.direction,
+        cueBall.radius,
+        aim.power,
+        simulation.predictCueContact(aim.direction)
+      );
+    };
 
-      for (let i = toRemove.length - 1; i >= 0; i--) {
-        const indexToRemove = toRemove[i];
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        event.target instanceof HTMLInputElement ||
+        event.target instanceof HTMLSelectElement
+      ) {
+        return;
+      }
 
-        if (indexToRemove < cueBallIndexRef.current) {
-          cueBallIndexRef.current--;
+      const player = playerRef.current;
+      if (player && event.key !== "t" && event.key !== "p") {
+        switch (event.key) {
+          case " ":
+            togglePlayback();
+            event.preventDefault();
+            break;
+          case "[":
+            player.playbackSpeed /= 2;
+            syncPlayback();
+            break;
+          case "]":
+            player.playbackSpeed *= 2;
+            syncPlayback();
+            break;
         }
+        return;
+      }
 
-        const meshToRemove = smallSphereMeshes[indexToRemove];
-        const bodyToRemove = smallSphereBodies[indexToRemove];
-
-        const userData = meshToRemove.userData as SphereUserData;
-        if (userData.hasLight && userData.lightIndex >= 0) {
-          const lightToRemove = scene.children[
-            userData.lightIndex
-          ] as THREE.Light;
-          if (lightToRemove) {
-            scene.remove(lightToRemove);
+      switch (event.key) {
+        case "t":
+          setTuningOpen((open) => !open);
+          break;
+        case "p":
+          setHudVisible((visible) => !visible);
+          break;
+        case "r":
+          if (recordingRef.current) {
+            stopRecording().then(
+              (recording) => recording && playRecording(recording)
+            );
+          } else {
+            startRecording();
           }
-        }
+          break;
+        case " ":
+          if (simulation.paused) {
+            simulation.resume();
+          } else {
+            simulation.pause();
+          }
+          event.preventDefault();
+          break;
+        case ".":
+          if (simulation.paused) {
+            simulation.singleStep();
+          }
+          break;
+        case "[":
+          simulation.timeScale /= 2;
+          break;
+        case "]":
+          simulation.timeScale *= 2;
+          break;
+        case "Delete":
+        case "Backspace":
+          if (fieldGizmos.selectedId !== null) {
+            simulation.removeForceField(fieldGizmos.selectedId);
+            selectField(null);
+          }
+          break;
+      }
+    };
+
+    let lastTime = 0;
+
+    camera.position.set(0, 10, 0);
+    camera.lookAt(0, 0, 0);
+
+    const animate = (time: number) => {
+      if (!isActive) return;
+
+      const deltaTime = time - lastTime;
+      lastTime = time;
+      timeRef.current = time;
 
-        scene.remove(meshToRemove);
-        world.removeBody(bodyToRemove);
+      const mainSphereMesh = mainSphereMeshRef.current;
+      if (!mainSphereMesh) return;
 
-        smallSphereMeshes.splice(indexToRemove, 1);
-        smallSphereBodies.splice(indexToRemove, 1);
+      const player = playerRef.current;
+      if (player) {
+        player.advance(deltaTime);
+        syncPlayback();
+      } else {
+        simulation.setFluidDown(
+          screenDown.set(0, -1, 0).applyQuaternion(camera.quaternion)
+        );
+        simulation.step(deltaTime);
+      }
+
+      const sphereRenderer = currentSphereRenderer();
+
+      if (grab && simulation.grabbedSphereId === null) {
+        endGrab();
+      }
+      updateAimGuide();
+      if (!player) {
+        gameRef.current?.update();
       }
 
-      mainSphereMesh.rotation.x = time * 0.0001;
-      mainSphereMesh.rotation.y = time * 0.0002;
+      if (simulation.containerConfig !== containerGeometryConfig) {
+        containerGeometryConfig = simulation.containerConfig;
+        mainSphereMesh.geometry.dispose();
+        mainSphereMesh.geometry = createContainerGeometry(
+          containerGeometryConfig,
+          mainSphereRadius
+        );
+      }
+
+      const isStill =
+        gameRef.current !== null ||
+        simulation.fluidConfig.enabled ||
+        containerGeometryConfig.shape !== "sphere";
+      mainSphereMesh.rotation.x = isStill ? 0 : time * 0.0001;
+      mainSphereMesh.rotation.y = isStill ? 0 : time * 0.0002;
 
       mainSphereMesh.position.set(0, 0, 0);
 
-      const mainSpherePulse = Math.sin(time * 0.001) * 0.03 + 1;
+      const mainSpherePulse =
+        (isStill ? 1 : Math.sin(time * 0.001) * 0.03 + 1) * containerScale();
       mainSphereMesh.scale.set(
         mainSpherePulse,
         mainSpherePulse,
@@ -878,45 +1206,40 @@ const GalacticSpheres: React.FC = () => {
       particlesMesh.rotation.x = time * 0.0001;
       particlesMesh.rotation.y = time * 0.0002;
 
-      smallSphereBodies.forEach((body, index) => {
-        const sphereMesh = smallSphereMeshes[index];
-        const material = sphereMesh.material as THREE.MeshPhysicalMaterial;
-        const userData = sphereMesh.userData as SphereUserData;
-        const isCueBall = userData.isCueBall;
-
-        sphereMesh.position.set(
-          body.position.x,
-          body.position.y,
-          body.position.z
-        );
-
-        if (userData.hasLight) {
-          const light = scene.children[userData.lightIndex] as THREE.PointLight;
-          if (light) {
-            light.position.copy(sphereMesh.position);
+      const source = player ?? simulation;
+      sphereRenderer.sync(
+        source.spheres,
+        source.pendingSphere,
+        time,
+        camera.position
+      );
+      fieldGizmos.sync(player ? [] : simulation.forceFields);
+      liquidSurface.update(
+        player ? null : simulation.fluidSurface,
+        simulation.container
+      );
 
-            if (isCueBall) {
-              light.intensity = 2.5 + Math.sin(time * 0.003) * 0.5;
-            } else {
-              light.intensity = 1.5 + Math.sin(time * 0.002 + index) * 0.3;
-            }
-          }
-        }
-
-        if (isCueBall) {
-          material.emissiveIntensity = 0.7 + Math.sin(time * 0.003) * 0.2;
-          const scalePulse = 1.0 + Math.sin(time * 0.003) * 0.03;
-          sphereMesh.scale.set(scalePulse, scalePulse, scalePulse);
-        } else {
-          material.emissiveIntensity =
-            0.4 + Math.sin(time * 0.001 + index * 0.2) * 0.15;
-        }
-      });
+      const renderSettings = resolveRenderConfig(renderConfigRef.current);
+      bloomPass.strength = renderSettings.bloomStrength;
+      bloomPass.radius = renderSettings.bloomRadius;
+      bloomPass.threshold = renderSettings.bloomThreshold;
 
       controls.update();
       composer.render();
 
-      requestAnimationFrame(animate);
+      const sample = telemetryStream.record({
+        time,
+        frameTime: deltaTime,
+        lightCount: sphereRenderer.litCount,
+      });
+      if (sample) {
+        callbacksRef.current.onTelemetry?.(sample);
+        if (hudVisibleRef.current) {
+          setTelemetry({ sample, history: [...telemetryStream.history] });
+        }
+      }
+
+      animationFrameId = requestAnimationFrame(animate);
     };
 
     const onResize = () => {
@@ -932,7 +1255,11 @@ const GalacticSpheres: React.FC = () => {
     };
 
     window.addEventListener("resize", onResize);
-    window.addEventListener("mousemove", handleMouseMove);
+    window.addEventListener("keydown", handleKeyDown);
+    container.addEventListener("pointerdown", handlePointerDown, true);
+    container.addEventListener("pointermove", handlePointerMove);
+    container.addEventListener("pointerup", handlePointerUp);
+    container.addEventListener("pointercancel", handlePointerUp);
 
     const startZoom = () => {
       let startY = 100;
@@ -951,25 +1278,51 @@ const GalacticSpheres: React.FC = () => {
 
         if (progress < 1) {
           requestAnimationFrame(animateZoom);
+        } else {
+          updateUrl();
         }
       };
 
       requestAnimationFrame(animateZoom);
     };
 
-    setTimeout(startZoom, 1000);
+    if (link?.camera) {
+      placeCamera(link.camera.position, link.camera.target);
+      updateUrl();
+    } else {
+      timeouts.push(setTimeout(startZoom, 1000));
+    }
 
-    setTimeout(() => {
-      smallSphereMeshesRef.current = smallSphereMeshes;
-      smallSphereBodiesRef.current = smallSphereBodies;
-      setIsLoading(false);
-      animate(0);
-    }, 500);
+    timeouts.push(
+      setTimeout(() => {
+        setIsLoading(false);
+        animate(0);
+      }, 500)
+    );
 
     return () => {
-      setIsActive(false);
+      isActive = false;
+      cancelAnimationFrame(animationFrameId);
+      timeouts.forEach(clearTimeout);
       window.removeEventListener("resize", onResize);
-      window.removeEventListener("mousemove", handleMouseMove);
+      window.removeEventListener("keydown", handleKeyDown);
+      container.removeEventListener("pointerdown", handlePointerDown, true);
+      container.removeEventListener("pointermove", handlePointerMove);
+      container.removeEventListener("pointerup", handlePointerUp);
+      container.removeEventListener("pointercancel", handlePointerUp);
+      controls.removeEventListener("end", updateUrl);
+      controls.dispose();
+
+      aimGuide.dispose();
+      fieldGizmos.dispose();
+      liquidSurface.dispose();
+      sphereViews?.dispose();
+      recordingRef.current = false;
+      setIsRecording(false);
+      stopPlayback();
+      telemetryStream.dispose();
+      simulation.dispose();
+      simulationRef.current = null;
 
       if (rendererRef.current) {
         rendererRef.current.dispose();
@@ -979,19 +1332,58 @@ const GalacticSpheres: React.FC = () => {
         sceneRef.current.clear();
       }
 
-      if (worldRef.current && smallSphereBodies.length > 0) {
-        smallSphereBodies.forEach((body: CANNON.Body) => {
-          worldRef.current?.removeBody(body);
-        });
-      }
-
       if (container && rendererRef.current?.domElement) {
         try {
           container.removeChild(rendererRef.current.domElement);
         } catch (e) {}
       }
     };
-  }, []);
+  }, [seed]);
+
+  const pocketGameEnabled = pocketGame !== undefined;
+  const selectedField =
+    fieldList.find((field) => field.id === selectedFieldId) ?? null;
+  const editField = (changes: Partial<ForceFieldSpec>) => {
+    if (selectedField) {
+      simulationRef.current?.updateForceField(selectedField.id, changes);
+    }
+  };
+
+  useEffect(() => {
+    const simulation = simulationRef.current;
+    const mainSphereMesh = mainSphereMeshRef.current;
+    if (!pocketGameEnabled || !simulation || !mainSphereMesh) return;
+
+    const game = new PocketGame(simulation, pocketGameRef.current);
+    const toMeshSpace =
+      mainSphereMesh.userData.baseRadius / simulation.sphereConfig.mainRadius;
+    const markers = new PocketMarkers(
+      mainSphereMesh,
+      game.config.pockets.map(({ position, radius }) => {
+        const surface = simulation.container.interiorPoint(position, 1);
+        return {
+          position: surface.scale(toMeshSpace),
+          normal: simulation.container.normal(surface),
+          radius: radius * toMeshSpace,
+        };
+      })
+    );
+    gameRef.current = game;
+    setGameState(game.state);
+
+    const unsubscribe = game.on("change", (state) => {
+      setGameState(state);
+      callbacksRef.current.onGameStateChange?.(state);
+    });
+
+    return () => {
+      unsubscribe();
+      markers.dispose();
+      game.dispose();
+      gameRef.current = null;
+      setGameState(null);
+    };
+  }, [pocketGameEnabled, seed]);
 
   return (
     <div
@@ -1076,6 +1468,337 @@ const GalacticSpheres: React.FC = () => {
           </div>
         </div>
       )}
+      {gameState && (
+        <div
+          style={{
+            position: "absolute",
+            top: "16px",
+            left: "16px",
+            padding: "12px 16px",
+            borderRadius: "8px",
+            background: "rgba(2, 6, 24, 0.6)",
+            color: "#ffffff",
+            fontFamily: "sans-serif",
+            fontSize: "14px",
+            lineHeight: 1.6,
+            pointerEvents: "none",
+            zIndex: 10,
+          }}
+        >
+          <div>Score: {gameState.score}</div>
+          <div>
+            Shots: {gameState.shots} / {gameState.maxShots}
+          </div>
+          <div>Remaining: {gameState.remaining}</div>
+          <div style={{ color: "#88ccff" }}>
+            {gameState.status === "aiming"
+              ? "Drag the cue ball to shoot"
+              : gameState.status === "rolling"
+              ? "Rolling..."
+              : null}
+          </div>
+        </div>
+      )}
+      {(gameState?.status === "won" || gameState?.status === "lost") && (
+        <div
+          style={{
+            position: "absolute",
+            top: "50%",
+            left: "50%",
+            transform: "translate(-50%, -50%)",
+            padding: "24px 32px",
+            borderRadius: "12px",
+            background: "rgba(2, 6, 24, 0.85)",
+            color: "#ffffff",
+            fontFamily: "sans-serif",
+            textAlign: "center",
+            zIndex: 20,
+          }}
+        >
+          <div style={{ fontSize: "24px", marginBottom: "8px" }}>
+            {gameState.status === "won" ? "You win!" : "Out of shots"}
+          </div>
+          <div style={{ marginBottom: "16px" }}>
+            Final score: {gameState.score}
+          </div>
+          <button
+            onClick={() => gameRef.current?.restart()}
+            style={{
+              padding: "8px 20px",
+              border: "none",
+              borderRadius: "6px",
+              background: "#88ccff",
+              color: "#020618",
+              cursor: "pointer",
+            }}
+          >
+            Restart
+          </button>
+        </div>
+      )}
+      {aimPower !== null && (
+        <div
+          style={{
+            position: "absolute",
+            bottom: "32px",
+            left: "50%",
+            transform: "translateX(-50%)",
+            width: "240px",
+            height: "12px",
+            borderRadius: "6px",
+            background: "rgba(255, 255, 255, 0.15)",
+            overflow: "hidden",
+            pointerEvents: "none",
+            zIndex: 10,
+          }}
+        >
+          <div
+            style={{
+              width: `${aimPower * 100}%`,
+              height: "100%",
+              background: `hsl(${(1 - aimPower) * 120}, 100%, 60%)`,
+            }}
+          ></div>
+        </div>
+      )}
+      {selectedField && (
+        <div
+          style={{
+            position: "absolute",
+            top: "16px",
+            right: "16px",
+            padding: "12px 16px",
+            borderRadius: "8px",
+            background: "rgba(2, 6, 24, 0.75)",
+            color: "#ffffff",
+            fontFamily: "sans-serif",
+            fontSize: "13px",
+            display: "flex",
+            flexDirection: "column",
+            gap: "8px",
+            zIndex: 10,
+          }}
+        >
+          <label>
+            Type{" "}
+            <select
+              value={selectedField.type}
+              onChange={(event) =>
+                editField({ type: event.target.value as ForceFieldType })
+              }
+            >
+              {FORCE_FIELD_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+          </label>
+          {(selectedField.type === "vortex" ||
+            selectedField.type === "wind") && (
+            <label>
+              {selectedField.type === "vortex" ? "Axis" : "Direction"}{" "}
+              <select
+                value={fieldAxisName(selectedField.direction)}
+                onChange={(event) =>
+                  editField({ direction: FIELD_AXES[event.target.value] })
+                }
+              >
+                <option value="" disabled>
+                  custom
+                </option>
+                {Object.keys(FIELD_AXES).map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label>
+            Strength {selectedField.strength.toFixed(1)}
+            <input
+              type="range"
+              min={0}
+              max={30}
+              step={0.5}
+              value={selectedField.strength}
+              onChange={(event) =>
+                editField({ strength: Number(event.target.value) })
+              }
+              style={{ display: "block", width: "100%" }}
+            />
+          </label>
+          <label>
+            Radius {selectedField.radius.toFixed(1)}
+            <input
+              type="range"
+              min={0.5}
+              max={5}
+              step={0.1}
+              value={selectedField.radius}
+              onChange={(event) =>
+                editField({ radius: Number(event.target.value) })
+              }
+              style={{ display: "block", width: "100%" }}
+            />
+          </label>
+          <button
+            onClick={() => {
+              simulationRef.current?.removeForceField(selectedField.id);
+              setSelectedFieldId(null);
+            }}
+            style={{
+              padding: "6px 12px",
+              border: "none",
+              borderRadius: "6px",
+              background: "#ff7755",
+              color: "#020618",
+              cursor: "pointer",
+            }}
+          >
+            Remove
+          </button>
+        </div>
+      )}
+      {tuningOpen && (
+        <TuningPanel
+          physicsConfig={resolvePhysicsConfig(activePhysicsConfig)}
+          sphereConfig={resolveSphereConfig(activeSphereConfig)}
+          renderConfig={resolveRenderConfig(activeRenderConfig)}
+          props={propValues}
+          tuning={tuning}
+          onChange={setTuning}
+          onReset={() => {
+            setLinkValues(emptyTuning);
+            setTuning(emptyTuning);
+          }}
+          onClose={() => setTuningOpen(false)}
+        />
+      )}
+      {hudVisible && telemetry && (
+        <PerformanceHud sample={telemetry.sample} history={telemetry.history} />
+      )}
+      {isRecording && (
+        <div
+          style={{
+            position: "absolute",
+            top: "16px",
+            left: "50%",
+            transform: "translateX(-50%)",
+            padding: "4px 12px",
+            borderRadius: "6px",
+            background: "rgba(2, 6, 24, 0.6)",
+            color: "#ff7755",
+            fontFamily: "sans-serif",
+            fontSize: "14px",
+            pointerEvents: "none",
+            zIndex: 10,
+          }}
+        >
+          ● REC
+        </div>
+      )}
+      {playback && (
+        <div
+          style={{
+            position: "absolute",
+            bottom: "16px",
+            left: "50%",
+            transform: "translateX(-50%)",
+            width: "60%",
+            padding: "10px 16px",
+            borderRadius: "8px",
+            background: "rgba(2, 6, 24, 0.75)",
+            color: "#ffffff",
+            fontFamily: "sans-serif",
+            fontSize: "13px",
+            display: "flex",
+            alignItems: "center",
+            gap: "12px",
+            zIndex: 10,
+          }}
+        >
+          <button
+            onClick={togglePlayback}
+            style={{
+              padding: "4px 12px",
+              border: "none",
+              borderRadius: "6px",
+              background: "#88ccff",
+              color: "#020618",
+              cursor: "pointer",
+            }}
+          >
+            {playback.playing ? "Pause" : "Play"}
+          </button>
+          <select
+            value={playback.speed}
+            onChange={(event) => {
+              if (playerRef.current) {
+                playerRef.current.playbackSpeed = Number(event.target.value);
+                syncPlayback();
+              }
+            }}
+          >
+            {PLAYBACK_SPEEDS.map((speed) => (
+              <option key={speed} value={speed}>
+                {speed}x
+              </option>
+            ))}
+          </select>
+          <div style={{ position: "relative", flex: 1 }}>
+            <input
+              type="range"
+              min={0}
+              max={playback.duration}
+              step={PLAYBACK_DISPLAY_STEP / 10}
+              value={playback.time}
+              onChange={(event) => {
+                playerRef.current?.seek(Number(event.target.value));
+                syncPlayback();
+              }}
+              style={{ display: "block", width: "100%" }}
+            />
+            {playback.markers.map((marker, index) => (
+              <div
+                key={index}
+                title={marker.type}
+                style={{
+                  position: "absolute",
+                  top: "-6px",
+                  left: `${
+                    playback.duration > 0
+                      ? (marker.time / playback.duration) * 100
+                      : 0
+                  }%`,
+                  width: "2px",
+                  height: "6px",
+                  background: MARKER_COLORS[marker.type],
+                  pointerEvents: "none",
+                }}
+              ></div>
+            ))}
+          </div>
+          <span>
+            {formatPlaybackTime(playback.time)} /{" "}
+            {formatPlaybackTime(playback.duration)}
+          </span>
+          <button
+            onClick={stopPlayback}
+            style={{
+              padding: "4px 12px",
+              border: "none",
+              borderRadius: "6px",
+              background: "#ff7755",
+              color: "#020618",
+              cursor: "pointer",
+            }}
+          >
+            Close
+          </button>
+        </div>
+      )}
       <div
         ref={containerRef}
         style={{
@@ -1089,4 +1812,4 @@ const GalacticSpheres: React.FC = () => {
   );
 };
 
-export default GalacticSpheres;
+export default forwardRef(GalacticSpheres);
@@ -0,0 +1,101 @@
+import React, { useEffect, useRef } from "react";
+import { FrameCost, TelemetrySample } from "./simulation";
+
+const GRAPH_WIDTH = 180;
+const GRAPH_HEIGHT = 40;
+const GRAPH_CEILING = 1000 / 30;
+
+const drawGraph = (
+  canvas: HTMLCanvasElement | null,
+  values: readonly number[],
+  color: string
+) => {
+  const context = canvas?.getContext("2d");
+  if (!context) return;
+
+  context.clearRect(0, 0, GRAPH_WIDTH, GRAPH_HEIGHT);
+  context.strokeStyle = "rgba(255, 255, 255, 0.2)";
+  const budget = GRAPH_HEIGHT * (1 - 1000 / 60 / GRAPH_CEILING);
+  context.beginPath();
+  context.moveTo(0, budget);
+  context.lineTo(GRAPH_WIDTH, budget);
+  context.stroke();
+
+  context.strokeStyle = color;
+  context.beginPath();
+  values.forEach((value, index) => {
+    const x = (index / Math.max(values.length - 1, 1)) * GRAPH_WIDTH;
+    const y = GRAPH_HEIGHT * (1 - Math.min(value / GRAPH_CEILING, 1));
+    if (index === 0) {
+      context.moveTo(x, y);
+    } else {
+      context.lineTo(x, y);
+    }
+  });
+  context.stroke();
+};
+
+export interface PerformanceHudProps {
+  sample: TelemetrySample;
+  history: readonly FrameCost[];
+}
+
+const PerformanceHud = ({ sample, history }: PerformanceHudProps) => {
+  const frameGraphRef = useRef<HTMLCanvasElement | null>(null);
+  const stepGraphRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    drawGraph(
+      frameGraphRef.current,
+      history.map(({ frameTime }) => frameTime),
+      "#88ccff"
+    );
+    drawGraph(
+      stepGraphRef.current,
+      history.map(({ stepTime }) => stepTime),
+      "#ffaa88"
+    );
+  }, [history]);
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        bottom: "16px",
+        right: "16px",
+        padding: "10px 12px",
+        borderRadius: "8px",
+        background: "rgba(2, 6, 24, 0.75)",
+        color: "#ffffff",
+        fontFamily: "monospace",
+        fontSize: "12px",
+        lineHeight: 1.5,
+        pointerEvents: "none",
+        zIndex: 12,
+      }}
+    >
+      <div>
+        {sample.fps.toFixed(0)} fps · frame {sample.frameTime.toFixed(1)} ms
+      </div>
+      <canvas ref={frameGraphRef} width={GRAPH_WIDTH} height={GRAPH_HEIGHT} />
+      <div>physics step {sample.stepTime.toFixed(2)} ms</div>
+      <canvas ref={stepGraphRef} width={GRAPH_WIDTH} height={GRAPH_HEIGHT} />
+      <div>
+        bodies {sample.bodyCount} · lights {sample.lightCount}
+      </div>
+      <div>kinetic energy {sample.kineticEnergy.toFixed(1)}</div>
+      <div>collisions/s {sample.collisionsPerSecond.toFixed(1)}</div>
+      <div>
+        escapes {sample.escapes} · respawns {sample.respawns}
+      </div>
+      <div>
+        next cue strike{" "}
+        {sample.nextCueStrikeIn === null
+          ? "off"
+          : `${(sample.nextCueStrikeIn / 1000).toFixed(1)} s`}
+      </div>
+    </div>
+  );
+};
+
+export default PerformanceHud;
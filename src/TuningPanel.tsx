@@ -0,0 +1,535 @@
+import React, { useRef, useState } from "react";
+import {
+  BOUNDARY_MODES,
+  PhysicsConfig,
+  SPHERE_ARCHETYPES,
+  SphereConfig,
+} from "./simulation";
+import { RenderConfig, SPHERE_RENDER_MODES } from "./rendering/config";
+import {
+  TuningPreset,
+  TuningValues,
+  loadPresets,
+  parsePreset,
+  savePresets,
+  serializePreset,
+  upsertPreset,
+} from "./tuningPresets";
+
+type Control<T> = { key: keyof T & string; label: string } & (
+  | { kind: "range"; min: number; max: number; step: number }
+  | { kind: "toggle" }
+  | { kind: "color" }
+  | { kind: "select"; options: readonly string[] }
+);
+
+const PHYSICS_CONTROLS: Control<PhysicsConfig>[] = [
+  {
+    key: "gravity",
+    label: "Gravity",
+    kind: "range",
+    min: -20,
+    max: 20,
+    step: 0.1,
+  },
+  {
+    key: "friction",
+    label: "Friction",
+    kind: "range",
+    min: 0,
+    max: 1,
+    step: 0.01,
+  },
+  {
+    key: "restitution",
+    label: "Restitution",
+    kind: "range",
+    min: 0,
+    max: 1.2,
+    step: 0.01,
+  },
+  {
+    key: "dampingFactor",
+    label: "Damping",
+    kind: "range",
+    min: 0,
+    max: 1,
+    step: 0.01,
+  },
+  {
+    key: "boundaryForceMultiplier",
+    label: "Boundary force",
+    kind: "range",
+    min: 0,
+    max: 500,
+    step: 5,
+  },
+  {
+    key: "centralGravityStrength",
+    label: "Central gravity",
+    kind: "range",
+    min: 0,
+    max: 50,
+    step: 0.5,
+  },
+  {
+    key: "mutualGravity",
+    label: "Mutual gravity",
+    kind: "range",
+    min: 0,
+    max: 10,
+    step: 0.1,
+  },
+  {
+    key: "coulombConstant",
+    label: "Coulomb constant",
+    kind: "range",
+    min: 0,
+    max: 10,
+    step: 0.1,
+  },
+  {
+    key: "boundaryMode",
+    label: "Boundary",
+    kind: "select",
+    options: BOUNDARY_MODES,
+  },
+  { key: "accretion", label: "Accretion", kind: "toggle" },
+];
+
+const SPHERE_CONTROLS: Control<SphereConfig>[] = [
+  {
+    key: "smallCount",
+    label: "Sphere count",
+    kind: "range",
+    min: 0,
+    max: 10000,
+    step: 1,
+  },
+  {
+    key: "cueBallImpulseFactor",
+    label: "Cue impulse",
+    kind: "range",
+    min: 0,
+    max: 200,
+    step: 1,
+  },
+  {
+    key: "newSphereImpulseFactor",
+    label: "Spawn impulse",
+    kind: "range",
+    min: 0,
+    max: 200,
+    step: 1,
+  },
+  {
+    key: "regenerationInterval",
+    label: "Regeneration (ms)",
+    kind: "range",
+    min: 1000,
+    max: 60000,
+    step: 500,
+  },
+  {
+    key: "popupScale",
+    label: "Popup scale",
+    kind: "range",
+    min: 1,
+    max: 3,
+    step: 0.05,
+  },
+  {
+    key: "chargedFraction",
+    label: "Charged fraction",
+    kind: "range",
+    min: 0,
+    max: 1,
+    step: 0.05,
+  },
+  {
+    key: "cueBallEmissiveIntensity",
+    label: "Cue glow",
+    kind: "range",
+    min: 0,
+    max: 3,
+    step: 0.05,
+  },
+  { key: "cueBallColor", label: "Cue color", kind: "color" },
+  {
+    key: "cueBallArchetype",
+    label: "Cue material",
+    kind: "select",
+    options: SPHERE_ARCHETYPES,
+  },
+];
+
+const RENDER_CONTROLS: Control<RenderConfig>[] = [
+  {
+    key: "bloomStrength",
+    label: "Bloom strength",
+    kind: "range",
+    min: 0,
+    max: 3,
+    step: 0.05,
+  },
+  {
+    key: "bloomRadius",
+    label: "Bloom radius",
+    kind: "range",
+    min: 0,
+    max: 1,
+    step: 0.01,
+  },
+  {
+    key: "bloomThreshold",
+    label: "Bloom threshold",
+    kind: "range",
+    min: 0,
+    max: 1,
+    step: 0.01,
+  },
+  {
+    key: "maxPointLights",
+    label: "Point lights",
+    kind: "range",
+    min: 0,
+    max: 32,
+    step: 1,
+  },
+  {
+    key: "mode",
+    label: "Sphere rendering",
+    kind: "select",
+    options: SPHERE_RENDER_MODES,
+  },
+];
+
+const toHex = (color: number) => `#${color.toString(16).padStart(6, "0")}`;
+
+const formatValue = (value: number, step: number) =>
+  value.toFixed(step < 1 ? String(step).split(".")[1].length : 0);
+
+const buttonStyle: React.CSSProperties = {
+  padding: "4px 10px",
+  border: "none",
+  borderRadius: "6px",
+  background: "#88ccff",
+  color: "#020618",
+  cursor: "pointer",
+};
+
+const overrideMark = (prop: unknown) => (
+  <span
+    title={`Overrides ${JSON.stringify(prop)} from props`}
+    style={{ color: "#ffaa88" }}
+  >
+    {" "}
+    ●
+  </span>
+);
+
+const ControlGroup = <T extends object>({
+  title,
+  controls,
+  values,
+  props,
+  onChange,
+}: {
+  title: string;
+  controls: Control<T>[];
+  values: T;
+  props: Partial<T>;
+  onChange: (changes: Partial<T>) => void;
+}) => (
+  <fieldset
+    style={{
+      border: "1px solid rgba(255, 255, 255, 0.15)",
+      borderRadius: "6px",
+      display: "flex",
+      flexDirection: "column",
+      gap: "6px",
+    }}
+  >
+    <legend>{title}</legend>
+    {controls.map((control) => {
+      const value = values[control.key] as unknown;
+      const prop = props[control.key] as unknown;
+      const label = (
+        <>
+          {control.label}
+          {prop !== undefined && prop !== value && overrideMark(prop)}
+        </>
+      );
+      const set = (next: unknown) =>
+        onChange({ [control.key]: next } as Partial<T>);
+
+      switch (control.kind) {
+        case "range":
+          return (
+            <label key={control.key}>
+              {label} {formatValue(value as number, control.step)}
+              <input
+                type="range"
+                min={control.min}
+                max={control.max}
+                step={control.step}
+                value={value as number}
+                onChange={(event) => set(Number(event.target.value))}
+                style={{ display: "block", width: "100%" }}
+              />
+            </label>
+          );
+        case "toggle":
+          return (
+            <label key={control.key}>
+              <input
+                type="checkbox"
+                checked={value as boolean}
+                onChange={(event) => set(event.target.checked)}
+              />{" "}
+              {label}
+            </label>
+          );
+        case "color":
+          return (
+            <label key={control.key}>
+              {label}{" "}
+              <input
+                type="color"
+                value={toHex(value as number)}
+                onChange={(event) =>
+                  set(parseInt(event.target.value.slice(1), 16))
+                }
+              />
+            </label>
+          );
+        case "select":
+          return (
+            <label key={control.key}>
+              {label}{" "}
+              <select
+                value={value as string}
+                onChange={(event) => set(event.target.value)}
+              >
+                {control.options.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </label>
+          );
+      }
+      return null;
+    })}
+  </fieldset>
+);
+
+export interface TuningPanelProps {
+  physicsConfig: PhysicsConfig;
+  sphereConfig: SphereConfig;
+  renderConfig: RenderConfig;
+  props: TuningValues;
+  tuning: TuningValues;
+  onChange: (tuning: TuningValues) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const TuningPanel = ({
+  physicsConfig,
+  sphereConfig,
+  renderConfig,
+  props,
+  tuning,
+  onChange,
+  onReset,
+  onClose,
+}: TuningPanelProps) => {
+  const [presets, setPresets] = useState(() =>
+    loadPresets(window.localStorage)
+  );
+  const [name, setName] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const storePresets = (next: TuningPreset[]) => {
+    setPresets(next);
+    savePresets(window.localStorage, next);
+  };
+
+  const applyPreset = ({ name: presetName, ...values }: TuningPreset) => {
+    onChange(values);
+    setName(presetName);
+    setMessage(null);
+  };
+
+  const savePreset = () => {
+    const presetName = name.trim();
+    if (!presetName) {
+      setMessage("Name the preset before saving");
+      return;
+    }
+    storePresets(upsertPreset(presets, { name: presetName, ...tuning }));
+    setMessage(`Saved "${presetName}"`);
+  };
+
+  const exportPreset = () => {
+    const preset = { name: name.trim() || "preset", ...tuning };
+    const url = URL.createObjectURL(
+      new Blob([serializePreset(preset)], { type: "application/json" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${preset.name}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importPreset = (file: File) => {
+    file
+      .text()
+      .then((text) => {
+        const preset = parsePreset(text);
+        storePresets(upsertPreset(presets, preset));
+        applyPreset(preset);
+      })
+      .catch((error: Error) => setMessage(error.message));
+  };
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        top: "16px",
+        left: "16px",
+        width: "260px",
+        maxHeight: "calc(100vh - 32px)",
+        overflowY: "auto",
+        padding: "12px 16px",
+        borderRadius: "8px",
+        background: "rgba(2, 6, 24, 0.85)",
+        color: "#ffffff",
+        fontFamily: "sans-serif",
+        fontSize: "13px",
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+        zIndex: 15,
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between" }}>
+        <strong>Tuning</strong>
+        <button onClick={onClose} style={buttonStyle}>
+          Hide (t)
+        </button>
+      </div>
+      <div style={{ display: "flex", gap: "6px", flexWrap: "wrap" }}>
+        <input
+          value={name}
+          placeholder="Preset name"
+          onChange={(event) => setName(event.target.value)}
+          style={{ flex: 1 }}
+        />
+        <button onClick={savePreset} style={buttonStyle}>
+          Save
+        </button>
+        <select
+          value=""
+          onChange={(event) => {
+            const preset = presets.find(
+              (entry) => entry.name === event.target.value
+            );
+            if (preset) applyPreset(preset);
+          }}
+        >
+          <option value="" disabled>
+            Load preset...
+          </option>
+          {presets.map((preset) => (
+            <option key={preset.name} value={preset.name}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() =>
+            storePresets(presets.filter((preset) => preset.name !== name))
+          }
+          disabled={!presets.some((preset) => preset.name === name)}
+          style={buttonStyle}
+        >
+          Delete
+        </button>
+        <button onClick={exportPreset} style={buttonStyle}>
+          Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          style={buttonStyle}
+        >
+          Import
+        </button>
+        <button
+          onClick={() => {
+            onReset();
+            setMessage(null);
+          }}
+          style={{ ...buttonStyle, background: "#ff7755" }}
+        >
+          Reset to props
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: "none" }}
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) importPreset(file);
+            event.target.value = "";
+          }}
+        />
+      </div>
+      {message && <div style={{ color: "#ffaa88" }}>{message}</div>}
+      <ControlGroup
+        title="Physics"
+        props={props.physicsConfig}
+        controls={PHYSICS_CONTROLS}
+        values={physicsConfig}
+        onChange={(changes) =>
+          onChange({
+            ...tuning,
+            physicsConfig: { ...tuning.physicsConfig, ...changes },
+          })
+        }
+      />
+      <ControlGroup
+        title="Spheres"
+        props={props.sphereConfig}
+        controls={SPHERE_CONTROLS}
+        values={sphereConfig}
+        onChange={(changes) =>
+          onChange({
+            ...tuning,
+            sphereConfig: { ...tuning.sphereConfig, ...changes },
+          })
+        }
+      />
+      <ControlGroup
+        title="Rendering"
+        props={props.renderConfig}
+        controls={RENDER_CONTROLS}
+        values={renderConfig}
+        onChange={(changes) =>
+          onChange({
+            ...tuning,
+            renderConfig: { ...tuning.renderConfig, ...changes },
+          })
+        }
+      />
+    </div>
+  );
+};
+
+export default TuningPanel;
@@ -0,0 +1,66 @@
+import { act, renderHook } from "@testing-library/react";
+import { dropChangedProps, usePropOverrides } from "./configLayers";
+import { parseSceneLink } from "./sceneLink";
+import { TuningValues, emptyTuning } from "./tuningPresets";
+
+const props = (
+  physicsConfig: TuningValues["physicsConfig"],
+  sphereConfig: TuningValues["sphereConfig"] = {}
+): TuningValues => ({ ...emptyTuning, physicsConfig, sphereConfig });
+
+describe("config layers", () => {
+  it("lets a prop change win over link overrides loaded from the hash", () => {
+    const link = parseSceneLink(
+      `#seed=5&physics=${encodeURIComponent(
+        JSON.stringify({ gravity: -3, friction: 0.1 })
+      )}&spheres=${encodeURIComponent(JSON.stringify({ smallCount: 4 }))}`
+    );
+    const { result, rerender } = renderHook(
+      ({ values }) =>
+        usePropOverrides(values, () => ({
+          ...emptyTuning,
+          physicsConfig: link.physicsConfig,
+          sphereConfig: link.sphereConfig,
+        })),
+      { initialProps: { values: props({ gravity: -9.8 }, { smallCount: 8 }) } }
+    );
+    expect(result.current[0].physicsConfig).toEqual({
+      gravity: -3,
+      friction: 0.1,
+    });
+
+    rerender({ values: props({ gravity: -9.8 }, { smallCount: 8 }) });
+    expect(result.current[0].physicsConfig.gravity).toBe(-3);
+
+    rerender({ values: props({ gravity: -1 }, { smallCount: 8 }) });
+    expect(result.current[0]).toEqual(
+      props({ friction: 0.1 }, { smallCount: 4 })
+    );
+
+    act(() => result.current[1](props({ gravity: 2 })));
+    expect(result.current[0].physicsConfig).toEqual({ gravity: 2 });
+  });
+
+  it("keeps the layer itself when no overridden prop changed", () => {
+    const layer = props({ restitution: 0.5 });
+    const mix = { rubber: 1 };
+
+    expect(
+      dropChangedProps(
+        layer,
+        props({ gravity: 1, restitution: 0.5 }),
+        props({ gravity: 2, restitution: 0.5 })
+      )
+    ).toBe(layer);
+    expect(
+      dropChangedProps(
+        props({}, { archetypeMix: mix }),
+        props({}, { archetypeMix: mix }),
+        props({}, { archetypeMix: { ...mix } })
+      ).sphereConfig
+    ).toEqual({ archetypeMix: mix });
+    expect(
+      dropChangedProps(layer, props({ restitution: 0.5 }), props({}))
+    ).toEqual(emptyTuning);
+  });
+});
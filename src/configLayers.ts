@@ -0,0 +1,71 @@
+import { Dispatch, SetStateAction, useEffect, useRef, useState } from "react";
+import { shallowEqual } from "./simulation";
+import { TuningValues } from "./tuningPresets";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const sameValue = (a: unknown, b: unknown) =>
+  a === b ||
+  (isRecord(a) && isRecord(b) && shallowEqual(a, b) && shallowEqual(b, a));
+
+const dropChanged = <T extends object>(
+  layer: Partial<T>,
+  previous: Partial<T>,
+  next: Partial<T>
+): Partial<T> => {
+  const changed = (Object.keys(layer) as (keyof T)[]).filter(
+    (key) => !sameValue(previous[key], next[key])
+  );
+  if (changed.length === 0) return layer;
+
+  const kept = { ...layer };
+  changed.forEach((key) => delete kept[key]);
+  return kept;
+};
+
+// removes the values whose prop changed between previous and next
+export const dropChangedProps = (
+  layer: TuningValues,
+  previous: TuningValues,
+  next: TuningValues
+): TuningValues => {
+  const physicsConfig = dropChanged(
+    layer.physicsConfig,
+    previous.physicsConfig,
+    next.physicsConfig
+  );
+  const sphereConfig = dropChanged(
+    layer.sphereConfig,
+    previous.sphereConfig,
+    next.sphereConfig
+  );
+  const renderConfig = dropChanged(
+    layer.renderConfig,
+    previous.renderConfig,
+    next.renderConfig
+  );
+  return physicsConfig === layer.physicsConfig &&
+    sphereConfig === layer.sphereConfig &&
+    renderConfig === layer.renderConfig
+    ? layer
+    : { physicsConfig, sphereConfig, renderConfig };
+};
+
+// a layer of values over the props; a prop that changes afterwards takes
+// its key back, so the latest prop always wins over an older override
+export const usePropOverrides = (
+  props: TuningValues,
+  initial: TuningValues | (() => TuningValues)
+): [TuningValues, Dispatch<SetStateAction<TuningValues>>] => {
+  const [layer, setLayer] = useState(initial);
+  const propsRef = useRef(props);
+
+  useEffect(() => {
+    const previous = propsRef.current;
+    propsRef.current = props;
+    setLayer((current) => dropChangedProps(current, previous, props));
+  }, [props]);
+
+  return [layer, setLayer];
+};
@@ -0,0 +1,86 @@
+import * as THREE from "three";
+import { ContactPrediction, Vector3Like } from "../simulation";
+
+const MISS_LENGTH = 6;
+
+export class AimGuide {
+  private readonly group = new THREE.Group();
+  private readonly lineGeometry = new THREE.BufferGeometry();
+  private readonly lineMaterial = new THREE.LineDashedMaterial({
+    color: 0xffffff,
+    dashSize: 0.15,
+    gapSize: 0.1,
+    transparent: true,
+    opacity: 0.8,
+  });
+  private readonly line: THREE.Line;
+  private readonly ghostGeometry = new THREE.SphereGeometry(1, 16, 12);
+  private readonly ghostMaterial = new THREE.MeshBasicMaterial({
+    color: 0xffffff,
+    wireframe: true,
+    transparent: true,
+    opacity: 0.4,
+  });
+  private readonly ghost: THREE.Mesh;
+  private readonly positions = new Float32Array(6);
+
+  constructor(private readonly scene: THREE.Scene) {
+    this.lineGeometry.setAttribute(
+      "position",
+      new THREE.BufferAttribute(this.positions, 3)
+    );
+    this.line = new THREE.Line(this.lineGeometry, this.lineMaterial);
+    this.line.frustumCulled = false;
+    this.ghost = new THREE.Mesh(this.ghostGeometry, this.ghostMaterial);
+
+    this.group.add(this.line, this.ghost);
+    this.group.visible = false;
+    scene.add(this.group);
+  }
+
+  get visible(): boolean {
+    return this.group.visible;
+  }
+
+  update(
+    origin: Vector3Like,
+    direction: Vector3Like,
+    radius: number,
+    power: number,
+    contact: ContactPrediction | null
+  ) {
+    const end = new THREE.Vector3(direction.x, direction.y, direction.z)
+      .normalize()
+      .multiplyScalar(contact ? contact.distance : MISS_LENGTH)
+      .add(new THREE.Vector3(origin.x, origin.y, origin.z));
+
+    this.positions.set([origin.x, origin.y, origin.z, end.x, end.y, end.z]);
+    this.lineGeometry.attributes.position.needsUpdate = true;
+    this.line.computeLineDistances();
+    this.lineMaterial.color.setHSL((1 - power) * 0.33, 1, 0.6);
+
+    this.ghost.visible = contact !== null;
+    if (contact) {
+      this.ghost.position.set(
+        contact.position.x,
+        contact.position.y,
+        contact.position.z
+      );
+      this.ghost.scale.setScalar(radius);
+    }
+
+    this.group.visible = true;
+  }
+
+  hide() {
+    this.group.visible = false;
+  }
+
+  dispose() {
+    this.scene.remove(this.group);
+    this.lineGeometry.dispose();
+    this.lineMaterial.dispose();
+    this.ghostGeometry.dispose();
+    this.ghostMaterial.dispose();
+  }
+}
@@ -0,0 +1,161 @@
+import * as THREE from "three";
+import { ForceField, ForceFieldType } from "../simulation";
+
+const FIELD_COLORS: Record<ForceFieldType, number> = {
+  attractor: 0x66aaff,
+  repulsor: 0xff7755,
+  vortex: 0xbb88ff,
+  wind: 0x88ffcc,
+};
+
+const HANDLE_RADIUS = 0.2;
+
+interface FieldGizmo {
+  field: ForceField;
+  group: THREE.Group;
+  handle: THREE.Mesh;
+  materials: THREE.Material[];
+  geometries: THREE.BufferGeometry[];
+}
+
+export class ForceFieldGizmos {
+  private readonly group = new THREE.Group();
+  private readonly gizmos = new Map<number, FieldGizmo>();
+  private selected: number | null = null;
+
+  constructor(private readonly parent: THREE.Object3D) {
+    parent.add(this.group);
+  }
+
+  get size(): number {
+    return this.gizmos.size;
+  }
+
+  get selectedId(): number | null {
+    return this.selected;
+  }
+
+  select(id: number | null) {
+    this.selected = id;
+    this.gizmos.forEach((gizmo, gizmoId) => this.highlight(gizmo, gizmoId));
+  }
+
+  pick(raycaster: THREE.Raycaster): number | undefined {
+    const handles = Array.from(this.gizmos.values()).map(
+      ({ handle }) => handle
+    );
+    const [hit] = raycaster.intersectObjects(handles, false);
+    return hit ? (hit.object.userData.fieldId as number) : undefined;
+  }
+
+  sync(fields: readonly ForceField[]) {
+    const live = new Set<number>();
+
+    fields.forEach((field) => {
+      live.add(field.id);
+      const existing = this.gizmos.get(field.id);
+      if (existing?.field === field) return;
+
+      if (existing) this.release(existing);
+      const gizmo = this.create(field);
+      this.highlight(gizmo, field.id);
+      this.gizmos.set(field.id, gizmo);
+    });
+
+    this.gizmos.forEach((gizmo, id) => {
+      if (!live.has(id)) this.release(gizmo);
+    });
+  }
+
+  dispose() {
+    this.gizmos.forEach((gizmo) => this.release(gizmo));
+    this.parent.remove(this.group);
+  }
+
+  private create(field: ForceField): FieldGizmo {
+    const color = FIELD_COLORS[field.type];
+    const group = new THREE.Group();
+    group.position.set(field.position.x, field.position.y, field.position.z);
+
+    const volumeGeometry = new THREE.SphereGeometry(field.radius, 24, 16);
+    const volumeMaterial = new THREE.MeshBasicMaterial({
+      color,
+      transparent: true,
+      opacity: 0.08,
+      depthWrite: false,
+      side: THREE.DoubleSide,
+    });
+    const handleGeometry = new THREE.SphereGeometry(HANDLE_RADIUS, 16, 12);
+    const handleMaterial = new THREE.MeshBasicMaterial({
+      color,
+      transparent: true,
+      opacity: 0.7,
+    });
+    const handle = new THREE.Mesh(handleGeometry, handleMaterial);
+    handle.userData = { fieldId: field.id };
+    group.add(new THREE.Mesh(volumeGeometry, volumeMaterial), handle);
+
+    const geometries: THREE.BufferGeometry[] = [volumeGeometry, handleGeometry];
+    const materials: THREE.Material[] = [volumeMaterial, handleMaterial];
+    const axis = new THREE.Vector3(
+      field.direction.x,
+      field.direction.y,
+      field.direction.z
+    );
+
+    if (field.type === "vortex" && axis.lengthSq() > 0) {
+      const ringGeometry = new THREE.TorusGeometry(
+        field.radius * 0.6,
+        0.02,
+        8,
+        48
+      );
+      const ringMaterial = new THREE.MeshBasicMaterial({
+        color,
+        transparent: true,
+        opacity: 0.5,
+      });
+      const ring = new THREE.Mesh(ringGeometry, ringMaterial);
+      ring.quaternion.setFromUnitVectors(
+        new THREE.Vector3(0, 0, 1),
+        axis.normalize()
+      );
+      group.add(ring);
+      geometries.push(ringGeometry);
+      materials.push(ringMaterial);
+    }
+
+    if (field.type === "wind" && axis.lengthSq() > 0) {
+      const arrow = new THREE.ArrowHelper(
+        axis.normalize(),
+        new THREE.Vector3(),
+        field.radius,
+        color,
+        field.radius * 0.25,
+        field.radius * 0.12
+      );
+      group.add(arrow);
+      geometries.push(arrow.line.geometry, arrow.cone.geometry);
+      materials.push(
+        arrow.line.material as THREE.Material,
+        arrow.cone.material as THREE.Material
+      );
+    }
+
+    this.group.add(group);
+    return { field, group, handle, materials, geometries };
+  }
+
+  private highlight({ handle }: FieldGizmo, id: number) {
+    const material = handle.material as THREE.MeshBasicMaterial;
+    material.opacity = id === this.selected ? 1 : 0.7;
+    handle.scale.setScalar(id === this.selected ? 1.4 : 1);
+  }
+
+  private release(gizmo: FieldGizmo) {
+    this.group.remove(gizmo.group);
+    gizmo.geometries.forEach((geometry) => geometry.dispose());
+    gizmo.materials.forEach((material) => material.dispose());
+    this.gizmos.delete(gizmo.field.id);
+  }
+}
@@ -0,0 +1,106 @@
+import * as THREE from "three";
+import { SPHERE_ARCHETYPES, SphereSimulation } from "../simulation";
+import { InstancedSphereRenderer } from "./InstancedSphereRenderer";
+
+const litLights = (renderer: InstancedSphereRenderer) =>
+  renderer.pointLights.filter((light) => light.intensity > 0);
+
+describe("InstancedSphereRenderer", () => {
+  it("renders thousands of spheres with one mesh per archetype and a bounded light budget", () => {
+    const scene = new THREE.Scene();
+    const simulation = new SphereSimulation({
+      seed: 3,
+      sphereConfig: { smallCount: 2000 },
+    });
+    const renderer = new InstancedSphereRenderer(scene, {
+      maxPointLights: 8,
+      initialCapacity: 16,
+    });
+
+    renderer.sync(simulation.spheres, simulation.pendingSphere, 0);
+
+    expect(renderer.instanceCount).toBe(2000);
+    expect(renderer.capacity).toBeGreaterThanOrEqual(2000);
+    expect(
+      scene.children.filter((child) => child instanceof THREE.InstancedMesh)
+    ).toHaveLength(SPHERE_ARCHETYPES.length);
+    expect(renderer.pointLights).toHaveLength(8);
+    expect(litLights(renderer).length).toBeLessThanOrEqual(8);
+    expect(renderer.litCount).toBe(litLights(renderer).length);
+
+    renderer.dispose();
+    simulation.dispose();
+    expect(scene.children).toHaveLength(0);
+  });
+
+  it("lights the cue ball first", () => {
+    const scene = new THREE.Scene();
+    const simulation = new SphereSimulation({
+      seed: 11,
+      sphereConfig: { smallCount: 200 },
+    });
+    const renderer = new InstancedSphereRenderer(scene, { maxPointLights: 1 });
+
+    renderer.sync(simulation.spheres, null, 0);
+
+    const [light] = renderer.pointLights;
+    const { x, y, z } = simulation.cueBall!.body.position;
+    expect(light.position.toArray()).toEqual([x, y, z]);
+
+    renderer.dispose();
+    simulation.dispose();
+  });
+
+  it("picks spheres by instance id", () => {
+    const scene = new THREE.Scene();
+    const simulation = new SphereSimulation({
+      seed: 5,
+      sphereConfig: { smallCount: 0 },
+    });
+    const id = simulation.spawnSphere({
+      position: { x: 2, y: 0, z: 0 },
+      radius: 0.3,
+    });
+    const renderer = new InstancedSphereRenderer(scene);
+
+    renderer.sync(simulation.spheres, null, 10000);
+    scene.updateMatrixWorld();
+
+    const raycaster = new THREE.Raycaster(
+      new THREE.Vector3(2, 10, 0),
+      new THREE.Vector3(0, -1, 0)
+    );
+    expect(renderer.pick(raycaster)).toBe(id);
+
+    raycaster.set(new THREE.Vector3(4, 10, 0), new THREE.Vector3(0, -1, 0));
+    expect(renderer.pick(raycaster)).toBeUndefined();
+
+    renderer.dispose();
+    simulation.dispose();
+  });
+
+  it("batches spheres by archetype with the matching material preset", () => {
+    const scene = new THREE.Scene();
+    const simulation = new SphereSimulation({
+      seed: 7,
+      sphereConfig: { smallCount: 40, archetypeMix: { glass: 1 } },
+    });
+    const renderer = new InstancedSphereRenderer(scene);
+
+    renderer.sync(simulation.spheres, null, 0);
+
+    const meshes = scene.children.filter(
+      (child): child is THREE.InstancedMesh =>
+        child instanceof THREE.InstancedMesh
+    );
+    expect(meshes).toHaveLength(2);
+
+    const glass = meshes.find(
+      (mesh) => (mesh.material as THREE.MeshPhysicalMaterial).transmission > 0
+    );
+    expect(glass?.count).toBe(39);
+
+    renderer.dispose();
+    simulation.dispose();
+  });
+});
@@ -0,0 +1,313 @@
+import * as THREE from "three";
+import {
+  SimSphere,
+  SphereArchetype,
+  archetypeDefinitions,
+} from "../simulation";
+import { archetypeMaterialPresets } from "./archetypeMaterials";
+import { selectLitSpheres } from "./lightBudget";
+import {
+  pendingLightIntensity,
+  sphereDisplayScale,
+  sphereEmissiveIntensity,
+  sphereLightIntensity,
+} from "./sphereAnimation";
+import { SphereRenderer } from "./SphereRenderer";
+
+export interface InstancedSphereRendererOptions {
+  maxPointLights?: number;
+  initialCapacity?: number;
+}
+
+interface InstanceBatch {
+  geometry: THREE.SphereGeometry;
+  material: THREE.MeshPhysicalMaterial;
+  mesh: THREE.InstancedMesh;
+  emissive: THREE.InstancedBufferAttribute;
+  ids: (number | undefined)[];
+  count: number;
+}
+
+const createInstancedMaterial = (archetype: SphereArchetype) => {
+  const material = new THREE.MeshPhysicalMaterial({
+    ...archetypeDefinitions[archetype].surface,
+    color: 0xffffff,
+    emissive: 0xffffff,
+    emissiveIntensity: 1,
+    ...archetypeMaterialPresets[archetype],
+  });
+
+  material.onBeforeCompile = (shader) => {
+    shader.vertexShader = shader.vertexShader
+      .replace(
+        "#include <common>",
+        "#include <common>\nattribute float instanceEmissive;\nvarying float vInstanceEmissive;"
+      )
+      .replace(
+        "#include <begin_vertex>",
+        "#include <begin_vertex>\nvInstanceEmissive = instanceEmissive;"
+      );
+    shader.fragmentShader = shader.fragmentShader
+      .replace(
+        "#include <common>",
+        "#include <common>\nvarying float vInstanceEmissive;"
+      )
+      .replace(
+        "#include <emissivemap_fragment>",
+        "#include <emissivemap_fragment>\ntotalEmissiveRadiance *= vColor * vInstanceEmissive;"
+      );
+  };
+
+  return material;
+};
+
+export class InstancedSphereRenderer implements SphereRenderer {
+  private readonly batches = new Map<SphereArchetype, InstanceBatch>();
+  private readonly lights: THREE.PointLight[] = [];
+  private readonly matrix = new THREE.Matrix4();
+  private readonly position = new THREE.Vector3();
+  private readonly quaternion = new THREE.Quaternion();
+  private readonly scale = new THREE.Vector3();
+  private readonly color = new THREE.Color();
+  private readonly initialCapacity: number;
+  private lit = 0;
+
+  constructor(
+    private readonly scene: THREE.Scene,
+    options: InstancedSphereRendererOptions = {}
+  ) {
+    this.initialCapacity = options.initialCapacity ?? 256;
+
+    const lightCount = Math.min(options.maxPointLights ?? 16, 64);
+    for (let i = 0; i < lightCount; i++) {
+      const light = new THREE.PointLight(0xffffff, 0, 3);
+      this.lights.push(light);
+      scene.add(light);
+    }
+  }
+
+  get capacity(): number {
+    let capacity = 0;
+    this.batches.forEach(({ emissive }) => (capacity += emissive.count));
+    return capacity;
+  }
+
+  get instanceCount(): number {
+    let count = 0;
+    this.batches.forEach(({ mesh }) => (count += mesh.count));
+    return count;
+  }
+
+  get pointLights(): readonly THREE.PointLight[] {
+    return this.lights;
+  }
+
+  get litCount(): number {
+    return this.lit;
+  }
+
+  pick(raycaster: THREE.Raycaster): number | undefined {
+    const batches = Array.from(this.batches.values());
+    const hits = raycaster.intersectObjects(
+      batches.map(({ mesh }) => mesh),
+      false
+    );
+
+    for (const { object, instanceId } of hits) {
+      const batch = batches.find(({ mesh }) => mesh === object);
+      const id =
+        batch && instanceId !== undefined ? batch.ids[instanceId] : undefined;
+      if (id !== undefined) return id;
+    }
+
+    return undefined;
+  }
+
+  sync(
+    spheres: readonly SimSphere[],
+    pendingSphere: SimSphere | null,
+    time: number,
+    viewpoint?: THREE.Vector3
+  ) {
+    const rendered = pendingSphere ? [...spheres, pendingSphere] : spheres;
+    const counts = new Map<SphereArchetype, number>();
+    rendered.forEach(({ archetype }) =>
+      counts.set(archetype, (counts.get(archetype) ?? 0) + 1)
+    );
+
+    counts.forEach((count, archetype) => this.ensureCapacity(archetype, count));
+    this.batches.forEach((batch) => {
+      batch.ids = [];
+      batch.count = 0;
+    });
+
+    spheres.forEach((sphere, index) => {
+      this.writeInstance(
+        sphere,
+        sphereDisplayScale(sphere, time),
+        sphereEmissiveIntensity(sphere, index, time),
+        true
+      );
+    });
+
+    if (pendingSphere) {
+      this.writeInstance(
+        pendingSphere,
+        pendingSphere.scale,
+        pendingSphere.appearance.emissiveIntensity,
+        false
+      );
+    }
+
+    this.batches.forEach(({ mesh, emissive, count }) => {
+      mesh.count = count;
+      mesh.instanceMatrix.needsUpdate = true;
+      if (mesh.instanceColor) {
+        mesh.instanceColor.needsUpdate = true;
+      }
+      emissive.needsUpdate = true;
+      mesh.boundingSphere = null;
+    });
+
+    this.syncLights(spheres, pendingSphere, time, viewpoint);
+  }
+
+  dispose() {
+    this.batches.forEach((batch) => {
+      this.scene.remove(batch.mesh);
+      batch.mesh.dispose();
+      batch.geometry.dispose();
+      batch.material.dispose();
+    });
+    this.batches.clear();
+    this.lights.forEach((light) => {
+      this.scene.remove(light);
+      light.dispose();
+    });
+    this.lights.length = 0;
+  }
+
+  private writeInstance(
+    sphere: SimSphere,
+    displayScale: number,
+    emissiveIntensity: number,
+    pickable: boolean
+  ) {
+    const batch = this.batches.get(sphere.archetype);
+    if (!batch) return;
+
+    const index = batch.count++;
+    const { x, y, z } = sphere.body.position;
+    this.position.set(x, y, z);
+    this.scale.setScalar(sphere.radius * displayScale);
+    this.matrix.compose(this.position, this.quaternion, this.scale);
+    batch.mesh.setMatrixAt(index, this.matrix);
+    batch.mesh.setColorAt(index, this.color.setHex(sphere.appearance.color));
+    batch.emissive.setX(
+      index,
+      sphere.appearance.emissiveScale * emissiveIntensity
+    );
+    batch.ids[index] = pickable ? sphere.id : undefined;
+  }
+
+  private syncLights(
+    spheres: readonly SimSphere[],
+    pendingSphere: SimSphere | null,
+    time: number,
+    viewpoint?: THREE.Vector3
+  ) {
+    const lit = selectLitSpheres(
+      spheres,
+      pendingSphere,
+      this.lights.length,
+      viewpoint
+    );
+    this.lit = lit.length;
+
+    this.lights.forEach((light, slot) => {
+      const sphere = lit[slot];
+      if (!sphere?.light) {
+        light.intensity = 0;
+        return;
+      }
+
+      const { x, y, z } = sphere.body.position;
+      light.position.set(x, y, z);
+      light.color.setHex(sphere.light.color);
+      light.distance = sphere.light.distance;
+      light.intensity =
+        sphere === pendingSphere
+          ? pendingLightIntensity(sphere)
+          : sphereLightIntensity(sphere, spheres.indexOf(sphere), time);
+    });
+  }
+
+  private ensureCapacity(archetype: SphereArchetype, count: number) {
+    const batch = this.batches.get(archetype);
+    if (!batch) {
+      let capacity = this.initialCapacity;
+      while (capacity < count) {
+        capacity *= 2;
+      }
+      this.batches.set(archetype, this.createBatch(archetype, capacity));
+      return;
+    }
+
+    if (count <= batch.emissive.count) return;
+
+    let capacity = batch.emissive.count;
+    while (capacity < count) {
+      capacity *= 2;
+    }
+
+    this.scene.remove(batch.mesh);
+    batch.mesh.dispose();
+    batch.emissive = this.createEmissiveAttribute(batch.geometry, capacity);
+    batch.mesh = this.createMesh(batch.geometry, batch.material, capacity);
+  }
+
+  private createBatch(
+    archetype: SphereArchetype,
+    capacity: number
+  ): InstanceBatch {
+    const geometry = new THREE.SphereGeometry(1, 16, 16);
+    const material = createInstancedMaterial(archetype);
+
+    return {
+      geometry,
+      material,
+      emissive: this.createEmissiveAttribute(geometry, capacity),
+      mesh: this.createMesh(geometry, material, capacity),
+      ids: [],
+      count: 0,
+    };
+  }
+
+  private createEmissiveAttribute(
+    geometry: THREE.BufferGeometry,
+    capacity: number
+  ) {
+    const attribute = new THREE.InstancedBufferAttribute(
+      new Float32Array(capacity),
+      1
+    );
+    attribute.setUsage(THREE.DynamicDrawUsage);
+    geometry.setAttribute("instanceEmissive", attribute);
+    return attribute;
+  }
+
+  private createMesh(
+    geometry: THREE.BufferGeometry,
+    material: THREE.Material,
+    capacity: number
+  ) {
+    const mesh = new THREE.InstancedMesh(geometry, material, capacity);
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    mesh.setColorAt(0, this.color.setHex(0xffffff));
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    mesh.count = 0;
+    this.scene.add(mesh);
+    return mesh;
+  }
+}
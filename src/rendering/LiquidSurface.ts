@@ -0,0 +1,110 @@
+import * as THREE from "three";
+import { ContainerShape, FluidSurface } from "../simulation";
+
+const RIM_SEGMENTS = 64;
+const RIM_ITERATIONS = 20;
+
+export class LiquidSurface {
+  private readonly geometry = new THREE.BufferGeometry();
+  private readonly material = new THREE.MeshPhysicalMaterial({
+    color: 0x3388ff,
+    metalness: 0,
+    roughness: 0.1,
+    transmission: 0.6,
+    transparent: true,
+    opacity: 0.45,
+    side: THREE.DoubleSide,
+    depthWrite: false,
+  });
+  private readonly mesh: THREE.Mesh;
+  private readonly positions = new Float32Array((RIM_SEGMENTS + 1) * 3);
+  private readonly center = new THREE.Vector3();
+  private readonly normal = new THREE.Vector3();
+  private readonly tangent = new THREE.Vector3();
+  private readonly bitangent = new THREE.Vector3();
+  private readonly direction = new THREE.Vector3();
+  private readonly point = new THREE.Vector3();
+
+  constructor(private readonly scene: THREE.Scene) {
+    const indices: number[] = [];
+    for (let i = 1; i <= RIM_SEGMENTS; i++) {
+      indices.push(0, i, (i % RIM_SEGMENTS) + 1);
+    }
+
+    this.geometry.setIndex(indices);
+    this.geometry.setAttribute(
+      "position",
+      new THREE.BufferAttribute(this.positions, 3)
+    );
+    this.mesh = new THREE.Mesh(this.geometry, this.material);
+    this.mesh.frustumCulled = false;
+    this.mesh.renderOrder = 1;
+    this.mesh.visible = false;
+    scene.add(this.mesh);
+  }
+
+  get visible(): boolean {
+    return this.mesh.visible;
+  }
+
+  update(surface: FluidSurface | null, shape: ContainerShape) {
+    if (!surface) {
+      this.mesh.visible = false;
+      return;
+    }
+
+    const { normal, center, tangent, bitangent } = this;
+    normal.set(surface.normal.x, surface.normal.y, surface.normal.z);
+    center.copy(normal).multiplyScalar(surface.height);
+    if (Math.abs(normal.y) < 0.9) {
+      tangent.set(0, 1, 0);
+    } else {
+      tangent.set(1, 0, 0);
+    }
+    tangent.cross(normal).normalize();
+    bitangent.crossVectors(normal, tangent);
+
+    this.positions.set([center.x, center.y, center.z], 0);
+    for (let i = 0; i < RIM_SEGMENTS; i++) {
+      const angle = (i / RIM_SEGMENTS) * Math.PI * 2;
+      this.direction
+        .copy(tangent)
+        .multiplyScalar(Math.cos(angle))
+        .addScaledVector(bitangent, Math.sin(angle));
+      const reach = this.rimDistance(shape);
+      this.point.copy(center).addScaledVector(this.direction, reach);
+      this.positions.set(
+        [this.point.x, this.point.y, this.point.z],
+        (i + 1) * 3
+      );
+    }
+
+    this.geometry.attributes.position.needsUpdate = true;
+    this.geometry.computeVertexNormals();
+    this.mesh.visible = true;
+  }
+
+  dispose() {
+    this.scene.remove(this.mesh);
+    this.geometry.dispose();
+    this.material.dispose();
+  }
+
+  private rimDistance(shape: ContainerShape): number {
+    if (shape.distance(this.center) >= 0) return 0;
+
+    let inside = 0;
+    let outside = shape.extent * 2;
+    for (let i = 0; i < RIM_ITERATIONS; i++) {
+      const middle = (inside + outside) / 2;
+      this.point.copy(this.center).addScaledVector(this.direction, middle);
+      if (shape.distance(this.point) > 0) {
+        outside = middle;
+      } else {
+        inside = middle;
+      }
+    }
+
+    return inside;
+  }
+}
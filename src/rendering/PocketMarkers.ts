@@ -0,0 +1,58 @@
+import * as THREE from "three";
+import { Vector3Like } from "../simulation";
+
+export interface PocketPlacement {
+  position: Vector3Like;
+  normal: Vector3Like;
+  radius: number;
+}
+
+export class PocketMarkers {
+  private readonly group = new THREE.Group();
+  private readonly holeMaterial = new THREE.MeshBasicMaterial({
+    color: 0x000000,
+    transparent: true,
+    opacity: 0.85,
+    side: THREE.DoubleSide,
+    depthWrite: false,
+  });
+  private readonly rimMaterial = new THREE.MeshBasicMaterial({
+    color: 0x88ccff,
+    transparent: true,
+    opacity: 0.9,
+    side: THREE.DoubleSide,
+  });
+  private readonly geometries: THREE.BufferGeometry[] = [];
+
+  constructor(
+    private readonly parent: THREE.Object3D,
+    placements: readonly PocketPlacement[]
+  ) {
+    placements.forEach(({ position, normal, radius }) => {
+      const outward = new THREE.Vector3(normal.x, normal.y, normal.z);
+      const hole = new THREE.CircleGeometry(radius, 32);
+      const rim = new THREE.RingGeometry(radius, radius * 1.08, 32);
+      this.geometries.push(hole, rim);
+
+      const marker = new THREE.Group();
+      marker.add(
+        new THREE.Mesh(hole, this.holeMaterial),
+        new THREE.Mesh(rim, this.rimMaterial)
+      );
+      marker.position
+        .set(position.x, position.y, position.z)
+        .addScaledVector(outward, 0.01);
+      marker.lookAt(marker.position.clone().add(outward));
+      this.group.add(marker);
+    });
+
+    parent.add(this.group);
+  }
+
+  dispose() {
+    this.parent.remove(this.group);
+    this.geometries.forEach((geometry) => geometry.dispose());
+    this.holeMaterial.dispose();
+    this.rimMaterial.dispose();
+  }
+}
@@ -0,0 +1,14 @@
+import * as THREE from "three";
+import { SimSphere } from "../simulation";
+
+export interface SphereRenderer {
+  sync(
+    spheres: readonly SimSphere[],
+    pendingSphere: SimSphere | null,
+    time: number,
+    viewpoint?: THREE.Vector3
+  ): void;
+  pick(raycaster: THREE.Raycaster): number | undefined;
+  readonly litCount: number;
+  dispose(): void;
+}
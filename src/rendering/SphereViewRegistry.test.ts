@@ -0,0 +1,110 @@
+import * as THREE from "three";
+import { SphereSimulation } from "../simulation";
+import { SphereViewRegistry } from "./SphereViewRegistry";
+
+const countPointLights = (scene: THREE.Scene) => {
+  let count = 0;
+  scene.traverse((object) => {
+    if (object instanceof THREE.PointLight) count++;
+  });
+  return count;
+};
+
+const expectConsistent = (
+  simulation: SphereSimulation,
+  scene: THREE.Scene,
+  views: SphereViewRegistry
+) => {
+  const rendered = simulation.pendingSphere
+    ? [...simulation.spheres, simulation.pendingSphere]
+    : [...simulation.spheres];
+
+  expect(views.size).toBe(rendered.length);
+  expect(simulation.world.bodies).toHaveLength(rendered.length);
+  expect(countPointLights(scene)).toBe(
+    rendered.filter((sphere) => sphere.light !== null).length
+  );
+
+  rendered.forEach((sphere) => {
+    const view = views.get(sphere.id);
+    expect(view?.mesh.userData.sphereId).toBe(sphere.id);
+    expect(view?.mesh.parent).toBe(scene);
+    expect(view?.light !== null).toBe(sphere.light !== null);
+    if (view?.light) {
+      expect(view.light.parent).toBe(view.mesh);
+    }
+  });
+};
+
+describe("SphereViewRegistry", () => {
+  it("keeps meshes and lights in step with hundreds of spawn/remove cycles", () => {
+    const simulation = new SphereSimulation({ seed: 77 });
+    const scene = new THREE.Scene();
+    const views = new SphereViewRegistry(scene);
+
+    for (let cycle = 0; cycle < 300; cycle++) {
+      simulation.spawnSphere({
+        position: { x: 0, y: 0, z: 0 },
+        light: cycle % 3 !== 0,
+      });
+
+      const removable = simulation.spheres.filter((s) => !s.isCueBall);
+      const victim = removable[(cycle * 7) % removable.length];
+      simulation.removeSphere(victim.id);
+      if (cycle % 2 === 0) {
+        simulation.removeSphere(removable[0].id);
+      }
+
+      simulation.step(1000 / 60);
+      views.sync(simulation.spheres, simulation.pendingSphere, cycle * 16);
+      expectConsistent(simulation, scene, views);
+    }
+
+    expect(simulation.cueBall).not.toBeNull();
+  });
+
+  it("follows the simulation through regeneration and escapes", () => {
+    const simulation = new SphereSimulation({ seed: 78 });
+    const scene = new THREE.Scene();
+    const views = new SphereViewRegistry(scene);
+
+    for (let frame = 0; frame < 3000; frame++) {
+      simulation.step(1000 / 60);
+      if (frame % 50 === 0) {
+        simulation.spawnSphere({ position: { x: 7, y: 0, z: 0 } });
+      }
+      views.sync(simulation.spheres, simulation.pendingSphere, frame * 16);
+    }
+
+    expectConsistent(simulation, scene, views);
+  });
+
+  it("rebuilds a view when the sphere revision changes", () => {
+    const simulation = new SphereSimulation({ seed: 79 });
+    const scene = new THREE.Scene();
+    const views = new SphereViewRegistry(scene);
+    views.sync(simulation.spheres, null, 0);
+
+    const cueBall = simulation.cueBall!;
+    const before = views.get(cueBall.id)?.mesh;
+    simulation.setSphereConfig({ cueBallRadius: 1 });
+    views.sync(simulation.spheres, null, 16);
+
+    const after = views.get(cueBall.id)?.mesh;
+    expect(after).not.toBe(before);
+    expect(before?.parent).toBeNull();
+    expectConsistent(simulation, scene, views);
+  });
+
+  it("removes every mesh and light on dispose", () => {
+    const simulation = new SphereSimulation({ seed: 80 });
+    const scene = new THREE.Scene();
+    const views = new SphereViewRegistry(scene);
+    views.sync(simulation.spheres, null, 0);
+
+    views.dispose();
+
+    expect(views.size).toBe(0);
+    expect(scene.children).toHaveLength(0);
+  });
+});
@@ -0,0 +1,163 @@
+import * as THREE from "three";
+import { SimSphere } from "../simulation";
+import { createSphereMaterial } from "./archetypeMaterials";
+import { selectLitSpheres } from "./lightBudget";
+import {
+  pendingLightIntensity,
+  sphereDisplayScale,
+  sphereEmissiveIntensity,
+  sphereLightIntensity,
+} from "./sphereAnimation";
+import { SphereRenderer } from "./SphereRenderer";
+
+export interface SphereView {
+  id: number;
+  mesh: THREE.Mesh;
+  light: THREE.PointLight | null;
+  revision: number;
+}
+
+export interface SphereViewRegistryOptions {
+  maxPointLights?: number;
+}
+
+export class SphereViewRegistry implements SphereRenderer {
+  private readonly views = new Map<number, SphereView>();
+  private readonly maxPointLights: number;
+  private pickable: THREE.Mesh[] = [];
+  private lit = 0;
+
+  constructor(
+    private readonly scene: THREE.Scene,
+    options: SphereViewRegistryOptions = {}
+  ) {
+    this.maxPointLights = options.maxPointLights ?? Infinity;
+  }
+
+  get size(): number {
+    return this.views.size;
+  }
+
+  get litCount(): number {
+    return this.lit;
+  }
+
+  get(id: number): SphereView | undefined {
+    return this.views.get(id);
+  }
+
+  pick(raycaster: THREE.Raycaster): number | undefined {
+    const [hit] = raycaster.intersectObjects(this.pickable, false);
+    return hit ? (hit.object.userData.sphereId as number) : undefined;
+  }
+
+  sync(
+    spheres: readonly SimSphere[],
+    pendingSphere: SimSphere | null,
+    time: number,
+    viewpoint?: THREE.Vector3
+  ) {
+    const liveIds = new Set<number>();
+    const litIds = new Set(
+      selectLitSpheres(
+        spheres,
+        pendingSphere,
+        this.maxPointLights,
+        viewpoint
+      ).map((sphere) => sphere.id)
+    );
+    this.pickable = [];
+    this.lit = litIds.size;
+
+    spheres.forEach((sphere, index) => {
+      liveIds.add(sphere.id);
+      const { mesh, light } = this.acquire(sphere);
+      const material = mesh.material as THREE.MeshPhysicalMaterial;
+      const { position } = sphere.body;
+      mesh.position.set(position.x, position.y, position.z);
+      mesh.scale.setScalar(sphereDisplayScale(sphere, time));
+      material.emissiveIntensity = sphereEmissiveIntensity(sphere, index, time);
+      this.pickable.push(mesh);
+
+      if (light) {
+        light.visible = litIds.has(sphere.id);
+        light.intensity = sphereLightIntensity(sphere, index, time);
+      }
+    });
+
+    if (pendingSphere) {
+      liveIds.add(pendingSphere.id);
+      const { mesh, light } = this.acquire(pendingSphere);
+      const { position } = pendingSphere.body;
+      mesh.position.set(position.x, position.y, position.z);
+      mesh.scale.setScalar(pendingSphere.scale);
+
+      if (light) {
+        light.visible = litIds.has(pendingSphere.id);
+        light.intensity = pendingLightIntensity(pendingSphere);
+      }
+    }
+
+    this.views.forEach((view, id) => {
+      if (!liveIds.has(id)) {
+        this.release(view);
+      }
+    });
+  }
+
+  dispose() {
+    this.views.forEach((view) => this.release(view));
+    this.pickable = [];
+  }
+
+  private acquire(sphere: SimSphere): SphereView {
+    const existing = this.views.get(sphere.id);
+    if (existing && existing.revision === sphere.revision) {
+      return existing;
+    }
+    if (existing) {
+      this.release(existing);
+    }
+
+    const view = this.create(sphere);
+    this.views.set(sphere.id, view);
+    return view;
+  }
+
+  private create(sphere: SimSphere): SphereView {
+    const sphereMaterial = createSphereMaterial(
+      sphere.archetype,
+      sphere.appearance
+    );
+
+    const sphereGeometry = new THREE.SphereGeometry(sphere.radius, 24, 24);
+    const mesh = new THREE.Mesh(sphereGeometry, sphereMaterial);
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    mesh.userData = { sphereId: sphere.id };
+    this.scene.add(mesh);
+
+    let light: THREE.PointLight | null = null;
+    if (sphere.light) {
+      light = new THREE.PointLight(
+        sphere.light.color,
+        sphere.light.intensity,
+        sphere.light.distance
+      );
+      mesh.add(light);
+    }
+
+    return { id: sphere.id, mesh, light, revision: sphere.revision };
+  }
+
+  private release(view: SphereView) {
+    this.scene.remove(view.mesh);
+    view.mesh.geometry.dispose();
+    (view.mesh.material as THREE.Material).dispose();
+    if (view.light) {
+      view.mesh.remove(view.light);
+      view.light.dispose();
+    }
+    this.views.delete(view.id);
+  }
+}
@@ -0,0 +1,31 @@
+import * as THREE from "three";
+import { SphereAppearance, SphereArchetype } from "../simulation";
+
+export const archetypeMaterialPresets: Record<
+  SphereArchetype,
+  THREE.MeshPhysicalMaterialParameters
+> = {
+  metal: { iridescence: 0.15, iridescenceIOR: 1.8 },
+  rubber: { sheen: 0.6, sheenRoughness: 0.8 },
+  glass: { transmission: 0.85, thickness: 0.6, ior: 1.5 },
+  sticky: { sheen: 1, sheenRoughness: 0.3 },
+};
+
+export const createSphereMaterial = (
+  archetype: SphereArchetype,
+  appearance: SphereAppearance
+): THREE.MeshPhysicalMaterial => {
+  const color = new THREE.Color(appearance.color);
+
+  return new THREE.MeshPhysicalMaterial({
+    color,
+    metalness: appearance.metalness,
+    roughness: appearance.roughness,
+    emissive: color.clone().multiplyScalar(appearance.emissiveScale),
+    emissiveIntensity: appearance.emissiveIntensity,
+    clearcoat: appearance.clearcoat,
+    clearcoatRoughness: appearance.clearcoatRoughness,
+    sheenColor: color,
+    ...archetypeMaterialPresets[archetype],
+  });
+};
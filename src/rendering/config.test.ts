@@ -0,0 +1,27 @@
+import { defaultRenderConfig, selectRenderMode } from "./config";
+
+describe("selectRenderMode", () => {
+  it("keeps instancing until the count falls well below the threshold", () => {
+    const config = { ...defaultRenderConfig, instancingThreshold: 100 };
+
+    expect(selectRenderMode(config, 100)).toBe("meshes");
+    expect(selectRenderMode(config, 101)).toBe("instanced");
+    expect(selectRenderMode(config, 90, "instanced")).toBe("instanced");
+    expect(selectRenderMode(config, 80, "instanced")).toBe("instanced");
+    expect(selectRenderMode(config, 79, "instanced")).toBe("meshes");
+    expect(selectRenderMode(config, 90, "meshes")).toBe("meshes");
+  });
+
+  it("ignores the count outside auto mode", () => {
+    expect(
+      selectRenderMode({ ...defaultRenderConfig, mode: "meshes" }, 5000)
+    ).toBe("meshes");
+    expect(
+      selectRenderMode(
+        { ...defaultRenderConfig, mode: "instanced" },
+        1,
+        "meshes"
+      )
+    ).toBe("instanced");
+  });
+});
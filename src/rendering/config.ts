@@ -0,0 +1,68 @@
+import { OverrideRules, Warn, readOverrides } from "../simulation";
+
+export type SphereRenderMode = "auto" | "meshes" | "instanced";
+
+export const SPHERE_RENDER_MODES: readonly SphereRenderMode[] = [
+  "auto",
+  "meshes",
+  "instanced",
+];
+
+export interface RenderConfig {
+  mode: SphereRenderMode;
+  instancingThreshold: number;
+  maxPointLights: number;
+  bloomStrength: number;
+  bloomRadius: number;
+  bloomThreshold: number;
+}
+
+export const defaultRenderConfig: RenderConfig = {
+  mode: "auto",
+  instancingThreshold: 64,
+  maxPointLights: 16,
+  bloomStrength: 0.7,
+  bloomRadius: 0.4,
+  bloomThreshold: 0.85,
+};
+
+const RENDER_RULES: OverrideRules<RenderConfig> = {
+  name: "render",
+  ranges: {
+    instancingThreshold: [0, 10000],
+    maxPointLights: [0, 64],
+    bloomStrength: [0, 10],
+    bloomRadius: [0, 1],
+    bloomThreshold: [0, 1],
+  },
+  options: { mode: SPHERE_RENDER_MODES },
+};
+
+export const resolveRenderConfig = (
+  overrides: Partial<RenderConfig> = {}
+): RenderConfig => ({ ...defaultRenderConfig, ...overrides });
+
+// auto mode only drops back to meshes well below the threshold, so a count
+// hovering around it does not rebuild the renderer on every crossing
+export const INSTANCING_EXIT_RATIO = 0.8;
+
+export const selectRenderMode = (
+  config: RenderConfig,
+  sphereCount: number,
+  current: Exclude<SphereRenderMode, "auto"> | null = null
+): Exclude<SphereRenderMode, "auto"> => {
+  if (config.mode !== "auto") return config.mode;
+  if (current === "instanced") {
+    return sphereCount < config.instancingThreshold * INSTANCING_EXIT_RATIO
+      ? "meshes"
+      : "instanced";
+  }
+  return sphereCount > config.instancingThreshold ? "instanced" : "meshes";
+};
+
+export const readRenderOverrides = (
+  data: unknown,
+  source: string,
+  warn: Warn
+): Partial<RenderConfig> =>
+  readOverrides(data, defaultRenderConfig, RENDER_RULES, source, warn);
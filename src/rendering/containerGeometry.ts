@@ -0,0 +1,44 @@
+import * as THREE from "three";
+import { ContainerConfig } from "../simulation";
+
+export const createContainerGeometry = (
+  config: ContainerConfig,
+  mainRadius: number
+): THREE.BufferGeometry => {
+  const { proportions } = config;
+  const radial = mainRadius * Math.min(proportions.x, proportions.z);
+  const half = mainRadius * proportions.y;
+
+  switch (config.shape) {
+    case "ellipsoid":
+      return new THREE.SphereGeometry(1, 64, 64).scale(
+        mainRadius * proportions.x,
+        mainRadius * proportions.y,
+        mainRadius * proportions.z
+      );
+    case "cube":
+      return new THREE.BoxGeometry(
+        mainRadius * proportions.x * 2,
+        mainRadius * proportions.y * 2,
+        mainRadius * proportions.z * 2
+      );
+    case "cylinder":
+      return new THREE.CylinderGeometry(radial, radial, half * 2, 64);
+    case "capsule":
+      return new THREE.CapsuleGeometry(
+        radial,
+        Math.max(half - radial, 0) * 2,
+        16,
+        64
+      );
+    case "torus":
+      return new THREE.TorusGeometry(
+        mainRadius,
+        mainRadius * config.tubeRatio,
+        48,
+        96
+      ).rotateX(Math.PI / 2);
+    default:
+      return new THREE.SphereGeometry(mainRadius, 64, 64);
+  }
+};
@@ -0,0 +1,33 @@
+import * as THREE from "three";
+import { SimSphere } from "../simulation";
+
+export const selectLitSpheres = (
+  spheres: readonly SimSphere[],
+  pendingSphere: SimSphere | null,
+  budget: number,
+  viewpoint?: THREE.Vector3
+): SimSphere[] => {
+  if (budget <= 0) return [];
+
+  const candidates = spheres.filter((sphere) => sphere.light !== null);
+  const distanceTo = (sphere: SimSphere) => {
+    if (!viewpoint) return 0;
+    const { x, y, z } = sphere.body.position;
+    return (
+      (viewpoint.x - x) ** 2 + (viewpoint.y - y) ** 2 + (viewpoint.z - z) ** 2
+    );
+  };
+  const rank = (sphere: SimSphere) =>
+    sphere.isCueBall ? -Infinity : distanceTo(sphere);
+
+  const ranked = candidates
+    .map((sphere) => ({ sphere, score: rank(sphere) }))
+    .sort((a, b) => a.score - b.score)
+    .map(({ sphere }) => sphere);
+
+  if (pendingSphere?.light) {
+    ranked.splice(ranked[0]?.isCueBall ? 1 : 0, 0, pendingSphere);
+  }
+
+  return ranked.slice(0, budget);
+};
@@ -0,0 +1,25 @@
+import { SimSphere } from "../simulation";
+
+export const sphereDisplayScale = (sphere: SimSphere, time: number) =>
+  sphere.isCueBall ? 1.0 + Math.sin(time * 0.003) * 0.03 : sphere.scale;
+
+export const sphereEmissiveIntensity = (
+  sphere: SimSphere,
+  index: number,
+  time: number
+) =>
+  sphere.isCueBall
+    ? 0.7 + Math.sin(time * 0.003) * 0.2
+    : 0.4 + Math.sin(time * 0.001 + index * 0.2) * 0.15;
+
+export const sphereLightIntensity = (
+  sphere: SimSphere,
+  index: number,
+  time: number
+) =>
+  sphere.isCueBall
+    ? 2.5 + Math.sin(time * 0.003) * 0.5
+    : 1.5 + Math.sin(time * 0.002 + index) * 0.3;
+
+export const pendingLightIntensity = (sphere: SimSphere) =>
+  2.0 + Math.sin(sphere.spawnProgress * Math.PI * 10) * 1.0;
@@ -0,0 +1,89 @@
+import { resolveRenderConfig } from "./rendering/config";
+import { encodeSceneLink, parseSceneLink } from "./sceneLink";
+import { resolvePhysicsConfig, resolveSphereConfig } from "./simulation";
+
+describe("scene links", () => {
+  it("round trips the seed, config overrides, render settings and camera", () => {
+    const hash = encodeSceneLink({
+      seed: 4242,
+      physicsConfig: resolvePhysicsConfig({
+        gravity: -3.5,
+        boundaryMode: "wrap",
+        accretion: true,
+      }),
+      sphereConfig: resolveSphereConfig({
+        smallCount: 5000,
+        archetypeMix: { metal: 2, rubber: 0, glass: 1, sticky: 1 },
+      }),
+      renderConfig: resolveRenderConfig({
+        mode: "instanced",
+        maxPointLights: 4,
+        bloomStrength: 1.5,
+      }),
+      camera: {
+        position: { x: 1.23456, y: 7, z: -2 },
+        target: { x: 0, y: 0.5, z: 0 },
+      },
+    });
+    const warn = jest.fn();
+
+    expect(parseSceneLink(`#${hash}`, warn)).toEqual({
+      seed: 4242,
+      physicsConfig: { gravity: -3.5, boundaryMode: "wrap", accretion: true },
+      sphereConfig: {
+        smallCount: 5000,
+        archetypeMix: { metal: 2, rubber: 0, glass: 1, sticky: 1 },
+      },
+      renderConfig: {
+        mode: "instanced",
+        maxPointLights: 4,
+        bloomStrength: 1.5,
+      },
+      camera: {
+        position: { x: 1.235, y: 7, z: -2 },
+        target: { x: 0, y: 0.5, z: 0 },
+      },
+    });
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("leaves default settings out of the hash", () => {
+    const hash = encodeSceneLink({
+      seed: 1,
+      physicsConfig: resolvePhysicsConfig(),
+      sphereConfig: resolveSphereConfig(),
+      renderConfig: resolveRenderConfig(),
+      camera: null,
+    });
+
+    expect(hash).toBe("seed=1");
+  });
+
+  it("falls back to defaults with a warning for invalid values", () => {
+    const params = new URLSearchParams({
+      seed: "-4",
+      physics: JSON.stringify({
+        friction: 7,
+        restitution: 0.5,
+        boundaryMode: "bouncy",
+        warp: 9,
+      }),
+      spheres: JSON.stringify({ smallMinRadius: 2, smallMaxRadius: 1 }),
+      render: JSON.stringify({ mode: "wireframe", bloomRadius: 0.2 }),
+      camera: "1,2,three",
+    });
+    const warn = jest.fn();
+
+    expect(parseSceneLink(params.toString(), warn)).toEqual({
+      seed: null,
+      physicsConfig: { restitution: 0.5 },
+      sphereConfig: {},
+      renderConfig: { bloomRadius: 0.2 },
+      camera: null,
+    });
+    expect(warn).toHaveBeenCalledTimes(7);
+    expect(parseSceneLink("#physics=%7Bnot-json", warn).physicsConfig).toEqual(
+      {}
+    );
+  });
+});
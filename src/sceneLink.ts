@@ -0,0 +1,130 @@
+import {
+  CameraPose,
+  PhysicsConfig,
+  SphereConfig,
+  Warn,
+  configOverrides,
+  defaultPhysicsConfig,
+  defaultSphereConfig,
+  readPhysicsOverrides,
+  readSphereOverrides,
+} from "./simulation";
+import {
+  RenderConfig,
+  defaultRenderConfig,
+  readRenderOverrides,
+} from "./rendering/config";
+
+export interface SceneLink {
+  seed: number | null;
+  physicsConfig: Partial<PhysicsConfig>;
+  sphereConfig: Partial<SphereConfig>;
+  renderConfig: Partial<RenderConfig>;
+  camera: CameraPose | null;
+}
+
+export interface SceneLinkState {
+  seed: number;
+  physicsConfig: Readonly<PhysicsConfig>;
+  sphereConfig: Readonly<SphereConfig>;
+  renderConfig: Readonly<RenderConfig>;
+  camera: CameraPose | null;
+}
+
+const SOURCE = "in the URL";
+const CAMERA_DIGITS = 3;
+
+const readJson = (text: string | null, name: string, warn: Warn): unknown => {
+  if (text === null) return undefined;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    warn(`Ignoring ${name} settings ${SOURCE}: expected JSON`);
+    return undefined;
+  }
+};
+
+const readSeed = (text: string | null, warn: Warn) => {
+  if (text === null) return null;
+
+  const seed = Number(text);
+  if (text.trim() !== "" && Number.isInteger(seed) && seed >>> 0 === seed) {
+    return seed;
+  }
+  warn(`Ignoring invalid seed "${text}" ${SOURCE}`);
+  return null;
+};
+
+const readCamera = (text: string | null, warn: Warn): CameraPose | null => {
+  if (text === null) return null;
+
+  const values = text.split(",").map(Number);
+  if (values.length !== 6 || !values.every(Number.isFinite)) {
+    warn(`Ignoring invalid camera ${SOURCE}`);
+    return null;
+  }
+  const [x, y, z, tx, ty, tz] = values;
+  return {
+    position: { x, y, z },
+    target: { x: tx, y: ty, z: tz },
+  };
+};
+
+export const encodeSceneLink = ({
+  seed,
+  physicsConfig,
+  sphereConfig,
+  renderConfig,
+  camera,
+}: SceneLinkState): string => {
+  const params = new URLSearchParams({ seed: String(seed) });
+  const physics = configOverrides(physicsConfig, defaultPhysicsConfig);
+  const spheres = configOverrides(sphereConfig, defaultSphereConfig);
+  const render = configOverrides(renderConfig, defaultRenderConfig);
+  if (Object.keys(physics).length > 0) {
+    params.set("physics", JSON.stringify(physics));
+  }
+  if (Object.keys(spheres).length > 0) {
+    params.set("spheres", JSON.stringify(spheres));
+  }
+  if (Object.keys(render).length > 0) {
+    params.set("render", JSON.stringify(render));
+  }
+  if (camera) {
+    const { position, target } = camera;
+    params.set(
+      "camera",
+      [position.x, position.y, position.z, target.x, target.y, target.z]
+        .map((value) => Number(value.toFixed(CAMERA_DIGITS)))
+        .join(",")
+    );
+  }
+  return params.toString();
+};
+
+export const parseSceneLink = (
+  hash: string,
+  warn: Warn = console.warn
+): SceneLink => {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  return {
+    seed: readSeed(params.get("seed"), warn),
+    physicsConfig: readPhysicsOverrides(
+      readJson(params.get("physics"), "physics", warn),
+      SOURCE,
+      warn
+    ),
+    sphereConfig: readSphereOverrides(
+      readJson(params.get("spheres"), "sphere", warn),
+      SOURCE,
+      warn
+    ),
+    renderConfig: readRenderOverrides(
+      readJson(params.get("render"), "render", warn),
+      SOURCE,
+      warn
+    ),
+    camera: readCamera(params.get("camera"), warn),
+  };
+};
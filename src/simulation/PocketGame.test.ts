@@ -0,0 +1,200 @@
+import { PocketGame, pocketScore } from "./PocketGame";
+import { SphereSimulation } from "./SphereSimulation";
+
+const FRAME = 1000 / 60;
+
+const runFrames = (
+  simulation: SphereSimulation,
+  frames: number,
+  game?: PocketGame
+) => {
+  for (let i = 0; i < frames; i++) {
+    simulation.step(FRAME);
+    game?.update();
+  }
+};
+
+const tableSimulation = () => {
+  const simulation = new SphereSimulation({
+    seed: 144,
+    sphereConfig: { smallCount: 1 },
+  });
+  simulation.cueBall!.body.position.set(0, 0, 0);
+  return simulation;
+};
+
+describe("SphereSimulation pocket table", () => {
+  it("keeps spheres inside the glass away from the pockets", () => {
+    const simulation = tableSimulation();
+    simulation.setTable({
+      pockets: [{ position: { x: 1, y: 0, z: 0 }, radius: 1 }],
+      damping: 0.1,
+    });
+    const onPotted = jest.fn();
+    simulation.on("spherePotted", onPotted);
+    const id = simulation.spawnSphere({
+      position: { x: 0, y: 2, z: 0 },
+      velocity: { x: 0, y: 10, z: 0 },
+      radius: 0.3,
+    });
+
+    runFrames(simulation, 120);
+
+    const sphere = simulation.spheres.find((entry) => entry.id === id)!;
+    expect(sphere.body.position.length()).toBeLessThanOrEqual(
+      simulation.sphereConfig.mainRadius - 0.3 + 1e-6
+    );
+    expect(onPotted).not.toHaveBeenCalled();
+  });
+
+  it("pots spheres that roll into a pocket", () => {
+    const simulation = tableSimulation();
+    simulation.setTable({
+      pockets: [{ position: { x: 1, y: 0, z: 0 }, radius: 1 }],
+      damping: 0.1,
+    });
+    const onPotted = jest.fn();
+    const onRemoved = jest.fn();
+    simulation.on("spherePotted", onPotted);
+    simulation.on("sphereRemoved", onRemoved);
+    const id = simulation.spawnSphere({
+      position: { x: 3, y: 0, z: 0 },
+      velocity: { x: 8, y: 0, z: 0 },
+      radius: 0.3,
+      color: 0xff0000,
+    });
+
+    runFrames(simulation, 120);
+
+    expect(onPotted).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id,
+        isCueBall: false,
+        radius: 0.3,
+        color: 0xff0000,
+        pocket: 0,
+      })
+    );
+    expect(onRemoved).toHaveBeenCalledWith(
+      expect.objectContaining({ id, reason: "potted" })
+    );
+    expect(simulation.spheres.some((entry) => entry.id === id)).toBe(false);
+  });
+
+  it("does not let spheres larger than the pocket through", () => {
+    const simulation = tableSimulation();
+    simulation.setTable({
+      pockets: [{ position: { x: 1, y: 0, z: 0 }, radius: 0.2 }],
+      damping: 0.1,
+    });
+    const id = simulation.spawnSphere({
+      position: { x: 3, y: 0, z: 0 },
+      velocity: { x: 8, y: 0, z: 0 },
+      radius: 0.3,
+    });
+
+    runFrames(simulation, 120);
+
+    expect(simulation.spheres.some((entry) => entry.id === id)).toBe(true);
+  });
+});
+
+describe("PocketGame", () => {
+  it("scores smaller spheres and later hues higher", () => {
+    expect(pocketScore(0.2, 0xff0000, 0.2)).toBeGreaterThan(
+      pocketScore(0.6, 0xff0000, 0.2)
+    );
+    expect(pocketScore(0.2, 0x0000ff, 0.2)).toBeGreaterThan(
+      pocketScore(0.2, 0xff0000, 0.2)
+    );
+  });
+
+  it("counts shots and returns to aiming once the table settles", () => {
+    const simulation = tableSimulation();
+    simulation.spawnSphere({ position: { x: 0, y: 2, z: 0 }, radius: 0.3 });
+    const game = new PocketGame(simulation, { maxShots: 3 });
+    const onChange = jest.fn();
+    game.on("change", onChange);
+
+    simulation.strikeCueBall({ x: 0, y: 0, z: 1 }, 2);
+    expect(game.state).toMatchObject({ status: "rolling", shots: 1 });
+    expect(game.canShoot).toBe(false);
+
+    simulation.strikeCueBall({ x: 0, y: 0, z: 1 }, 2);
+    expect(game.state.shots).toBe(1);
+
+    runFrames(simulation, 1200, game);
+    expect(game.state.status).toBe("aiming");
+    expect(onChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ status: "aiming", shots: 1 })
+    );
+  });
+
+  it("wins when every sphere is potted and restarts", () => {
+    const simulation = tableSimulation();
+    const game = new PocketGame(simulation, {
+      pockets: [{ position: { x: 1, y: 0, z: 0 }, radius: 1 }],
+      maxShots: 1,
+    });
+    const id = simulation.spawnSphere({
+      position: { x: 3, y: 0, z: 0 },
+      radius: 0.3,
+      color: 0x00ff00,
+    });
+
+    simulation.strikeCueBall({ x: 0, y: 0, z: 1 }, 0.1);
+    simulation.spheres
+      .find((entry) => entry.id === id)!
+      .body.velocity.set(8, 0, 0);
+    runFrames(simulation, 1200, game);
+
+    expect(game.state).toMatchObject({
+      status: "won",
+      potted: 1,
+      remaining: 0,
+      score: pocketScore(0.3, 0x00ff00, simulation.sphereConfig.smallMinRadius),
+    });
+
+    game.restart();
+    expect(game.state).toMatchObject({ status: "aiming", score: 0, shots: 0 });
+    expect(simulation.table).not.toBeNull();
+  });
+
+  it("loses when the shots run out with spheres left", () => {
+    const simulation = tableSimulation();
+    simulation.spawnSphere({ position: { x: 0, y: 2, z: 0 }, radius: 0.3 });
+    const game = new PocketGame(simulation, { maxShots: 1 });
+
+    simulation.strikeCueBall({ x: 0, y: 0, z: 1 }, 0.1);
+    runFrames(simulation, 1200, game);
+
+    expect(game.state).toMatchObject({ status: "lost", remaining: 1 });
+    expect(game.canShoot).toBe(false);
+  });
+
+  it("penalises potting the cue ball and puts it back in play", () => {
+    const simulation = tableSimulation();
+    const game = new PocketGame(simulation, {
+      pockets: [{ position: { x: 1, y: 0, z: 0 }, radius: 1 }],
+      scratchPenalty: 5,
+    });
+
+    simulation.strikeCueBall({ x: 1, y: 0, z: 0 }, 60);
+    runFrames(simulation, 1200, game);
+
+    expect(game.state).toMatchObject({ scratches: 1, score: -5 });
+    expect(simulation.cueBall).not.toBeNull();
+    expect(simulation.cueBall!.body.position.length()).toBeLessThan(
+      simulation.sphereConfig.mainRadius
+    );
+  });
+
+  it("restores the ambient simulation when disposed", () => {
+    const simulation = tableSimulation();
+    const game = new PocketGame(simulation);
+
+    expect(simulation.table?.pockets).toHaveLength(6);
+    game.dispose();
+    expect(simulation.table).toBeNull();
+  });
+});
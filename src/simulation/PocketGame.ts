@@ -0,0 +1,177 @@
+import { hexToHue } from "./color";
+import { EventEmitter, Listener, SpherePottedEvent } from "./events";
+import { SimulationController } from "./SphereSimulation";
+import { Pocket } from "./types";
+
+export interface PocketGameConfig {
+  pockets: Pocket[];
+  maxShots: number;
+  restSpeed: number;
+  tableDamping: number;
+  scratchPenalty: number;
+}
+
+export type PocketGameStatus = "aiming" | "rolling" | "won" | "lost";
+
+export interface PocketGameState {
+  status: PocketGameStatus;
+  score: number;
+  shots: number;
+  maxShots: number;
+  remaining: number;
+  potted: number;
+  scratches: number;
+}
+
+interface PocketGameEvents {
+  change: PocketGameState;
+}
+
+const axisPockets = (radius: number): Pocket[] =>
+  [
+    { x: 1, y: 0, z: 0 },
+    { x: -1, y: 0, z: 0 },
+    { x: 0, y: 1, z: 0 },
+    { x: 0, y: -1, z: 0 },
+    { x: 0, y: 0, z: 1 },
+    { x: 0, y: 0, z: -1 },
+  ].map((position) => ({ position, radius }));
+
+export const defaultPocketGameConfig: PocketGameConfig = {
+  pockets: axisPockets(1),
+  maxShots: 15,
+  restSpeed: 0.1,
+  tableDamping: 0.5,
+  scratchPenalty: 5,
+};
+
+export const resolvePocketGameConfig = (
+  overrides: Partial<PocketGameConfig> = {}
+): PocketGameConfig => ({ ...defaultPocketGameConfig, ...overrides });
+
+export const pocketScore = (
+  radius: number,
+  color: number,
+  referenceRadius: number
+): number => {
+  const sizePoints = Math.max(1, Math.round((referenceRadius / radius) * 5));
+  const colorPoints = Math.floor(hexToHue(color) * 6) + 1;
+  return sizePoints + colorPoints;
+};
+
+export class PocketGame {
+  readonly config: PocketGameConfig;
+
+  private readonly events = new EventEmitter<PocketGameEvents>();
+  private readonly unsubscribers: (() => void)[];
+  private status: PocketGameStatus = "aiming";
+  private score = 0;
+  private shots = 0;
+  private potted = 0;
+  private scratches = 0;
+
+  constructor(
+    private readonly simulation: SimulationController,
+    config: Partial<PocketGameConfig> = {}
+  ) {
+    this.config = resolvePocketGameConfig(config);
+
+    simulation.setTable({
+      pockets: this.config.pockets,
+      damping: this.config.tableDamping,
+    });
+    this.unsubscribers = [
+      simulation.on("cueStrike", ({ automatic }) => {
+        if (!automatic) this.handleShot();
+      }),
+      simulation.on("spherePotted", (event) => this.handlePotted(event)),
+    ];
+  }
+
+  get state(): PocketGameState {
+    return {
+      status: this.status,
+      score: this.score,
+      shots: this.shots,
+      maxShots: this.config.maxShots,
+      remaining: this.simulation.spheres.filter((sphere) => !sphere.isCueBall)
+        .length,
+      potted: this.potted,
+      scratches: this.scratches,
+    };
+  }
+
+  get canShoot(): boolean {
+    return this.status === "aiming";
+  }
+
+  on<K extends keyof PocketGameEvents>(
+    type: K,
+    listener: Listener<PocketGameEvents[K]>
+  ): () => void {
+    return this.events.on(type, listener);
+  }
+
+  update() {
+    if (this.status !== "rolling" || !this.isSettled()) return;
+
+    if (this.state.remaining === 0) {
+      this.status = "won";
+    } else if (this.shots >= this.config.maxShots) {
+      this.status = "lost";
+    } else {
+      this.status = "aiming";
+    }
+    this.emitChange();
+  }
+
+  restart() {
+    this.simulation.reset();
+    this.status = "aiming";
+    this.score = 0;
+    this.shots = 0;
+    this.potted = 0;
+    this.scratches = 0;
+    this.emitChange();
+  }
+
+  dispose() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.events.clear();
+    this.simulation.setTable(null);
+  }
+
+  private isSettled(): boolean {
+    const { restSpeed } = this.config;
+    return this.simulation.spheres.every(
+      ({ body }) => body.velocity.length() < restSpeed
+    );
+  }
+
+  private handleShot() {
+    if (this.status !== "aiming") return;
+
+    this.shots++;
+    this.status = "rolling";
+    this.emitChange();
+  }
+
+  private handlePotted({ isCueBall, radius, color }: SpherePottedEvent) {
+    if (isCueBall) {
+      this.scratches++;
+      this.score -= this.config.scratchPenalty;
+    } else {
+      this.potted++;
+      this.score += pocketScore(
+        radius,
+        color,
+        this.simulation.sphereConfig.smallMinRadius
+      );
+    }
+    this.emitChange();
+  }
+
+  private emitChange() {
+    this.events.emit("change", this.state);
+  }
+}
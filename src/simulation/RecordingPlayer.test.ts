@@ -0,0 +1,86 @@
+import {
+  MAX_PLAYBACK_SPEED,
+  MIN_PLAYBACK_SPEED,
+  RecordingPlayer,
+} from "./RecordingPlayer";
+import { SimulationRecorder } from "./SimulationRecorder";
+import { SphereSimulation } from "./SphereSimulation";
+
+const FRAME = 1000 / 60;
+
+const recordRun = (frames: number) => {
+  const simulation = new SphereSimulation({
+    seed: 302,
+    sphereConfig: { regenerationInterval: 300 },
+  });
+  const recorder = new SimulationRecorder(simulation, { keyframeInterval: 10 });
+  const positions = new Map<number, { x: number; y: number; z: number }>();
+  for (let i = 0; i < frames; i++) {
+    if (i === 20) simulation.strikeCueBall({ x: 1, y: 0, z: 0 });
+    simulation.step(FRAME);
+    recorder.capture();
+    if (i === 29) {
+      simulation.spheres.forEach(({ id, body }) =>
+        positions.set(id, { ...body.position })
+      );
+    }
+  }
+  return { recording: recorder.finish(), positions };
+};
+
+describe("RecordingPlayer", () => {
+  it("seeks to recorded sphere positions", () => {
+    const { recording, positions } = recordRun(60);
+    const player = new RecordingPlayer(recording);
+
+    player.seek(recording.times[30] - recording.times[0]);
+
+    expect(player.spheres.map(({ id }) => id).sort()).toEqual(
+      Array.from(positions.keys()).sort()
+    );
+    player.spheres.forEach(({ id, body }) => {
+      const expected = positions.get(id)!;
+      expect(body.position.x).toBeCloseTo(expected.x, 3);
+      expect(body.position.y).toBeCloseTo(expected.y, 3);
+      expect(body.position.z).toBeCloseTo(expected.z, 3);
+    });
+    expect(player.cueBall).not.toBeNull();
+  });
+
+  it("emits recorded events while advancing but not while seeking", () => {
+    const { recording } = recordRun(60);
+    const player = new RecordingPlayer(recording);
+    const onStrike = jest.fn();
+    player.on("cueStrike", onStrike);
+
+    player.seek(player.duration / 2);
+    expect(onStrike).not.toHaveBeenCalled();
+
+    player.seek(0);
+    player.advance(player.duration / 2);
+    expect(onStrike).toHaveBeenCalledTimes(1);
+    expect(player.markers.map(({ type }) => type)).toContain("cueStrike");
+  });
+
+  it("scales playback by a clamped speed and stops at the end", () => {
+    const { recording } = recordRun(30);
+    const player = new RecordingPlayer(recording);
+
+    player.playbackSpeed = 100;
+    expect(player.playbackSpeed).toBe(MAX_PLAYBACK_SPEED);
+    player.playbackSpeed = 0;
+    expect(player.playbackSpeed).toBe(MIN_PLAYBACK_SPEED);
+
+    player.playbackSpeed = 2;
+    player.advance(100);
+    expect(player.time).toBeCloseTo(200, 6);
+
+    player.advance(10000);
+    expect(player.time).toBe(player.duration);
+    expect(player.playing).toBe(false);
+
+    player.play();
+    expect(player.time).toBe(0);
+    expect(player.playing).toBe(true);
+  });
+});
@@ -0,0 +1,220 @@
+import { EventEmitter, Listener, SimulationEvents } from "./events";
+import {
+  FrameDecoder,
+  RecordedEventType,
+  RecordedFrame,
+  Recording,
+} from "./recording";
+import {
+  TRANSFORM_STRIDE,
+  interpolateTransforms,
+  writeTransforms,
+} from "./transforms";
+import { SimSphere } from "./types";
+import { mirrorSphere } from "./workerProtocol";
+
+export const MIN_PLAYBACK_SPEED = 0.125;
+export const MAX_PLAYBACK_SPEED = 8;
+
+export type PlaybackEvents = Pick<SimulationEvents, RecordedEventType>;
+
+export interface PlaybackMarker {
+  type: RecordedEventType;
+  time: number;
+}
+
+export class RecordingPlayer {
+  private readonly decoder: FrameDecoder;
+  private readonly events = new EventEmitter<PlaybackEvents>();
+  private readonly mirror = new Map<number, SimSphere>();
+  private list: SimSphere[] = [];
+  private pending: SimSphere | null = null;
+  private cueBallId: number | null = null;
+  private position = 0;
+  private isPlaying = true;
+  private speed = 1;
+  private index = -1;
+  private from: RecordedFrame | null = null;
+  private to: RecordedFrame | null = null;
+  private described = 0;
+  private interpolated = new Float32Array(0);
+
+  constructor(readonly recording: Recording) {
+    this.decoder = new FrameDecoder(recording);
+    this.moveTo(0, false);
+  }
+
+  get duration(): number {
+    const { times } = this.recording;
+    return times[times.length - 1] - times[0];
+  }
+
+  get time(): number {
+    return this.position;
+  }
+
+  get playing(): boolean {
+    return this.isPlaying;
+  }
+
+  get playbackSpeed(): number {
+    return this.speed;
+  }
+
+  set playbackSpeed(value: number) {
+    this.speed = Math.min(
+      Math.max(value, MIN_PLAYBACK_SPEED),
+      MAX_PLAYBACK_SPEED
+    );
+  }
+
+  get spheres(): readonly SimSphere[] {
+    return this.list;
+  }
+
+  get pendingSphere(): SimSphere | null {
+    return this.pending;
+  }
+
+  get cueBall(): SimSphere | null {
+    return this.cueBallId === null
+      ? null
+      : this.list.find((sphere) => sphere.id === this.cueBallId) ?? null;
+  }
+
+  get markers(): PlaybackMarker[] {
+    const start = this.recording.times[0];
+    return this.recording.events.map(({ frame, record }) => ({
+      type: record.type,
+      time: this.recording.times[frame] - start,
+    }));
+  }
+
+  on<K extends keyof PlaybackEvents>(
+    type: K,
+    listener: Listener<PlaybackEvents[K]>
+  ): () => void {
+    return this.events.on(type, listener);
+  }
+
+  play() {
+    if (this.position >= this.duration) {
+      this.moveTo(0, false);
+    }
+    this.isPlaying = true;
+  }
+
+  pause() {
+    this.isPlaying = false;
+  }
+
+  seek(time: number) {
+    this.moveTo(time, false);
+  }
+
+  advance(deltaTime: number) {
+    if (!this.isPlaying || deltaTime <= 0) return;
+
+    const target = this.position + deltaTime * this.speed;
+    if (target >= this.duration) {
+      this.isPlaying = false;
+    }
+    this.moveTo(target, true);
+  }
+
+  dispose() {
+    this.events.clear();
+    this.mirror.clear();
+    this.list = [];
+    this.pending = null;
+  }
+
+  private moveTo(time: number, emit: boolean) {
+    const { times } = this.recording;
+    this.position = Math.min(Math.max(time, 0), this.duration);
+    const absolute = times[0] + this.position;
+
+    let low = 0;
+    let high = times.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (times[middle] <= absolute) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    if (low !== this.index) {
+      if (emit) this.emitEvents(this.index, low);
+      this.load(low);
+    }
+
+    const from = this.from as RecordedFrame;
+    const to = this.to as RecordedFrame;
+    const span = to.time - from.time;
+    const alpha = span > 0 ? (absolute - from.time) / span : 0;
+
+    // interpolating backwards from the later frame keeps the rows of the
+    // earlier one, so spheres appear and vanish on the frame they did live
+    this.interpolated = interpolateTransforms(
+      to.transforms,
+      to.count,
+      from.transforms,
+      from.count,
+      1 - alpha,
+      this.interpolated
+    );
+    writeTransforms(this.interpolated, from.count, this.mirror);
+  }
+
+  private load(index: number) {
+    const lastIndex = this.recording.times.length - 1;
+    if (index === this.index + 1 && this.to) {
+      this.from = this.to;
+    } else {
+      this.from = this.decoder.decode(index);
+    }
+    this.to = index < lastIndex ? this.decoder.decode(index + 1) : this.from;
+    this.index = index;
+
+    const { spheres } = this.recording;
+    if (this.described > 0 && spheres[this.described - 1].frame > index) {
+      this.described = 0;
+      this.mirror.clear();
+    }
+    while (
+      this.described < spheres.length &&
+      spheres[this.described].frame <= index
+    ) {
+      const { sphere } = spheres[this.described++];
+      this.mirror.set(
+        sphere.id,
+        mirrorSphere(sphere, this.mirror.get(sphere.id))
+      );
+    }
+
+    const { from } = this;
+    this.list = [];
+    this.pending = null;
+    for (let row = 0; row < from.count; row++) {
+      const sphere = this.mirror.get(from.transforms[row * TRANSFORM_STRIDE]);
+      if (!sphere) continue;
+
+      if (sphere.id === from.pendingId) {
+        this.pending = sphere;
+      } else {
+        this.list.push(sphere);
+      }
+    }
+    this.cueBallId = from.cueBallId;
+  }
+
+  private emitEvents(fromIndex: number, toIndex: number) {
+    this.recording.events.forEach(({ frame, record }) => {
+      if (frame > fromIndex && frame <= toIndex) {
+        this.events.emit(record.type, record.event as never);
+      }
+    });
+  }
+}
@@ -0,0 +1,112 @@
+import {
+  FrameEncoder,
+  RECORDED_EVENT_TYPES,
+  RecordedEvent,
+  Recording,
+} from "./recording";
+import { SimulationController } from "./SphereSimulation";
+import { packTransforms } from "./transforms";
+import { describeSphere } from "./workerProtocol";
+
+export interface RecorderOptions {
+  keyframeInterval?: number;
+  maxFrames?: number;
+}
+
+const DEFAULT_KEYFRAME_INTERVAL = 60;
+const DEFAULT_MAX_FRAMES = 60 * 60 * 10;
+
+export class SimulationRecorder {
+  private readonly encoder: FrameEncoder;
+  private readonly maxFrames: number;
+  private readonly unsubscribers: (() => void)[];
+  private readonly revisions = new Map<number, number>();
+  private readonly spheres: Recording["spheres"] = [];
+  private readonly events: Recording["events"] = [];
+  private transforms = new Float32Array(0);
+  private lastTime: number | null = null;
+
+  constructor(
+    private readonly simulation: SimulationController,
+    options: RecorderOptions = {}
+  ) {
+    this.encoder = new FrameEncoder(
+      options.keyframeInterval ?? DEFAULT_KEYFRAME_INTERVAL
+    );
+    this.maxFrames = options.maxFrames ?? DEFAULT_MAX_FRAMES;
+    this.unsubscribers = RECORDED_EVENT_TYPES.map((type) =>
+      simulation.on(type, (event: RecordedEvent["event"]) => {
+        if (this.full) return;
+        this.events.push({
+          // events land on the frame captured after the step that raised them
+          frame: this.frameCount,
+          record: { type, event } as RecordedEvent,
+        });
+      })
+    );
+    this.capture();
+  }
+
+  get frameCount(): number {
+    return this.encoder.times.length;
+  }
+
+  get duration(): number {
+    const { times } = this.encoder;
+    return times.length > 0 ? times[times.length - 1] - times[0] : 0;
+  }
+
+  get full(): boolean {
+    return this.frameCount >= this.maxFrames;
+  }
+
+  capture(): boolean {
+    const { simulation } = this;
+    if (simulation.time === this.lastTime || this.full) return false;
+
+    const pending = simulation.pendingSphere;
+    const rows = pending
+      ? [...simulation.spheres, pending]
+      : simulation.spheres;
+    this.transforms = packTransforms(rows, this.transforms);
+
+    const live = new Set<number>();
+    rows.forEach((sphere) => {
+      live.add(sphere.id);
+      if (this.revisions.get(sphere.id) === sphere.revision) return;
+
+      this.spheres.push({
+        frame: this.frameCount,
+        sphere: describeSphere(sphere),
+      });
+      this.revisions.set(sphere.id, sphere.revision);
+    });
+    this.revisions.forEach((_, id) => {
+      if (!live.has(id)) this.revisions.delete(id);
+    });
+
+    this.encoder.write({
+      time: simulation.time,
+      pendingId: pending ? pending.id : null,
+      cueBallId: simulation.cueBall?.id ?? null,
+      count: rows.length,
+      transforms: this.transforms,
+    });
+    this.lastTime = simulation.time;
+    return true;
+  }
+
+  finish(): Recording {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers.length = 0;
+
+    return {
+      keyframeInterval: this.encoder.keyframeInterval,
+      times: [...this.encoder.times],
+      keyframes: [...this.encoder.keyframes],
+      data: this.encoder.data.slice(),
+      spheres: this.spheres.map((entry) => ({ ...entry })),
+      events: this.events.map((entry) => ({ ...entry })),
+    };
+  }
+}
@@ -0,0 +1,206 @@
+import { SIMULATION_EVENT_TYPES, SimulationEventRecord } from "./events";
+import { ForceField } from "./forceFields";
+import { SphereSimulation, SphereSimulationOptions } from "./SphereSimulation";
+import { TRANSFORM_STRIDE, packTransforms } from "./transforms";
+import {
+  ErrorReply,
+  MessageEndpoint,
+  RecordingReply,
+  SimulationCommand,
+  SimulationFrame,
+  SnapshotReply,
+  SphereDescriptor,
+  describeSphere,
+} from "./workerProtocol";
+
+// both are raised by the client itself
+const forwardedEvents = SIMULATION_EVENT_TYPES.filter(
+  (type) => type !== "forceFieldsChanged" && type !== "simulationError"
+);
+
+export class SimulationServer {
+  private simulation: SphereSimulation | null = null;
+  private shared = false;
+  private processed = 0;
+  private events: SimulationEventRecord[] = [];
+  private spare: Float32Array | null = null;
+  private sentFields: readonly ForceField[] | null = null;
+  private readonly revisions = new Map<number, number>();
+
+  constructor(private readonly endpoint: MessageEndpoint) {
+    endpoint.addEventListener("message", this.handleMessage);
+  }
+
+  dispose() {
+    this.endpoint.removeEventListener("message", this.handleMessage);
+    this.simulation?.dispose();
+    this.simulation = null;
+  }
+
+  private readonly handleMessage = ({
+    data,
+  }: MessageEvent<SimulationCommand>) => {
+    this.processed++;
+    try {
+      this.handle(data);
+    } catch (error) {
+      this.reportError(data, error);
+    }
+  };
+
+  private handle(command: SimulationCommand) {
+    if (command.type === "init") {
+      this.start(command.options, command.shared);
+      return;
+    }
+
+    const { simulation } = this;
+    if (!simulation) return;
+
+    switch (command.type) {
+      case "step":
+        if (command.recycle) {
+          this.spare = new Float32Array(command.recycle);
+        }
+        simulation.step(command.deltaTime);
+        this.sendFrame(simulation);
+        break;
+      case "snapshot": {
+        const reply: SnapshotReply = {
+          type: "snapshot",
+          request: command.request,
+          snapshot: simulation.exportSnapshot(),
+        };
+        this.endpoint.postMessage(reply);
+        break;
+      }
+      case "recording": {
+        const reply: RecordingReply = {
+          type: "recording",
+          request: command.request,
+          recording: simulation.finishRecording(),
+        };
+        this.endpoint.postMessage(reply);
+        break;
+      }
+      case "set":
+        if (command.property === "timeScale") {
+          simulation.timeScale = command.value;
+        } else {
+          simulation.autoCueStrike = command.value;
+        }
+        break;
+      case "call": {
+        const method = simulation[command.method] as (
+          ...args: unknown[]
+        ) => unknown;
+        method.apply(simulation, command.args);
+        if (command.method === "importSnapshot") {
+          this.revisions.clear();
+        }
+        break;
+      }
+      case "dispose":
+        this.dispose();
+        break;
+    }
+  }
+
+  // a failed step still answers with a frame so the client keeps stepping
+  private reportError(command: SimulationCommand, error: unknown) {
+    const reply: ErrorReply = {
+      type: "error",
+      command: command.type,
+      request: "request" in command ? command.request : null,
+      message: error instanceof Error ? error.message : String(error),
+    };
+    this.endpoint.postMessage(reply);
+
+    const { simulation } = this;
+    if (command.type === "step" && simulation) {
+      this.sendFrame(simulation);
+    }
+  }
+
+  private start(options: SphereSimulationOptions, shared: boolean) {
+    this.simulation?.dispose();
+    this.revisions.clear();
+    this.events = [];
+    this.sentFields = null;
+    this.shared = shared;
+
+    const simulation = new SphereSimulation(options);
+    forwardedEvents.forEach((type) =>
+      simulation.on(type, (event) =>
+        this.events.push({ type, event } as SimulationEventRecord)
+      )
+    );
+    this.simulation = simulation;
+    this.sendFrame(simulation);
+  }
+
+  private sendFrame(simulation: SphereSimulation) {
+    const pending = simulation.pendingSphere;
+    const rows = pending
+      ? [...simulation.spheres, pending]
+      : simulation.spheres;
+    const transforms = packTransforms(rows, this.acquireBuffer(rows.length));
+
+    const spheres: SphereDescriptor[] = [];
+    const live = new Set<number>();
+    rows.forEach((sphere) => {
+      live.add(sphere.id);
+      if (this.revisions.get(sphere.id) === sphere.revision) return;
+
+      spheres.push(describeSphere(sphere));
+      this.revisions.set(sphere.id, sphere.revision);
+    });
+    this.revisions.forEach((_, id) => {
+      if (!live.has(id)) this.revisions.delete(id);
+    });
+
+    const fields = simulation.forceFields;
+    const cueBall = simulation.cueBall;
+    const frame: SimulationFrame = {
+      type: "frame",
+      processed: this.processed,
+      time: simulation.time,
+      alpha: simulation.interpolationAlpha,
+      transforms,
+      count: rows.length,
+      pendingId: pending ? pending.id : null,
+      cueBallId: cueBall ? cueBall.id : null,
+      grabbedSphereId: simulation.grabbedSphereId,
+      nextCueStrikeIn: simulation.nextCueStrikeIn,
+      stepDuration: simulation.lastStepDuration,
+      kineticEnergy: simulation.kineticEnergy,
+      spheres,
+      fluidSurface: simulation.fluidSurface,
+      forceFields: fields === this.sentFields ? null : fields,
+      events: this.events,
+    };
+    this.sentFields = fields;
+    this.events = [];
+
+    if (this.shared) {
+      this.endpoint.postMessage(frame);
+    } else {
+      this.spare = null;
+      this.endpoint.postMessage(frame, [transforms.buffer]);
+    }
+  }
+
+  private acquireBuffer(count: number): Float32Array | undefined {
+    const length = count * TRANSFORM_STRIDE;
+    const { spare } = this;
+    if (spare && spare.length >= length) return spare;
+    if (!this.shared) return undefined;
+
+    // a shared buffer is read by the client before the next step is requested
+    const capacity = Math.max(length, (spare?.length ?? 0) * 2, 64);
+    this.spare = new Float32Array(
+      new SharedArrayBuffer(capacity * Float32Array.BYTES_PER_ELEMENT)
+    );
+    return this.spare;
+  }
+}
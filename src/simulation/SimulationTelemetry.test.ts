@@ -0,0 +1,97 @@
+import { SimulationTelemetry, TelemetrySample } from "./SimulationTelemetry";
+import { SphereSimulation } from "./SphereSimulation";
+
+const FRAME = 1000 / 60;
+
+const run = (
+  simulation: SphereSimulation,
+  telemetry: SimulationTelemetry,
+  frames: number,
+  start = 0
+) => {
+  const samples: TelemetrySample[] = [];
+  for (let i = 1; i <= frames; i++) {
+    simulation.step(FRAME);
+    const sample = telemetry.record({
+      time: start + i * FRAME,
+      frameTime: FRAME,
+      lightCount: 4,
+    });
+    if (sample) samples.push(sample);
+  }
+  return samples;
+};
+
+describe("SimulationTelemetry", () => {
+  it("samples frame rate and scene metrics once per interval", () => {
+    const simulation = new SphereSimulation({ seed: 501 });
+    const telemetry = new SimulationTelemetry(simulation, {
+      sampleInterval: 500,
+      historyLength: 30,
+    });
+
+    const samples = run(simulation, telemetry, 91);
+    const last = samples[samples.length - 1];
+
+    expect(samples).toHaveLength(4);
+    expect(last.fps).toBeCloseTo(60, 6);
+    expect(last.frameTime).toBeCloseTo(FRAME, 6);
+    expect(last.stepTime).toBeGreaterThanOrEqual(0);
+    expect(last.lightCount).toBe(4);
+    expect(last.bodyCount).toBe(
+      simulation.spheres.length + (simulation.pendingSphere ? 1 : 0)
+    );
+    expect(last.kineticEnergy).toBeCloseTo(simulation.kineticEnergy, 9);
+    expect(telemetry.history).toHaveLength(30);
+  });
+
+  it("counts collisions, escapes and respawns from simulation events", () => {
+    const simulation = new SphereSimulation({
+      seed: 502,
+      sphereConfig: { regenerationInterval: 400 },
+    });
+    const telemetry = new SimulationTelemetry(simulation, {
+      sampleInterval: 0,
+      window: 10000,
+    });
+    let collisions = 0;
+    let spawns = 0;
+    simulation.on("collision", () => collisions++);
+    simulation.on("sphereSpawned", () => spawns++);
+
+    // a manual spawn is not a respawn
+    simulation.spawnSphere();
+    const samples = run(simulation, telemetry, 180);
+    const last = samples[samples.length - 1];
+
+    expect(spawns).toBeGreaterThan(1);
+    expect(last.respawns).toBe(spawns - 1);
+    expect(last.escapes).toBe(0);
+    expect(last.collisionsPerSecond).toBeCloseTo(collisions / 3, 6);
+
+    telemetry.dispose();
+    simulation.spawnSphere();
+    expect(run(simulation, telemetry, 30, 3000)[0].respawns).toBe(
+      last.respawns
+    );
+  });
+
+  it("reports the cue strike countdown and kinetic energy", () => {
+    const simulation = new SphereSimulation({ seed: 503 });
+    const telemetry = new SimulationTelemetry(simulation);
+
+    const [first] = run(simulation, telemetry, 1);
+    expect(first.nextCueStrikeIn).toBeCloseTo(3000 - FRAME, 6);
+
+    simulation.autoCueStrike = false;
+    expect(simulation.nextCueStrikeIn).toBeNull();
+
+    const expected = simulation.spheres.reduce((total, { body }) => {
+      const speed = body.velocity.lengthSquared();
+      const spin = body.angularVelocity.lengthSquared();
+      return total + 0.5 * (body.mass * speed + body.inertia.x * spin);
+    }, 0);
+    expect(simulation.kineticEnergy).toBeCloseTo(expected, 9);
+    expect(simulation.kineticEnergy).toBeGreaterThan(0);
+  });
+});
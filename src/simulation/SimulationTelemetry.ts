@@ -0,0 +1,140 @@
+import { SimulationController } from "./SphereSimulation";
+
+export interface FrameTiming {
+  time: number;
+  frameTime: number;
+  lightCount: number;
+}
+
+export interface FrameCost {
+  frameTime: number;
+  stepTime: number;
+}
+
+export interface TelemetrySample {
+  time: number;
+  fps: number;
+  frameTime: number;
+  stepTime: number;
+  bodyCount: number;
+  lightCount: number;
+  kineticEnergy: number;
+  collisionsPerSecond: number;
+  escapes: number;
+  respawns: number;
+  nextCueStrikeIn: number | null;
+}
+
+export interface TelemetryOptions {
+  sampleInterval?: number;
+  window?: number;
+  historyLength?: number;
+}
+
+const DEFAULT_SAMPLE_INTERVAL = 250;
+const DEFAULT_WINDOW = 1000;
+const DEFAULT_HISTORY_LENGTH = 120;
+
+interface FrameRecord extends FrameCost {
+  time: number;
+  collisions: number;
+}
+
+export class SimulationTelemetry {
+  private readonly sampleInterval: number;
+  private readonly window: number;
+  private readonly historyLength: number;
+  private readonly unsubscribers: (() => void)[];
+  private readonly frames: FrameRecord[] = [];
+  private readonly costs: FrameCost[] = [];
+  private collisions = 0;
+  private escapes = 0;
+  private respawns = 0;
+  private pendingId: number | null = null;
+  private lastSampleTime: number | null = null;
+
+  constructor(
+    private readonly simulation: SimulationController,
+    options: TelemetryOptions = {}
+  ) {
+    this.sampleInterval = options.sampleInterval ?? DEFAULT_SAMPLE_INTERVAL;
+    this.window = options.window ?? DEFAULT_WINDOW;
+    this.historyLength = options.historyLength ?? DEFAULT_HISTORY_LENGTH;
+    this.unsubscribers = [
+      simulation.on("collision", () => this.collisions++),
+      simulation.on("sphereEscaped", () => this.escapes++),
+      // only the regenerated sphere spends its popup animation pending
+      simulation.on("sphereSpawned", ({ id }) => {
+        if (id === this.pendingId) this.respawns++;
+      }),
+    ];
+  }
+
+  get history(): readonly FrameCost[] {
+    return this.costs;
+  }
+
+  // returns a sample once per interval and null for the frames in between
+  record({ time, frameTime, lightCount }: FrameTiming): TelemetrySample | null {
+    const { simulation } = this;
+    const stepTime = simulation.lastStepDuration;
+    const pending = simulation.pendingSphere;
+    if (pending) {
+      this.pendingId = pending.id;
+    }
+    this.frames.push({
+      time,
+      frameTime,
+      stepTime,
+      collisions: this.collisions,
+    });
+    this.collisions = 0;
+    while (
+      this.frames.length > 1 &&
+      this.frames[0].time <= time - this.window
+    ) {
+      this.frames.shift();
+    }
+    this.costs.push({ frameTime, stepTime });
+    if (this.costs.length > this.historyLength) {
+      this.costs.shift();
+    }
+
+    if (
+      this.lastSampleTime !== null &&
+      time - this.lastSampleTime < this.sampleInterval
+    ) {
+      return null;
+    }
+    this.lastSampleTime = time;
+
+    let totalTime = 0;
+    let totalStep = 0;
+    let collisions = 0;
+    this.frames.forEach((frame) => {
+      totalTime += frame.frameTime;
+      totalStep += frame.stepTime;
+      collisions += frame.collisions;
+    });
+    const count = this.frames.length;
+
+    return {
+      time,
+      fps: totalTime > 0 ? (count * 1000) / totalTime : 0,
+      frameTime: totalTime / count,
+      stepTime: totalStep / count,
+      bodyCount: simulation.spheres.length + (simulation.pendingSphere ? 1 : 0),
+      lightCount,
+      kineticEnergy: simulation.kineticEnergy,
+      collisionsPerSecond: totalTime > 0 ? (collisions * 1000) / totalTime : 0,
+      escapes: this.escapes,
+      respawns: this.respawns,
+      nextCueStrikeIn: simulation.nextCueStrikeIn,
+    };
+  }
+
+  dispose() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+}
@@ -0,0 +1,61 @@
+import * as CANNON from "cannon-es";
+import { SphereRegistry } from "./SphereRegistry";
+import { SimSphere } from "./types";
+
+const makeSphere = (id: number): SimSphere => ({
+  id,
+  body: new CANNON.Body({ mass: 1 }),
+  radius: 0.5,
+  isCueBall: false,
+  archetype: "glass",
+  charge: 0,
+  appearance: {
+    color: 0xffffff,
+    metalness: 0.5,
+    roughness: 0.5,
+    emissiveScale: 0.5,
+    emissiveIntensity: 0.5,
+    clearcoat: 0.5,
+    clearcoatRoughness: 0.5,
+  },
+  light: null,
+  scale: 1,
+  spawnProgress: 1,
+  revision: 0,
+  lastSpeed: 0,
+  stationaryTime: 0,
+});
+
+describe("SphereRegistry", () => {
+  it("looks spheres up by id and by body", () => {
+    const registry = new SphereRegistry();
+    const sphere = makeSphere(1);
+    registry.add(sphere);
+
+    expect(registry.get(1)).toBe(sphere);
+    expect(registry.getByBody(sphere.body)).toBe(sphere);
+    expect(registry.all).toEqual([sphere]);
+  });
+
+  it("rejects duplicate ids", () => {
+    const registry = new SphereRegistry();
+    registry.add(makeSphere(1));
+
+    expect(() => registry.add(makeSphere(1))).toThrow(/already registered/);
+  });
+
+  it("keeps every index consistent across removals", () => {
+    const registry = new SphereRegistry();
+    const spheres = [1, 2, 3, 4].map(makeSphere);
+    spheres.forEach((sphere) => registry.add(sphere));
+
+    expect(registry.remove(2)).toBe(spheres[1]);
+    expect(registry.remove(2)).toBeUndefined();
+    expect(registry.all.map((s) => s.id)).toEqual([1, 3, 4]);
+    expect(registry.getByBody(spheres[1].body)).toBeUndefined();
+    expect(registry.has(2)).toBe(false);
+
+    expect(registry.clear()).toHaveLength(3);
+    expect(registry.size).toBe(0);
+  });
+});
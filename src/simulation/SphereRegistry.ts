@@ -0,0 +1,57 @@
+import * as CANNON from "cannon-es";
+import { SimSphere } from "./types";
+
+export class SphereRegistry {
+  private readonly byId = new Map<number, SimSphere>();
+  private readonly byBody = new Map<CANNON.Body, SimSphere>();
+  private list: SimSphere[] = [];
+
+  get size(): number {
+    return this.list.length;
+  }
+
+  get all(): readonly SimSphere[] {
+    return this.list;
+  }
+
+  has(id: number): boolean {
+    return this.byId.has(id);
+  }
+
+  get(id: number): SimSphere | undefined {
+    return this.byId.get(id);
+  }
+
+  getByBody(body: CANNON.Body): SimSphere | undefined {
+    return this.byBody.get(body);
+  }
+
+  add(sphere: SimSphere) {
+    if (this.byId.has(sphere.id)) {
+      throw new Error(`Sphere ${sphere.id} is already registered`);
+    }
+
+    this.byId.set(sphere.id, sphere);
+    this.byBody.set(sphere.body, sphere);
+    this.list.push(sphere);
+  }
+
+  remove(id: number): SimSphere | undefined {
+    const sphere = this.byId.get(id);
+    if (!sphere) return undefined;
+
+    this.byId.delete(id);
+    this.byBody.delete(sphere.body);
+    this.list.splice(this.list.indexOf(sphere), 1);
+
+    return sphere;
+  }
+
+  clear(): SimSphere[] {
+    const removed = this.list;
+    this.byId.clear();
+    this.byBody.clear();
+    this.list = [];
+    return removed;
+  }
+}
@@ -0,0 +1,670 @@
+import {
+  MAX_TIME_SCALE,
+  MIN_TIME_SCALE,
+  SphereSimulation,
+} from "./SphereSimulation";
+import { archetypeDefinitions } from "./archetypes";
+import { defaultPhysicsConfig, defaultSphereConfig } from "./config";
+
+const FRAME = 1000 / 60;
+
+const runFrames = (simulation: SphereSimulation, frames: number) => {
+  for (let i = 0; i < frames; i++) {
+    simulation.step(FRAME);
+  }
+};
+
+describe("SphereSimulation", () => {
+  it("populates the world with smallCount spheres and one cue ball", () => {
+    const simulation = new SphereSimulation();
+
+    expect(simulation.spheres).toHaveLength(defaultSphereConfig.smallCount);
+    expect(simulation.world.bodies).toHaveLength(
+      defaultSphereConfig.smallCount
+    );
+    expect(simulation.spheres.filter((s) => s.isCueBall)).toHaveLength(1);
+    expect(simulation.cueBall?.radius).toBe(defaultSphereConfig.cueBallRadius);
+  });
+
+  it("assigns unique ids to every sphere", () => {
+    const simulation = new SphereSimulation();
+    const ids = new Set(simulation.spheres.map((s) => s.id));
+
+    expect(ids.size).toBe(simulation.spheres.length);
+  });
+
+  it("advances simulation time by the step delta", () => {
+    const simulation = new SphereSimulation();
+    runFrames(simulation, 10);
+
+    expect(simulation.time).toBeCloseTo(FRAME * 10);
+  });
+
+  it("keeps spheres inside the container while stepping", () => {
+    const simulation = new SphereSimulation();
+    runFrames(simulation, 600);
+
+    const limit =
+      defaultSphereConfig.mainRadius * defaultPhysicsConfig.exitThreshold;
+    simulation.spheres.forEach((sphere) => {
+      expect(sphere.body.position.length()).toBeLessThanOrEqual(limit);
+    });
+  });
+
+  it("spawns a popup sphere once the regeneration interval elapses", () => {
+    const simulation = new SphereSimulation();
+    while (!simulation.pendingSphere) {
+      simulation.step(FRAME);
+    }
+
+    const pending = simulation.pendingSphere;
+    expect(simulation.time).toBeGreaterThan(
+      defaultSphereConfig.regenerationInterval
+    );
+    expect(pending.spawnProgress).toBe(0);
+
+    runFrames(
+      simulation,
+      Math.ceil(defaultSphereConfig.popupDuration / FRAME) + 1
+    );
+
+    expect(simulation.pendingSphere).toBeNull();
+    expect(simulation.spheres).toContain(pending);
+    expect(pending.scale).toBe(1);
+  });
+
+  it("removes every body from the world on dispose", () => {
+    const simulation = new SphereSimulation();
+    runFrames(simulation, 5);
+    simulation.dispose();
+
+    expect(simulation.spheres).toHaveLength(0);
+    expect(simulation.world.bodies).toHaveLength(0);
+  });
+});
+
+describe("SphereSimulation seeding", () => {
+  const snapshotPositions = (simulation: SphereSimulation) =>
+    simulation.spheres.map(({ id, body }) => [
+      id,
+      body.position.x,
+      body.position.y,
+      body.position.z,
+    ]);
+
+  it("produces identical populations for the same seed", () => {
+    const a = new SphereSimulation({ seed: 42 });
+    const b = new SphereSimulation({ seed: 42 });
+
+    expect(a.seed).toBe(42);
+    expect(a.spheres.map((s) => s.appearance)).toEqual(
+      b.spheres.map((s) => s.appearance)
+    );
+    expect(a.cueBall?.id).toBe(b.cueBall?.id);
+  });
+
+  it("produces identical body positions after N steps for the same seed", () => {
+    const a = new SphereSimulation({ seed: 1234 });
+    const b = new SphereSimulation({ seed: 1234 });
+    runFrames(a, 900);
+    runFrames(b, 900);
+
+    expect(snapshotPositions(a)).toEqual(snapshotPositions(b));
+  });
+
+  it("diverges for different seeds", () => {
+    const a = new SphereSimulation({ seed: 1 });
+    const b = new SphereSimulation({ seed: 2 });
+
+    expect(a.spheres.map((s) => s.appearance.color)).not.toEqual(
+      b.spheres.map((s) => s.appearance.color)
+    );
+  });
+});
+
+describe("SphereSimulation live configuration", () => {
+  it("merges partial configs over the defaults", () => {
+    const simulation = new SphereSimulation({
+      physicsConfig: { restitution: 0.5 },
+      sphereConfig: { smallCount: 6 },
+    });
+
+    expect(simulation.physicsConfig.restitution).toBe(0.5);
+    expect(simulation.physicsConfig.friction).toBe(
+      defaultPhysicsConfig.friction
+    );
+    expect(simulation.spheres).toHaveLength(6);
+  });
+
+  it("updates materials, damping and gravity on the running world", () => {
+    const simulation = new SphereSimulation({ seed: 5 });
+    simulation.setPhysicsConfig({
+      restitution: 0.3,
+      friction: 0.6,
+      dampingFactor: 0.5,
+      gravity: -2,
+    });
+
+    const { world } = simulation;
+    expect(world.defaultContactMaterial.restitution).toBe(0.3);
+    expect(world.defaultContactMaterial.friction).toBe(0.6);
+    expect(world.gravity.y).toBe(-2);
+    simulation.spheres.forEach(({ body, archetype }) => {
+      expect(body.material?.restitution).toBeCloseTo(
+        0.3 * archetypeDefinitions[archetype].restitution
+      );
+      expect(body.linearDamping).toBe(0.5);
+    });
+  });
+
+  it("spawns and removes spheres when smallCount changes", () => {
+    const simulation = new SphereSimulation({ seed: 9 });
+    const cueBallId = simulation.cueBall?.id;
+
+    simulation.setSphereConfig({ smallCount: 30 });
+    expect(simulation.spheres).toHaveLength(30);
+    expect(simulation.world.bodies).toHaveLength(30);
+
+    simulation.setSphereConfig({ smallCount: 4 });
+    expect(simulation.spheres).toHaveLength(4);
+    expect(simulation.world.bodies).toHaveLength(4);
+    expect(simulation.cueBall?.id).toBe(cueBallId);
+  });
+
+  it("rebuilds the cue ball when its radius changes", () => {
+    const simulation = new SphereSimulation({ seed: 11 });
+    const cueBall = simulation.cueBall!;
+    const revision = cueBall.revision;
+
+    simulation.setSphereConfig({ cueBallRadius: 0.9, cueBallMass: 8 });
+
+    expect(cueBall.radius).toBe(0.9);
+    expect(cueBall.body.mass).toBe(8);
+    expect(cueBall.revision).toBeGreaterThan(revision);
+  });
+});
+
+describe("SphereSimulation fixed timestep", () => {
+  const stepMs = defaultPhysicsConfig.timeStep * 1000;
+
+  it("runs the same number of fixed steps regardless of frame rate", () => {
+    const slow = new SphereSimulation({ seed: 3 });
+    const fast = new SphereSimulation({ seed: 3 });
+    runFrames(slow, 60);
+    for (let i = 0; i < 240; i++) {
+      fast.step(FRAME / 4);
+    }
+
+    expect(fast.time).toBeCloseTo(slow.time);
+    expect(fast.spheres.map((s) => s.body.position.x)).toEqual(
+      slow.spheres.map((s) => s.body.position.x)
+    );
+  });
+
+  it("caps the number of substeps for long frames", () => {
+    const simulation = new SphereSimulation();
+    const substeps = simulation.step(10000);
+
+    expect(substeps).toBe(defaultPhysicsConfig.maxSubSteps);
+    expect(simulation.time).toBeCloseTo(
+      stepMs * defaultPhysicsConfig.maxSubSteps
+    );
+  });
+
+  it("does not advance while paused but still single-steps", () => {
+    const simulation = new SphereSimulation();
+    simulation.pause();
+    runFrames(simulation, 10);
+    expect(simulation.time).toBe(0);
+
+    simulation.singleStep();
+    expect(simulation.time).toBeCloseTo(stepMs);
+
+    simulation.resume();
+    runFrames(simulation, 1);
+    expect(simulation.time).toBeCloseTo(stepMs * 2);
+  });
+
+  it("scales simulation time and clamps the scale", () => {
+    const simulation = new SphereSimulation();
+    simulation.timeScale = 2;
+    runFrames(simulation, 30);
+    expect(simulation.time).toBeCloseTo(FRAME * 60);
+
+    simulation.timeScale = 100;
+    expect(simulation.timeScale).toBe(MAX_TIME_SCALE);
+    simulation.timeScale = 0;
+    expect(simulation.timeScale).toBe(MIN_TIME_SCALE);
+  });
+});
+
+describe("SphereSimulation control API", () => {
+  it("spawns spheres with the requested properties", () => {
+    const simulation = new SphereSimulation({ seed: 21 });
+    const id = simulation.spawnSphere({
+      position: { x: 1, y: 2, z: 0 },
+      velocity: { x: 0, y: 0, z: 3 },
+      radius: 0.4,
+      color: 0xff0000,
+      archetype: "rubber",
+      light: false,
+    });
+
+    const state = simulation.getState();
+    const spawned = state.spheres.find((sphere) => sphere.id === id);
+    expect(spawned).toEqual({
+      id,
+      radius: 0.4,
+      color: 0xff0000,
+      isCueBall: false,
+      archetype: "rubber",
+      charge: 0,
+      position: { x: 1, y: 2, z: 0 },
+      velocity: { x: 0, y: 0, z: 3 },
+    });
+    expect(simulation.spheres.find((s) => s.id === id)?.light).toBeNull();
+  });
+
+  it("spawns spheres under a caller-chosen id", () => {
+    const simulation = new SphereSimulation({ seed: 23 });
+    const reserved = simulation.spawnSphere({ id: 500 });
+
+    expect(reserved).toBe(500);
+    expect(simulation.spheres.some(({ id }) => id === 500)).toBe(true);
+    expect(() => simulation.spawnSphere({ id: 500 })).toThrow(
+      "Sphere 500 is already registered"
+    );
+    expect(simulation.spawnSphere()).not.toBe(500);
+    expect(() => simulation.spawnSphere({ id: 2 ** 24 + 1 })).toThrow(
+      `Sphere id ${2 ** 24 + 1} must be an integer from 1 to ${2 ** 24}`
+    );
+    expect(() => simulation.spawnSphere({ id: 1.5 })).toThrow(
+      "must be an integer"
+    );
+  });
+
+  it("refuses the id held by the pending sphere", () => {
+    const simulation = new SphereSimulation({
+      seed: 24,
+      sphereConfig: { regenerationInterval: 100 },
+    });
+    while (!simulation.pendingSphere) {
+      simulation.step(1000 / 60);
+    }
+    const { id } = simulation.pendingSphere;
+
+    expect(() => simulation.spawnSphere({ id })).toThrow(
+      `Sphere ${id} is already registered`
+    );
+    expect(simulation.spawnSphere({ id: id + 1 })).toBe(id + 1);
+    expect(simulation.spawnSphere()).toBeGreaterThan(id + 1);
+  });
+
+  it("removes spheres by id", () => {
+    const simulation = new SphereSimulation({ seed: 22 });
+    const target = simulation.spheres.find((s) => !s.isCueBall)!;
+
+    expect(simulation.removeSphere(target.id)).toBe(true);
+    expect(simulation.removeSphere(target.id)).toBe(false);
+    expect(simulation.world.bodies).not.toContain(target.body);
+    expect(simulation.cueBall?.isCueBall).toBe(true);
+  });
+
+  it("strikes the cue ball along the requested direction", () => {
+    const simulation = new SphereSimulation({ seed: 23 });
+    const cueBall = simulation.cueBall!;
+    cueBall.body.velocity.set(0, 0, 0);
+
+    expect(simulation.strikeCueBall({ x: 2, y: 0, z: 0 }, 10)).toBe(true);
+    expect(cueBall.body.velocity.x).toBeCloseTo(
+      10 / defaultSphereConfig.cueBallMass
+    );
+    expect(cueBall.body.velocity.y).toBeCloseTo(0);
+  });
+
+  it("resets to the seeded initial state", () => {
+    const simulation = new SphereSimulation({ seed: 24 });
+    const initial = simulation.getState();
+    runFrames(simulation, 120);
+
+    simulation.reset();
+    const reset = simulation.getState();
+
+    expect(reset.time).toBe(0);
+    expect(reset.spheres.map(({ id, ...rest }) => rest)).toEqual(
+      initial.spheres.map(({ id, ...rest }) => rest)
+    );
+  });
+});
+
+describe("SphereSimulation events", () => {
+  it("reports collisions between two spheres with their impact speed", () => {
+    const simulation = new SphereSimulation({
+      seed: 31,
+      sphereConfig: { smallCount: 0 },
+    });
+    const a = simulation.spawnSphere({
+      position: { x: -1, y: 0, z: 0 },
+      velocity: { x: 3, y: 0, z: 0 },
+      radius: 0.3,
+    });
+    const b = simulation.spawnSphere({
+      position: { x: 1, y: 0, z: 0 },
+      velocity: { x: -3, y: 0, z: 0 },
+      radius: 0.3,
+    });
+    const onCollision = jest.fn();
+    simulation.on("collision", onCollision);
+
+    runFrames(simulation, 30);
+
+    expect(onCollision).toHaveBeenCalledTimes(1);
+    const [event] = onCollision.mock.calls[0];
+    expect([event.sphereA, event.sphereB].sort()).toEqual([a, b].sort());
+    expect(event.impactSpeed).toBeGreaterThan(5);
+  });
+
+  it("reports escapes and removals for spheres past the exit threshold", () => {
+    const simulation = new SphereSimulation({ seed: 32 });
+    const onEscaped = jest.fn();
+    const onRemoved = jest.fn();
+    simulation.on("sphereEscaped", onEscaped);
+    simulation.on("sphereRemoved", onRemoved);
+
+    const id = simulation.spawnSphere({ position: { x: 6, y: 0, z: 0 } });
+    simulation.singleStep();
+
+    expect(onEscaped).toHaveBeenCalledWith(
+      expect.objectContaining({ id, isCueBall: false })
+    );
+    expect(onRemoved).toHaveBeenCalledWith(
+      expect.objectContaining({ id, reason: "escaped" })
+    );
+  });
+
+  it("reports spawns when the popup animation finishes", () => {
+    const simulation = new SphereSimulation({ seed: 33 });
+    const onSpawned = jest.fn();
+    simulation.on("sphereSpawned", onSpawned);
+
+    while (!simulation.pendingSphere) {
+      simulation.step(FRAME);
+    }
+    const pendingId = simulation.pendingSphere.id;
+    expect(onSpawned).not.toHaveBeenCalled();
+
+    while (simulation.pendingSphere) {
+      simulation.step(FRAME);
+    }
+    expect(onSpawned).toHaveBeenCalledWith(
+      expect.objectContaining({ id: pendingId })
+    );
+  });
+
+  it("reports manual and automatic cue strikes", () => {
+    const simulation = new SphereSimulation({ seed: 34 });
+    const onCueStrike = jest.fn();
+    const unsubscribe = simulation.on("cueStrike", onCueStrike);
+
+    simulation.strikeCueBall({ x: 0, y: 1, z: 0 }, 12);
+    expect(onCueStrike).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        id: simulation.cueBall?.id,
+        power: 12,
+        automatic: false,
+        direction: { x: 0, y: 1, z: 0 },
+      })
+    );
+
+    runFrames(simulation, 400);
+    expect(onCueStrike).toHaveBeenLastCalledWith(
+      expect.objectContaining({ automatic: true })
+    );
+
+    unsubscribe();
+    const calls = onCueStrike.mock.calls.length;
+    simulation.strikeCueBall({ x: 1, y: 0, z: 0 });
+    expect(onCueStrike).toHaveBeenCalledTimes(calls);
+  });
+});
+
+describe("SphereSimulation aiming", () => {
+  const aimingSimulation = () => {
+    const simulation = new SphereSimulation({
+      seed: 55,
+      sphereConfig: { smallCount: 1 },
+    });
+    simulation.cueBall!.body.position.set(0, 0, 0);
+    return simulation;
+  };
+
+  it("predicts the first sphere the cue ball would hit", () => {
+    const simulation = aimingSimulation();
+    const radius = simulation.cueBall!.radius;
+    const near = simulation.spawnSphere({
+      position: { x: 2, y: 0, z: 0 },
+      radius: 0.2,
+    });
+    simulation.spawnSphere({ position: { x: 3, y: 0, z: 0 }, radius: 0.2 });
+
+    const contact = simulation.predictCueContact({ x: 1, y: 0, z: 0 });
+    expect(contact?.sphereId).toBe(near);
+    expect(contact?.distance).toBeCloseTo(2 - radius - 0.2);
+    expect(contact?.position.x).toBeCloseTo(2 - radius - 0.2);
+    expect(contact?.contactPoint.x).toBeCloseTo(2 - 0.2);
+  });
+
+  it("returns null when nothing lies along the shot", () => {
+    const simulation = aimingSimulation();
+    simulation.spawnSphere({ position: { x: 2, y: 0, z: 0 }, radius: 0.2 });
+
+    expect(simulation.predictCueContact({ x: -1, y: 0, z: 0 })).toBeNull();
+    expect(simulation.predictCueContact({ x: 0, y: 0, z: 1 })).toBeNull();
+    expect(simulation.predictCueContact({ x: 0, y: 0, z: 0 })).toBeNull();
+  });
+
+  it("suspends automatic cue strikes while disabled", () => {
+    const simulation = new SphereSimulation({ seed: 34 });
+    const onCueStrike = jest.fn();
+    simulation.on("cueStrike", onCueStrike);
+
+    simulation.autoCueStrike = false;
+    runFrames(simulation, 600);
+    expect(onCueStrike).not.toHaveBeenCalled();
+
+    simulation.strikeCueBall({ x: 1, y: 0, z: 0 }, 5);
+    expect(onCueStrike).toHaveBeenCalledTimes(1);
+
+    simulation.autoCueStrike = true;
+    runFrames(simulation, 400);
+    expect(onCueStrike).toHaveBeenLastCalledWith(
+      expect.objectContaining({ automatic: true })
+    );
+  });
+});
+
+describe("SphereSimulation grabbing", () => {
+  const grabSimulation = () => {
+    const simulation = new SphereSimulation({
+      seed: 89,
+      sphereConfig: { smallCount: 1 },
+    });
+    const id = simulation.spawnSphere({
+      position: { x: 0.5, y: 0, z: 0 },
+      radius: 0.2,
+    });
+    return { simulation, id };
+  };
+
+  it("drags the grabbed sphere towards the pointer target", () => {
+    const { simulation, id } = grabSimulation();
+    const sphere = simulation.spheres.find((entry) => entry.id === id)!;
+
+    expect(simulation.grabSphere(id)).toBe(true);
+    expect(simulation.grabbedSphereId).toBe(id);
+
+    simulation.moveGrab({ x: 0.5, y: 0, z: 1 });
+    runFrames(simulation, 30);
+
+    expect(sphere.body.position.z).toBeCloseTo(1, 1);
+  });
+
+  it("keeps the drag target inside the container", () => {
+    const { simulation, id } = grabSimulation();
+    const sphere = simulation.spheres.find((entry) => entry.id === id)!;
+    const limit = defaultSphereConfig.mainRadius * 0.9 - 0.2;
+
+    simulation.grabSphere(id);
+    simulation.moveGrab({ x: 100, y: 0, z: 0 });
+    runFrames(simulation, 60);
+
+    expect(sphere.body.position.length()).toBeLessThanOrEqual(limit + 0.05);
+  });
+
+  it("throws the sphere with the drag velocity when released", () => {
+    const { simulation, id } = grabSimulation();
+    const sphere = simulation.spheres.find((entry) => entry.id === id)!;
+
+    simulation.grabSphere(id);
+    for (let i = 0; i < 10; i++) {
+      simulation.moveGrab({ x: 0.5, y: 0, z: -1 + i * 0.1 });
+      simulation.step(FRAME);
+    }
+
+    expect(simulation.releaseGrab()).toBe(true);
+    expect(simulation.grabbedSphereId).toBeNull();
+    expect(sphere.body.velocity.z).toBeGreaterThan(2);
+    expect(simulation.world.constraints).toHaveLength(0);
+    expect(simulation.world.bodies).toHaveLength(simulation.spheres.length);
+  });
+
+  it("releases the grab when the sphere is removed", () => {
+    const { simulation, id } = grabSimulation();
+
+    simulation.grabSphere(id);
+    simulation.removeSphere(id);
+
+    expect(simulation.grabbedSphereId).toBeNull();
+    expect(simulation.world.constraints).toHaveLength(0);
+    expect(simulation.grabSphere(id)).toBe(false);
+  });
+});
+
+describe("SphereSimulation accretion", () => {
+  const accretionSimulation = (smallCount = 6) => {
+    const simulation = new SphereSimulation({
+      seed: 77,
+      physicsConfig: { accretion: true, dampingFactor: 0 },
+      sphereConfig: { smallCount: 1, regenerationInterval: Infinity },
+    });
+    simulation.setSphereConfig({ smallCount });
+    simulation.spheres
+      .filter((sphere) => !sphere.isCueBall)
+      .forEach(({ id }) => simulation.removeSphere(id));
+    simulation.cueBall!.body.position.set(0, -4, 0);
+    simulation.autoCueStrike = false;
+    return simulation;
+  };
+
+  const collide = (simulation: SphereSimulation, speed: number, y = 0) => {
+    const a = simulation.spawnSphere({
+      position: { x: -1, y, z: 0 },
+      velocity: { x: speed, y: 0, z: 0 },
+      radius: 0.4,
+      mass: 2,
+      color: 0xff0000,
+    });
+    const b = simulation.spawnSphere({
+      position: { x: 1, y, z: 0 },
+      velocity: { x: -speed, y: 0, z: 0 },
+      radius: 0.3,
+      mass: 1,
+      color: 0x0000ff,
+    });
+    return [a, b];
+  };
+
+  it("merges slow collisions into one sphere conserving mass and momentum", () => {
+    const simulation = accretionSimulation();
+    const [a, b] = collide(simulation, 0.5);
+    let momentum = 0;
+    const onMerged = jest.fn(({ id }) => {
+      const { body } = simulation.spheres.find((sphere) => sphere.id === id)!;
+      momentum = body.mass * body.velocity.x;
+    });
+    simulation.on("sphereMerged", onMerged);
+
+    runFrames(simulation, 120);
+
+    expect(onMerged).toHaveBeenCalledTimes(1);
+    const [{ id, sources }] = onMerged.mock.calls[0];
+    expect([...sources].sort()).toEqual([a, b].sort());
+    expect(momentum).toBeCloseTo(2 * 0.5 - 1 * 0.5);
+
+    const merged = simulation.spheres.find((sphere) => sphere.id === id)!;
+    expect(merged.body.mass).toBeCloseTo(3);
+    expect(merged.radius).toBeCloseTo(Math.cbrt(0.4 ** 3 + 0.3 ** 3));
+    expect(merged.appearance.color).toBe(0xaa0055);
+    expect(simulation.spheres).toHaveLength(2);
+  });
+
+  it("splits a sphere on high-energy impacts and pops the fragments in", () => {
+    const simulation = accretionSimulation();
+    const [a, b] = collide(simulation, 6);
+    const onFragmented = jest.fn();
+    const onRemoved = jest.fn();
+    simulation.on("sphereFragmented", onFragmented);
+    simulation.on("sphereRemoved", onRemoved);
+
+    while (!onFragmented.mock.calls.length) {
+      simulation.singleStep();
+    }
+
+    const [{ id, fragments }] = onFragmented.mock.calls[0];
+    expect(id).toBe(b);
+    expect(onRemoved).toHaveBeenCalledWith(
+      expect.objectContaining({ id: b, reason: "fragmented" })
+    );
+    expect(fragments).toHaveLength(3);
+    expect(simulation.spheres.map((sphere) => sphere.id)).toContain(a);
+
+    const pieces = simulation.spheres.filter((sphere) =>
+      fragments.includes(sphere.id)
+    );
+    pieces.forEach((piece) => {
+      expect(piece.body.mass).toBeCloseTo(1 / 3);
+      expect(piece.radius).toBeCloseTo(0.3 / Math.cbrt(3));
+      expect(piece.spawnProgress).toBeLessThan(1);
+    });
+
+    runFrames(simulation, 60);
+    pieces.forEach((piece) => {
+      expect(piece.scale).toBe(1);
+      expect(piece.spawnProgress).toBe(1);
+    });
+  });
+
+  it("never fragments past the smallCount population cap", () => {
+    const simulation = accretionSimulation(4);
+    const onFragmented = jest.fn();
+    simulation.on("sphereFragmented", onFragmented);
+    collide(simulation, 6);
+
+    runFrames(simulation, 60);
+
+    expect(onFragmented).toHaveBeenCalledTimes(1);
+    expect(onFragmented.mock.calls[0][0].fragments).toHaveLength(2);
+    expect(simulation.spheres.length).toBeLessThanOrEqual(4);
+  });
+
+  it("only bounces when accretion is disabled", () => {
+    const simulation = accretionSimulation();
+    simulation.setPhysicsConfig({ accretion: false });
+    collide(simulation, 0.5, 1.5);
+    collide(simulation, 6, -1.5);
+
+    runFrames(simulation, 120);
+
+    expect(simulation.spheres).toHaveLength(5);
+  });
+});
@@ -0,0 +1,1953 @@
+import * as CANNON from "cannon-es";
+import {
+  ContainerConfig,
+  FluidConfig,
+  PhysicsConfig,
+  SphereConfig,
+  resolveContainerConfig,
+  resolveFluidConfig,
+  resolvePhysicsConfig,
+  resolveSphereConfig,
+  shallowEqual,
+} from "./config";
+import {
+  ContainerShape,
+  constrainInside,
+  createContainerShape,
+} from "./container";
+import { predictFirstContact } from "./aim";
+import {
+  SPHERE_ARCHETYPES,
+  SphereArchetype,
+  archetypeDefinitions,
+  archetypeMass,
+  archetypeSurface,
+  combineSurfaces,
+  pickArchetype,
+} from "./archetypes";
+import { boundaryHandlers, reflectFromShell } from "./boundary";
+import { blendColors, chargeColor, generateVibrantColor } from "./color";
+import { coulombForces } from "./electrostatics";
+import { FluidSurface, fluidForce, surfaceHeight } from "./fluid";
+import {
+  ForceField,
+  ForceFieldInput,
+  ForceFieldSpec,
+  fieldAcceleration,
+  resolveForceField,
+} from "./forceFields";
+import { computeGravity } from "./gravity";
+import { SphereRegistry } from "./SphereRegistry";
+import {
+  EventEmitter,
+  Listener,
+  SimulationEvents,
+  SphereRemovalReason,
+} from "./events";
+import { Random, createRandom } from "./random";
+import { Recording } from "./recording";
+import { RecorderOptions, SimulationRecorder } from "./SimulationRecorder";
+import { SimulationSnapshot, SphereSnapshot } from "./snapshot";
+import { MAX_PACKED_ID, isPackableId } from "./transforms";
+import {
+  ContactPrediction,
+  PendingSphere,
+  PocketTable,
+  SimSphere,
+  SimulationState,
+  SpawnSphereOptions,
+  Vector3Like,
+} from "./types";
+
+export interface SphereSimulationOptions {
+  physicsConfig?: Partial<PhysicsConfig>;
+  sphereConfig?: Partial<SphereConfig>;
+  container?: Partial<ContainerConfig>;
+  fluid?: Partial<FluidConfig>;
+  forceFields?: ForceFieldInput[];
+  seed?: number;
+}
+
+export const MIN_TIME_SCALE = 0.1;
+export const MAX_TIME_SCALE = 4;
+
+const SLOW_SPHERE_KICK_STEPS = 120;
+const ACCUMULATOR_EPSILON = 1e-6;
+const MAX_VELOCITY = 12;
+const STATIONARY_KICK_DELAY = 2000;
+const CROWDED_START_COUNT = 64;
+const GRAB_FORCE_PER_MASS = 400;
+const GRAB_VELOCITY_SMOOTHING = 0.5;
+const POCKET_PULL = 4;
+const FRAGMENT_BURST = 0.3;
+
+export const easeOutElastic = (x: number): number => {
+  const c4 = (2 * Math.PI) / 3;
+
+  if (x === 0 || x === 1) return x;
+  return Math.pow(2, -10 * x) * Math.sin((x * 10 - 0.75) * c4) + 1;
+};
+
+export const randomUnitVector = (random: Random): CANNON.Vec3 => {
+  let x, y, z, lengthSquared;
+  do {
+    x = random.next() * 2 - 1;
+    y = random.next() * 2 - 1;
+    z = random.next() * 2 - 1;
+    lengthSquared = x * x + y * y + z * z;
+  } while (lengthSquared >= 1 || lengthSquared < 0.1);
+
+  const length = Math.sqrt(lengthSquared);
+  return new CANNON.Vec3(x / length, y / length, z / length);
+};
+
+interface CollideEvent {
+  body: CANNON.Body;
+  target: CANNON.Body;
+  contact: CANNON.ContactEquation;
+}
+
+interface SphereImpact {
+  spheres: [SimSphere, SimSphere];
+  speed: number;
+}
+
+interface ArchetypeContact {
+  archetypes: [SphereArchetype, SphereArchetype];
+  contact: CANNON.ContactMaterial;
+}
+
+interface SphereGrab {
+  sphereId: number;
+  anchor: CANNON.Body;
+  constraint: CANNON.PointToPointConstraint;
+  target: CANNON.Vec3;
+  velocity: CANNON.Vec3;
+}
+
+const toVector3Like = (vector: CANNON.Vec3): Vector3Like => ({
+  x: vector.x,
+  y: vector.y,
+  z: vector.z,
+});
+
+const toVec3 = ({ x, y, z }: Vector3Like) => new CANNON.Vec3(x, y, z);
+
+const snapshotSphere = ({
+  body,
+  appearance,
+  light,
+  ...sphere
+}: SimSphere): SphereSnapshot => ({
+  ...sphere,
+  appearance: { ...appearance },
+  light: light && { ...light },
+  body: {
+    position: toVector3Like(body.position),
+    quaternion: {
+      x: body.quaternion.x,
+      y: body.quaternion.y,
+      z: body.quaternion.z,
+      w: body.quaternion.w,
+    },
+    velocity: toVector3Like(body.velocity),
+    angularVelocity: toVector3Like(body.angularVelocity),
+    // forces applied after a world step carry over into the next one
+    force: toVector3Like(body.force),
+    torque: toVector3Like(body.torque),
+    mass: body.mass,
+    inertia: toVector3Like(body.inertia),
+    kinematic: body.type === CANNON.Body.KINEMATIC,
+  },
+});
+
+const jitter = (random: Random, value: number, spread: number) =>
+  Math.min(Math.max(value + (random.next() - 0.5) * spread, 0), 1);
+
+export class SphereSimulation {
+  readonly world: CANNON.World;
+
+  private readonly broadphase: CANNON.SAPBroadphase;
+  private rng: Random;
+  private physicsSettings: PhysicsConfig;
+  private sphereSettings: SphereConfig;
+  private containerSettings: ContainerConfig;
+  private containerShape: ContainerShape;
+  private fluidSettings: FluidConfig;
+
+  private readonly materials: Record<SphereArchetype, CANNON.Material>;
+  private readonly contactMaterials: ArchetypeContact[] = [];
+  private readonly events = new EventEmitter<SimulationEvents>();
+  private readonly registry = new SphereRegistry();
+  private pending: PendingSphere | null = null;
+  private recorder: SimulationRecorder | null = null;
+  private cueBallId: number | null = null;
+  private elapsed = 0;
+  private stepCount = 0;
+  private accumulator = 0;
+  private scale = 1;
+  private isPaused = false;
+  private nextId = 1;
+
+  private lastImpulseTime = 0;
+  private stepDuration = 0;
+  private impulseInterval = 3000;
+  private autoStrike = true;
+  private grab: SphereGrab | null = null;
+  private pocketTable: PocketTable | null = null;
+  private impacts: SphereImpact[] = [];
+  private fields: ForceField[] = [];
+  private nextFieldId = 1;
+  private readonly popups = new Map<SimSphere, number>();
+  private lastRegenerationTime = 0;
+  private readonly impulseDirection = new CANNON.Vec3(0, 0, 0);
+  private readonly fluidUp = new CANNON.Vec3(0, 1, 0);
+  private readonly surfaceNormal = new CANNON.Vec3(0, 1, 0);
+  private readonly surfaceVelocity = new CANNON.Vec3(0, 0, 0);
+  private surfaceLevel = 0;
+
+  constructor(options: SphereSimulationOptions = {}) {
+    this.physicsSettings = resolvePhysicsConfig(options.physicsConfig);
+    this.sphereSettings = resolveSphereConfig(options.sphereConfig);
+    this.containerSettings = resolveContainerConfig(options.container);
+    this.fluidSettings = resolveFluidConfig(options.fluid);
+    this.containerShape = createContainerShape(
+      this.containerSettings,
+      this.sphereSettings.mainRadius
+    );
+    this.rng = createRandom(options.seed);
+
+    const world = new CANNON.World();
+    this.broadphase = new CANNON.SAPBroadphase(world);
+    world.broadphase = this.broadphase;
+    world.allowSleep = false;
+    this.world = world;
+
+    this.materials = SPHERE_ARCHETYPES.reduce(
+      (materials, archetype) => ({
+        ...materials,
+        [archetype]: new CANNON.Material(`${archetype}Material`),
+      }),
+      {} as Record<SphereArchetype, CANNON.Material>
+    );
+    SPHERE_ARCHETYPES.forEach((a, index) => {
+      SPHERE_ARCHETYPES.slice(index).forEach((b) => {
+        const contact = new CANNON.ContactMaterial(
+          this.materials[a],
+          this.materials[b],
+          {}
+        );
+        world.addContactMaterial(contact);
+        this.contactMaterials.push({ archetypes: [a, b], contact });
+      });
+    });
+
+    this.applyPhysicsConfig();
+    this.fields = (options.forceFields ?? []).map((input) =>
+      this.createForceField(input)
+    );
+    this.populate();
+  }
+
+  get random(): Random {
+    return this.rng;
+  }
+
+  get physicsConfig(): Readonly<PhysicsConfig> {
+    return this.physicsSettings;
+  }
+
+  get sphereConfig(): Readonly<SphereConfig> {
+    return this.sphereSettings;
+  }
+
+  get containerConfig(): Readonly<ContainerConfig> {
+    return this.containerSettings;
+  }
+
+  get container(): ContainerShape {
+    return this.containerShape;
+  }
+
+  get fluidConfig(): Readonly<FluidConfig> {
+    return this.fluidSettings;
+  }
+
+  get fluidSurface(): FluidSurface | null {
+    if (!this.fluidSettings.enabled) return null;
+
+    return {
+      normal: toVector3Like(this.surfaceNormal),
+      height: this.surfaceLevel,
+    };
+  }
+
+  get spheres(): readonly SimSphere[] {
+    return this.registry.all;
+  }
+
+  get pendingSphere(): SimSphere | null {
+    return this.pending ? this.pending.sphere : null;
+  }
+
+  get cueBall(): SimSphere | null {
+    return this.cueBallId === null
+      ? null
+      : this.registry.get(this.cueBallId) ?? null;
+  }
+
+  get seed(): number {
+    return this.random.seed;
+  }
+
+  get time(): number {
+    return this.elapsed;
+  }
+
+  get lastImpulseDirection(): CANNON.Vec3 {
+    return this.impulseDirection;
+  }
+
+  get table(): Readonly<PocketTable> | null {
+    return this.pocketTable;
+  }
+
+  get forceFields(): readonly ForceField[] {
+    return this.fields;
+  }
+
+  get grabbedSphereId(): number | null {
+    return this.grab ? this.grab.sphereId : null;
+  }
+
+  get autoCueStrike(): boolean {
+    return this.autoStrike;
+  }
+
+  set autoCueStrike(value: boolean) {
+    if (value && !this.autoStrike) {
+      this.lastImpulseTime = this.elapsed;
+    }
+    this.autoStrike = value;
+  }
+
+  get lastStepDuration(): number {
+    return this.stepDuration;
+  }
+
+  get nextCueStrikeIn(): number | null {
+    if (!this.autoStrike || !this.cueBall) return null;
+    return Math.max(
+      0,
+      this.lastImpulseTime + this.impulseInterval - this.elapsed
+    );
+  }
+
+  // spheres have isotropic inertia, so the rotational term needs no tensor
+  get kineticEnergy(): number {
+    return this.registry.all.reduce((total, { body }) => {
+      const speed = body.velocity.lengthSquared();
+      const spin = body.angularVelocity.lengthSquared();
+      return total + 0.5 * (body.mass * speed + body.inertia.x * spin);
+    }, 0);
+  }
+
+  on<K extends keyof SimulationEvents>(
+    type: K,
+    listener: Listener<SimulationEvents[K]>
+  ): () => void {
+    return this.events.on(type, listener);
+  }
+
+  get paused(): boolean {
+    return this.isPaused;
+  }
+
+  get timeScale(): number {
+    return this.scale;
+  }
+
+  set timeScale(value: number) {
+    this.scale = Math.min(Math.max(value, MIN_TIME_SCALE), MAX_TIME_SCALE);
+  }
+
+  get interpolationAlpha(): number {
+    return this.accumulator / this.fixedStepMs;
+  }
+
+  private get damping(): number {
+    return this.pocketTable
+      ? this.pocketTable.damping
+      : this.physicsSettings.dampingFactor;
+  }
+
+  private get fixedStepMs(): number {
+    return this.physicsSettings.timeStep * 1000;
+  }
+
+  pause() {
+    this.isPaused = true;
+  }
+
+  resume() {
+    this.isPaused = false;
+  }
+
+  step(deltaTime: number): number {
+    this.stepDuration = 0;
+    if (this.isPaused || deltaTime <= 0) return 0;
+
+    const started = performance.now();
+    const stepMs = this.fixedStepMs;
+    this.accumulator += deltaTime * this.scale;
+
+    let substeps = 0;
+    while (
+      this.accumulator + ACCUMULATOR_EPSILON >= stepMs &&
+      substeps < this.physicsSettings.maxSubSteps
+    ) {
+      this.fixedStep();
+      this.accumulator = Math.max(0, this.accumulator - stepMs);
+      substeps++;
+    }
+
+    if (substeps === this.physicsSettings.maxSubSteps) {
+      this.accumulator = Math.min(this.accumulator, stepMs);
+    }
+
+    this.stepDuration = performance.now() - started;
+    return substeps;
+  }
+
+  singleStep() {
+    this.fixedStep();
+  }
+
+  private fixedStep() {
+    const stepMs = this.fixedStepMs;
+    this.updateGrab();
+    this.applyMutualGravity();
+    this.applyElectrostatics();
+    this.applyForceFields();
+    this.applyFluid();
+    this.world.step(this.physicsSettings.timeStep);
+    this.elapsed += stepMs;
+    this.stepCount++;
+    const time = this.elapsed;
+    const ambient = this.pocketTable === null;
+
+    this.resolveImpacts();
+
+    if (
+      ambient &&
+      time - this.lastRegenerationTime >
+        this.sphereSettings.regenerationInterval
+    ) {
+      if (
+        this.registry.size > Math.max(2, this.sphereSettings.smallCount / 2)
+      ) {
+        this.removeRandomSphere(time);
+      }
+
+      if (!this.pending) {
+        this.createNewSphere(time);
+      }
+    }
+
+    if (this.pending) {
+      this.updateNewSphereAnimation(time);
+    }
+
+    if (this.popups.size > 0) {
+      this.updatePopups(time);
+    }
+
+    if (ambient) {
+      this.applyCueBallImpulse(time);
+
+      if (this.stepCount % SLOW_SPHERE_KICK_STEPS === 0) {
+        this.kickSlowSpheres();
+      }
+
+      this.kickStationarySpheres(stepMs);
+      this.applyBoundary();
+    } else {
+      this.applyPocketBoundary();
+    }
+
+    this.recorder?.capture();
+  }
+
+  setPhysicsConfig(changes: Partial<PhysicsConfig>) {
+    const next = { ...this.physicsSettings, ...changes };
+    if (shallowEqual(next, this.physicsSettings)) return;
+
+    this.physicsSettings = next;
+    this.applyPhysicsConfig();
+  }
+
+  setTable(table: PocketTable | null) {
+    this.pocketTable = table
+      ? {
+          pockets: table.pockets.map(({ position, radius }) => ({
+            position: { ...position },
+            radius,
+          })),
+          damping: table.damping,
+        }
+      : null;
+    this.applyPhysicsConfig();
+  }
+
+  setSphereConfig(changes: Partial<SphereConfig>) {
+    const previous = this.sphereSettings;
+    const next = { ...previous, ...changes };
+    if (shallowEqual(next, previous)) return;
+
+    this.sphereSettings = next;
+
+    if (next.mainRadius !== previous.mainRadius) {
+      this.rebuildContainer();
+    }
+
+    if (
+      next.cueBallRadius !== previous.cueBallRadius ||
+      next.cueBallMass !== previous.cueBallMass ||
+      next.cueBallArchetype !== previous.cueBallArchetype ||
+      next.cueBallCharge !== previous.cueBallCharge ||
+      next.cueBallColor !== previous.cueBallColor ||
+      next.cueBallEmissiveIntensity !== previous.cueBallEmissiveIntensity
+    ) {
+      this.applyCueBallConfig();
+    }
+
+    if (next.smallCount !== previous.smallCount) {
+      this.syncPopulation();
+    }
+  }
+
+  setFluidConfig(changes: Partial<FluidConfig>) {
+    const next = { ...this.fluidSettings, ...changes };
+    if (shallowEqual(next, this.fluidSettings)) return;
+
+    if (next.enabled && !this.fluidSettings.enabled) {
+      this.surfaceNormal.copy(this.fluidUp);
+      this.surfaceVelocity.set(0, 0, 0);
+    }
+    this.fluidSettings = next;
+  }
+
+  setFluidDown(direction: Vector3Like) {
+    const up = new CANNON.Vec3(-direction.x, -direction.y, -direction.z);
+    if (up.length() === 0) return;
+
+    up.normalize();
+    this.fluidUp.copy(up);
+  }
+
+  setContainerConfig(changes: Partial<ContainerConfig>) {
+    const previous = this.containerSettings;
+    const next = { ...previous, ...changes };
+    if (shallowEqual(next, previous)) return;
+
+    this.containerSettings = next;
+    this.rebuildContainer();
+  }
+
+  addForceField(input: ForceFieldInput): number {
+    const field = this.createForceField(input);
+    this.fields = [...this.fields, field];
+    this.emitForceFieldsChanged();
+
+    return field.id;
+  }
+
+  updateForceField(id: number, changes: Partial<ForceFieldSpec>): boolean {
+    const index = this.fields.findIndex((field) => field.id === id);
+    if (index < 0) return false;
+
+    const { id: _, ...current } = this.fields[index];
+    const field = this.createForceField({ ...current, ...changes }, id);
+    this.fields = this.fields.map((entry, i) => (i === index ? field : entry));
+    this.emitForceFieldsChanged();
+
+    return true;
+  }
+
+  removeForceField(id: number): boolean {
+    const fields = this.fields.filter((field) => field.id !== id);
+    if (fields.length === this.fields.length) return false;
+
+    this.fields = fields;
+    this.emitForceFieldsChanged();
+
+    return true;
+  }
+
+  setForceFields(inputs: readonly ForceFieldInput[]) {
+    this.fields = inputs.map((input) => this.createForceField(input));
+    this.emitForceFieldsChanged();
+  }
+
+  reset() {
+    this.releaseGrab();
+    this.clearSpheres();
+
+    this.random.state = this.random.seed;
+    this.elapsed = 0;
+    this.stepCount = 0;
+    this.accumulator = 0;
+    this.lastImpulseTime = 0;
+    this.impulseInterval = 3000;
+    this.lastRegenerationTime = 0;
+    this.impulseDirection.set(0, 0, 0);
+
+    this.populate();
+  }
+
+  spawnSphere(options: SpawnSphereOptions = {}): number {
+    if (options.id !== undefined && !isPackableId(options.id)) {
+      throw new Error(
+        `Sphere id ${options.id} must be an integer from 1 to ${MAX_PACKED_ID}`
+      );
+    }
+    if (options.id !== undefined && this.isIdReserved(options.id)) {
+      throw new Error(`Sphere ${options.id} is already registered`);
+    }
+
+    const sphere = this.createSphere(false, options);
+
+    this.addSphere(sphere);
+    this.emitSpawned(sphere);
+
+    return sphere.id;
+  }
+
+  removeSphere(id: number): boolean {
+    return this.removeSphereEntity(id, "manual");
+  }
+
+  strikeCueBall(
+    direction: Vector3Like,
+    power = this.sphereSettings.cueBallImpulseFactor
+  ): boolean {
+    const cueBall = this.cueBall;
+    const impulse = new CANNON.Vec3(direction.x, direction.y, direction.z);
+    if (!cueBall || impulse.length() === 0) return false;
+
+    impulse.normalize();
+    this.impulseDirection.copy(impulse);
+    cueBall.body.applyImpulse(impulse.scale(power), new CANNON.Vec3(0, 0, 0));
+    this.lastImpulseTime = this.elapsed;
+    this.emitCueStrike(cueBall, power, false);
+
+    return true;
+  }
+
+  predictCueContact(direction: Vector3Like): ContactPrediction | null {
+    const cueBall = this.cueBall;
+    if (!cueBall) return null;
+
+    return predictFirstContact(
+      cueBall.body.position,
+      direction,
+      cueBall.radius,
+      this.registry.all,
+      cueBall.id
+    );
+  }
+
+  getState(): SimulationState {
+    const cueBall = this.cueBall;
+
+    return {
+      seed: this.seed,
+      time: this.elapsed,
+      paused: this.isPaused,
+      timeScale: this.scale,
+      cueBallId: cueBall ? cueBall.id : null,
+      spheres: this.registry.all.map(
+        ({ id, radius, appearance, isCueBall, archetype, charge, body }) => ({
+          id,
+          radius,
+          color: appearance.color,
+          isCueBall,
+          archetype,
+          charge,
+          position: toVector3Like(body.position),
+          velocity: toVector3Like(body.velocity),
+        })
+      ),
+    };
+  }
+
+  exportSnapshot(): SimulationSnapshot {
+    const pending = this.pending;
+
+    return {
+      seed: this.rng.seed,
+      randomState: this.rng.state,
+      time: this.elapsed,
+      stepCount: this.stepCount,
+      accumulator: this.accumulator,
+      paused: this.isPaused,
+      timeScale: this.scale,
+      autoCueStrike: this.autoStrike,
+      physicsConfig: { ...this.physicsSettings },
+      sphereConfig: { ...this.sphereSettings },
+      container: { ...this.containerSettings },
+      fluid: { ...this.fluidSettings },
+      table: this.pocketTable && {
+        pockets: this.pocketTable.pockets.map(({ position, radius }) => ({
+          position: { ...position },
+          radius,
+        })),
+        damping: this.pocketTable.damping,
+      },
+      forceFields: this.fields.map((field) => ({
+        ...field,
+        position: { ...field.position },
+        direction: { ...field.direction },
+      })),
+      spheres: this.registry.all.map(snapshotSphere),
+      pending: pending && {
+        sphere: snapshotSphere(pending.sphere),
+        startTime: pending.startTime,
+      },
+      popups: Array.from(this.popups, ([{ id }, startTime]) => ({
+        id,
+        startTime,
+      })),
+      bodyOrder: this.sphereIds(this.world.bodies),
+      broadphase: {
+        order: this.sphereIds(this.broadphase.axisList),
+        sorted: !this.broadphase.dirty,
+      },
+      cueBallId: this.cueBallId,
+      nextId: this.nextId,
+      nextFieldId: this.nextFieldId,
+      lastImpulseTime: this.lastImpulseTime,
+      impulseInterval: this.impulseInterval,
+      lastRegenerationTime: this.lastRegenerationTime,
+      impulseDirection: toVector3Like(this.impulseDirection),
+      fluidState: {
+        up: toVector3Like(this.fluidUp),
+        normal: toVector3Like(this.surfaceNormal),
+        velocity: toVector3Like(this.surfaceVelocity),
+        level: this.surfaceLevel,
+      },
+    };
+  }
+
+  captureSnapshot(): Promise<SimulationSnapshot> {
+    return Promise.resolve(this.exportSnapshot());
+  }
+
+  // captures after every fixed step, so substeps taken in one frame survive
+  startRecording(options: RecorderOptions = {}) {
+    this.recorder?.finish();
+    this.recorder = new SimulationRecorder(this, options);
+  }
+
+  finishRecording(): Recording | null {
+    const recording = this.recorder?.finish() ?? null;
+    this.recorder = null;
+    return recording;
+  }
+
+  stopRecording(): Promise<Recording | null> {
+    return Promise.resolve(this.finishRecording());
+  }
+
+  importSnapshot(snapshot: SimulationSnapshot) {
+    this.releaseGrab();
+    this.clearSpheres();
+
+    if (snapshot.seed !== this.rng.seed) {
+      this.rng = createRandom(snapshot.seed);
+    }
+    this.rng.state = snapshot.randomState;
+    this.elapsed = snapshot.time;
+    this.stepCount = snapshot.stepCount;
+    this.accumulator = snapshot.accumulator;
+    this.isPaused = snapshot.paused;
+    this.timeScale = snapshot.timeScale;
+    this.autoStrike = snapshot.autoCueStrike;
+    this.nextId = snapshot.nextId;
+    this.nextFieldId = snapshot.nextFieldId;
+    this.lastImpulseTime = snapshot.lastImpulseTime;
+    this.impulseInterval = snapshot.impulseInterval;
+    this.lastRegenerationTime = snapshot.lastRegenerationTime;
+    this.impulseDirection.copy(toVec3(snapshot.impulseDirection));
+    this.fluidUp.copy(toVec3(snapshot.fluidState.up));
+    this.surfaceNormal.copy(toVec3(snapshot.fluidState.normal));
+    this.surfaceVelocity.copy(toVec3(snapshot.fluidState.velocity));
+    this.surfaceLevel = snapshot.fluidState.level;
+
+    this.physicsSettings = resolvePhysicsConfig(snapshot.physicsConfig);
+    this.sphereSettings = resolveSphereConfig(snapshot.sphereConfig);
+    this.containerSettings = resolveContainerConfig(snapshot.container);
+    this.fluidSettings = resolveFluidConfig(snapshot.fluid);
+    this.containerShape = createContainerShape(
+      this.containerSettings,
+      this.sphereSettings.mainRadius
+    );
+    this.setTable(snapshot.table);
+    this.fields = snapshot.forceFields.map((field) => ({
+      ...field,
+      position: { ...field.position },
+      direction: { ...field.direction },
+    }));
+
+    const entries = new Map(
+      [
+        ...snapshot.spheres,
+        ...(snapshot.pending ? [snapshot.pending.sphere] : []),
+      ].map((entry) => [entry.id, entry])
+    );
+    // body ids orient contact pairs and world order decides solver order,
+    // so bodies are rebuilt and added back in the order they had
+    const order = [
+      ...snapshot.bodyOrder,
+      ...Array.from(entries.keys()).filter(
+        (id) => !snapshot.bodyOrder.includes(id)
+      ),
+    ];
+    const spheres = new Map<number, SimSphere>();
+    order.forEach((id) => {
+      const entry = entries.get(id);
+      if (entry && !spheres.has(id)) {
+        spheres.set(id, this.restoreSphere(entry));
+      }
+    });
+
+    snapshot.spheres.forEach(({ id }) => {
+      const sphere = spheres.get(id);
+      if (sphere) this.registry.add(sphere);
+    });
+    const pending = snapshot.pending && spheres.get(snapshot.pending.sphere.id);
+    if (snapshot.pending && pending) {
+      this.pending = { sphere: pending, startTime: snapshot.pending.startTime };
+    }
+    snapshot.popups.forEach(({ id, startTime }) => {
+      const sphere = spheres.get(id);
+      if (sphere) this.popups.set(sphere, startTime);
+    });
+    spheres.forEach((sphere) => this.trackSphere(sphere));
+
+    // the sweep-and-prune list is only sorted once, so its order is state too
+    const axisList = this.broadphase.axisList;
+    const rank = new Map(
+      snapshot.broadphase.order.map((id, index) => [id, index])
+    );
+    const rankOf = (body: CANNON.Body) =>
+      rank.get(this.sphereForBody(body)?.id ?? -1) ?? axisList.length;
+    axisList.sort((a, b) => rankOf(a) - rankOf(b));
+    this.broadphase.dirty = !snapshot.broadphase.sorted;
+    this.cueBallId =
+      snapshot.cueBallId !== null && this.registry.has(snapshot.cueBallId)
+        ? snapshot.cueBallId
+        : null;
+
+    this.events.emit("snapshotImported", { time: this.elapsed });
+    this.emitForceFieldsChanged();
+  }
+
+  grabSphere(id: number): boolean {
+    const sphere = this.registry.get(id);
+    if (!sphere) return false;
+
+    this.releaseGrab();
+
+    const anchor = new CANNON.Body({
+      mass: 0,
+      type: CANNON.Body.KINEMATIC,
+      position: sphere.body.position.clone(),
+    });
+    const constraint = new CANNON.PointToPointConstraint(
+      sphere.body,
+      new CANNON.Vec3(0, 0, 0),
+      anchor,
+      new CANNON.Vec3(0, 0, 0),
+      sphere.body.mass * GRAB_FORCE_PER_MASS
+    );
+    this.world.addBody(anchor);
+    this.world.addConstraint(constraint);
+
+    this.grab = {
+      sphereId: id,
+      anchor,
+      constraint,
+      target: anchor.position.clone(),
+      velocity: new CANNON.Vec3(0, 0, 0),
+    };
+    sphere.stationaryTime = 0;
+
+    return true;
+  }
+
+  moveGrab(target: Vector3Like) {
+    const { grab } = this;
+    const sphere = grab && this.registry.get(grab.sphereId);
+    if (!grab || !sphere) return;
+
+    grab.target.set(target.x, target.y, target.z);
+    constrainInside(
+      this.containerShape,
+      grab.target,
+      sphere.radius + this.containerShape.size * 0.1
+    );
+  }
+
+  releaseGrab(): boolean {
+    const { grab } = this;
+    if (!grab) return false;
+
+    this.world.removeConstraint(grab.constraint);
+    this.world.removeBody(grab.anchor);
+    this.grab = null;
+
+    const sphere = this.registry.get(grab.sphereId);
+    if (sphere) {
+      const speed = grab.velocity.length();
+      sphere.body.velocity.copy(grab.velocity);
+      if (speed > MAX_VELOCITY) {
+        sphere.body.velocity.scale(MAX_VELOCITY / speed, sphere.body.velocity);
+      }
+    }
+
+    return true;
+  }
+
+  dispose() {
+    this.finishRecording();
+    this.releaseGrab();
+    this.clearSpheres();
+    this.events.clear();
+  }
+
+  private clearSpheres() {
+    this.registry.clear().forEach((sphere) => this.untrackSphere(sphere));
+    if (this.pending) {
+      this.untrackSphere(this.pending.sphere);
+    }
+
+    this.pending = null;
+    this.cueBallId = null;
+    this.impacts = [];
+    this.popups.clear();
+  }
+
+  private applyPhysicsConfig() {
+    const { world, materials, physicsSettings } = this;
+
+    world.gravity.set(0, physicsSettings.gravity, 0);
+    if (world.solver instanceof CANNON.GSSolver) {
+      world.solver.iterations = physicsSettings.solverIterations;
+    }
+
+    world.defaultContactMaterial.friction = physicsSettings.friction;
+    world.defaultContactMaterial.restitution = physicsSettings.restitution;
+    SPHERE_ARCHETYPES.forEach((archetype) => {
+      const { friction, restitution } = archetypeSurface(
+        archetype,
+        physicsSettings
+      );
+      materials[archetype].friction = friction;
+      materials[archetype].restitution = restitution;
+    });
+    this.contactMaterials.forEach(({ archetypes: [a, b], contact }) => {
+      const { friction, restitution } = combineSurfaces(
+        materials[a],
+        materials[b]
+      );
+      contact.friction = friction;
+      contact.restitution = restitution;
+    });
+
+    world.bodies.forEach((body) => {
+      body.linearDamping = this.damping;
+      body.angularDamping = this.damping;
+    });
+  }
+
+  private populate() {
+    const sphereCount = this.sphereSettings.smallCount;
+    const cueIndex = this.random.int(sphereCount);
+
+    for (let i = 0; i < sphereCount; i++) {
+      this.addSphere(this.createSphere(i === cueIndex));
+    }
+  }
+
+  private syncPopulation() {
+    const target = Math.max(0, Math.floor(this.sphereSettings.smallCount));
+
+    while (this.registry.size < target) {
+      this.addSphere(this.createSphere(this.cueBall === null));
+    }
+
+    while (this.registry.size > Math.max(target, 1)) {
+      const sphere = this.pickRandomSphere();
+      if (!sphere) break;
+
+      this.removeSphereEntity(sphere.id, "population");
+    }
+  }
+
+  private applyCueBallConfig() {
+    const cueBall = this.cueBall;
+    if (!cueBall) return;
+
+    const { sphereSettings } = this;
+    const { body } = cueBall;
+
+    if (cueBall.radius !== sphereSettings.cueBallRadius) {
+      body.shapes.slice().forEach((shape) => body.removeShape(shape));
+      body.addShape(new CANNON.Sphere(sphereSettings.cueBallRadius));
+      cueBall.radius = sphereSettings.cueBallRadius;
+    }
+
+    body.mass = sphereSettings.cueBallMass;
+    body.updateMassProperties();
+    body.material = this.materials[sphereSettings.cueBallArchetype];
+    cueBall.archetype = sphereSettings.cueBallArchetype;
+    cueBall.charge = sphereSettings.cueBallCharge;
+
+    cueBall.appearance = {
+      ...cueBall.appearance,
+      color: sphereSettings.cueBallColor,
+      emissiveIntensity: sphereSettings.cueBallEmissiveIntensity,
+    };
+    if (cueBall.light) {
+      cueBall.light = { ...cueBall.light, color: sphereSettings.cueBallColor };
+    }
+    cueBall.revision++;
+  }
+
+  private createSphere(
+    isCueBall: boolean,
+    options: SpawnSphereOptions = {}
+  ): SimSphere {
+    const { sphereSettings } = this;
+
+    const radius = isCueBall
+      ? sphereSettings.cueBallRadius
+      : options.radius ??
+        this.random.range(
+          sphereSettings.smallMinRadius,
+          sphereSettings.smallMaxRadius
+        );
+
+    const charge = isCueBall
+      ? sphereSettings.cueBallCharge
+      : options.charge ?? this.pickCharge();
+
+    const color = isCueBall
+      ? sphereSettings.cueBallColor
+      : options.color ?? this.pickColor(charge);
+
+    const archetype = isCueBall
+      ? sphereSettings.cueBallArchetype
+      : options.archetype ??
+        pickArchetype(this.random, sphereSettings.archetypeMix);
+    const { surface } = archetypeDefinitions[archetype];
+
+    const appearance = {
+      color,
+      metalness: isCueBall ? 0.8 : jitter(this.random, surface.metalness, 0.1),
+      roughness: isCueBall ? 0.1 : jitter(this.random, surface.roughness, 0.1),
+      emissiveScale: isCueBall ? 0.5 : this.chargeGlow(charge, 0.5),
+      emissiveIntensity: isCueBall
+        ? sphereSettings.cueBallEmissiveIntensity
+        : this.random.next() * 0.6 + 0.4,
+      clearcoat: isCueBall ? 1.0 : surface.clearcoat,
+      clearcoatRoughness: isCueBall ? 0.1 : surface.clearcoatRoughness,
+    };
+
+    const maxStartFraction =
+      sphereSettings.smallCount > CROWDED_START_COUNT ? 0.8 : 0;
+    const randomDir = new CANNON.Vec3(
+      this.random.next() * 2 - 1,
+      this.random.next() * 2 - 1,
+      this.random.next() * 2 - 1
+    );
+    randomDir.normalize();
+    const randomFraction = this.random.next() * maxStartFraction;
+    const position = options.position
+      ? new CANNON.Vec3(
+          options.position.x,
+          options.position.y,
+          options.position.z
+        )
+      : this.containerShape.interiorPoint(randomDir, randomFraction);
+
+    const light =
+      options.light ?? (isCueBall || this.random.next() > 0.3)
+        ? {
+            color,
+            intensity: isCueBall ? 3.0 : this.random.next() * 1.5 + 0.5,
+            distance: isCueBall ? 5 : 3,
+          }
+        : null;
+
+    const body = new CANNON.Body({
+      mass: isCueBall
+        ? sphereSettings.cueBallMass
+        : options.mass ?? archetypeMass(archetype, radius),
+      material: this.materials[archetype],
+      position,
+      linearDamping: this.damping,
+      angularDamping: this.damping,
+    });
+    body.addShape(new CANNON.Sphere(radius));
+    body.velocity.set(
+      (this.random.next() - 0.5) * 1.5,
+      (this.random.next() - 0.5) * 1.5,
+      (this.random.next() - 0.5) * 1.5
+    );
+    if (options.velocity) {
+      body.velocity.set(
+        options.velocity.x,
+        options.velocity.y,
+        options.velocity.z
+      );
+    }
+
+    return {
+      id: options.id ?? this.allocateId(),
+      body,
+      radius,
+      isCueBall,
+      archetype,
+      charge,
+      appearance,
+      light,
+      scale: 1,
+      spawnProgress: 1,
+      revision: 0,
+      lastSpeed: 0,
+      stationaryTime: 0,
+    };
+  }
+
+  private addSphere(sphere: SimSphere) {
+    this.registry.add(sphere);
+    this.trackSphere(sphere);
+
+    if (sphere.isCueBall) {
+      this.cueBallId = sphere.id;
+    }
+  }
+
+  private removeSphereEntity(id: number, reason: SphereRemovalReason) {
+    if (this.grab?.sphereId === id) {
+      this.releaseGrab();
+    }
+
+    const sphere = this.registry.remove(id);
+    if (!sphere) return false;
+
+    if (sphere.id === this.cueBallId) {
+      this.cueBallId = null;
+    }
+
+    this.popups.delete(sphere);
+    this.untrackSphere(sphere);
+    this.events.emit("sphereRemoved", {
+      id: sphere.id,
+      reason,
+      time: this.elapsed,
+    });
+
+    return true;
+  }
+
+  private restoreSphere(snapshot: SphereSnapshot): SimSphere {
+    const { body: state } = snapshot;
+    const body = new CANNON.Body({
+      mass: state.mass,
+      material: this.materials[snapshot.archetype],
+      position: toVec3(state.position),
+      velocity: toVec3(state.velocity),
+      angularVelocity: toVec3(state.angularVelocity),
+      linearDamping: this.damping,
+      angularDamping: this.damping,
+    });
+    body.addShape(new CANNON.Sphere(snapshot.radius));
+    // cannon derives inertia from the spawn-time bounding box, so it is
+    // restored as saved and rotated into the world frame like a new body
+    const { inertia } = state;
+    body.inertia.copy(toVec3(inertia));
+    body.invInertia.set(
+      inertia.x > 0 ? 1 / inertia.x : 0,
+      inertia.y > 0 ? 1 / inertia.y : 0,
+      inertia.z > 0 ? 1 / inertia.z : 0
+    );
+    body.updateInertiaWorld(true);
+    const { x, y, z, w } = state.quaternion;
+    body.quaternion.set(x, y, z, w);
+    body.force.copy(toVec3(state.force));
+    body.torque.copy(toVec3(state.torque));
+    if (state.kinematic) {
+      body.type = CANNON.Body.KINEMATIC;
+    }
+
+    const { body: _, ...sphere } = snapshot;
+    return {
+      ...sphere,
+      appearance: { ...snapshot.appearance },
+      light: snapshot.light && { ...snapshot.light },
+      body,
+    };
+  }
+
+  private sphereIds(bodies: CANNON.Body[]): number[] {
+    return bodies
+      .map((body) => this.sphereForBody(body)?.id)
+      .filter((id): id is number => id !== undefined);
+  }
+
+  private sphereForBody(body: CANNON.Body): SimSphere | undefined {
+    const pending = this.pending?.sphere;
+    return pending && pending.body === body
+      ? pending
+      : this.registry.getByBody(body);
+  }
+
+  // the pending sphere holds its id before it joins the registry
+  private isIdReserved(id: number): boolean {
+    return this.registry.has(id) || this.pending?.sphere.id === id;
+  }
+
+  private allocateId(): number {
+    while (this.isIdReserved(this.nextId)) {
+      this.nextId++;
+    }
+    return this.nextId++;
+  }
+
+  private pickRandomSphere(): SimSphere | undefined {
+    const candidates = this.registry.all.filter((sphere) => !sphere.isCueBall);
+    return candidates[this.random.int(candidates.length)];
+  }
+
+  private trackSphere(sphere: SimSphere) {
+    sphere.body.addEventListener("collide", this.handleCollide);
+    this.world.addBody(sphere.body);
+  }
+
+  private untrackSphere(sphere: SimSphere) {
+    sphere.body.removeEventListener("collide", this.handleCollide);
+    this.world.removeBody(sphere.body);
+  }
+
+  private readonly handleCollide = ({ target, contact }: CollideEvent) => {
+    const { accretion } = this.physicsSettings;
+    if (
+      contact.bi !== target ||
+      (!accretion && !this.events.hasListeners("collision"))
+    ) {
+      return;
+    }
+
+    const sphereA = this.registry.getByBody(contact.bi);
+    const sphereB = this.registry.getByBody(contact.bj);
+    if (!sphereA || !sphereB) return;
+
+    const impactSpeed = Math.abs(contact.getImpactVelocityAlongNormal());
+    if (accretion) {
+      this.impacts.push({ spheres: [sphereA, sphereB], speed: impactSpeed });
+    }
+
+    this.events.emit("collision", {
+      sphereA: sphereA.id,
+      sphereB: sphereB.id,
+      impactSpeed,
+      time: this.elapsed,
+    });
+  };
+
+  private createForceField(
+    input: ForceFieldInput,
+    id = this.nextFieldId++
+  ): ForceField {
+    const spec = resolveForceField(input);
+    const position = new CANNON.Vec3(
+      spec.position.x,
+      spec.position.y,
+      spec.position.z
+    );
+    constrainInside(this.containerShape, position, 0);
+
+    return {
+      ...spec,
+      id,
+      position: toVector3Like(position),
+      radius: Math.max(spec.radius, 0),
+    };
+  }
+
+  private emitForceFieldsChanged() {
+    this.events.emit("forceFieldsChanged", {
+      fields: this.fields,
+      time: this.elapsed,
+    });
+  }
+
+  private emitSpawned(sphere: SimSphere) {
+    this.events.emit("sphereSpawned", {
+      id: sphere.id,
+      radius: sphere.radius,
+      color: sphere.appearance.color,
+      position: toVector3Like(sphere.body.position),
+      time: this.elapsed,
+    });
+  }
+
+  private emitCueStrike(cueBall: SimSphere, power: number, automatic: boolean) {
+    this.events.emit("cueStrike", {
+      id: cueBall.id,
+      direction: toVector3Like(this.impulseDirection),
+      power,
+      automatic,
+      time: this.elapsed,
+    });
+  }
+
+  private applyCueBallImpulse(time: number) {
+    if (!this.autoStrike) return;
+    if (time - this.lastImpulseTime <= this.impulseInterval) return;
+
+    const cueBall = this.cueBall;
+    if (!cueBall) return;
+
+    const direction = randomUnitVector(this.random);
+    this.impulseDirection.copy(direction);
+
+    const impulseVector = direction.scale(
+      this.sphereSettings.cueBallImpulseFactor
+    );
+    const applicationOffset = new CANNON.Vec3(
+      (this.random.next() - 0.5) * 0.1,
+      (this.random.next() - 0.5) * 0.1,
+      (this.random.next() - 0.5) * 0.1
+    );
+    cueBall.body.applyImpulse(impulseVector, applicationOffset);
+
+    this.lastImpulseTime = time;
+    this.impulseInterval = 3000 + this.random.next() * 2000;
+    this.emitCueStrike(cueBall, this.sphereSettings.cueBallImpulseFactor, true);
+  }
+
+  private removeRandomSphere(time: number) {
+    if (this.registry.size <= 1) return;
+
+    const sphere = this.pickRandomSphere();
+    if (!sphere) return;
+
+    this.removeSphereEntity(sphere.id, "regeneration");
+    this.lastRegenerationTime = time;
+  }
+
+  private createNewSphere(time: number) {
+    const { sphereSettings: sphereConfig } = this;
+
+    const radius = this.random.range(
+      sphereConfig.smallMinRadius,
+      sphereConfig.smallMaxRadius
+    );
+    const charge = this.pickCharge();
+    const color = this.pickColor(charge);
+    const archetype = pickArchetype(
+      this.random,
+      sphereConfig.regenerationArchetypeMix
+    );
+    const { surface } = archetypeDefinitions[archetype];
+
+    const position = this.containerShape.interiorPoint(
+      randomUnitVector(this.random),
+      0.3
+    );
+
+    const body = new CANNON.Body({
+      mass: archetypeMass(archetype, radius),
+      material: this.materials[archetype],
+      position,
+      linearDamping: this.damping,
+      angularDamping: this.damping,
+    });
+    body.addShape(new CANNON.Sphere(radius));
+    body.type = CANNON.Body.KINEMATIC;
+
+    this.pending = {
+      sphere: {
+        id: this.allocateId(),
+        body,
+        radius,
+        isCueBall: false,
+        archetype,
+        charge,
+        appearance: {
+          color,
+          ...surface,
+          emissiveScale: this.chargeGlow(charge, 0.6),
+          emissiveIntensity: 0.7,
+        },
+        light: { color, intensity: 2.0, distance: 5 },
+        scale: 0.01,
+        spawnProgress: 0,
+        revision: 0,
+        lastSpeed: 0,
+        stationaryTime: 0,
+      },
+      startTime: time,
+    };
+    this.trackSphere(this.pending.sphere);
+  }
+
+  private updateNewSphereAnimation(time: number) {
+    const pending = this.pending;
+    if (!pending) return;
+
+    const { sphere } = pending;
+    const elapsed = time - pending.startTime;
+    const duration = this.sphereSettings.popupDuration;
+
+    if (elapsed <= duration) {
+      const progress = elapsed / duration;
+      sphere.spawnProgress = progress;
+      sphere.scale = this.popupScaleAt(progress);
+      return;
+    }
+
+    sphere.scale = 1;
+    sphere.spawnProgress = 1;
+    sphere.body.type = CANNON.Body.DYNAMIC;
+
+    const impulseVector = randomUnitVector(this.random).scale(
+      this.sphereSettings.newSphereImpulseFactor
+    );
+    sphere.body.applyImpulse(impulseVector, sphere.body.position);
+
+    this.pending = null;
+    this.registry.add(sphere);
+    this.emitSpawned(sphere);
+  }
+
+  private updatePopups(time: number) {
+    const duration = this.sphereSettings.popupDuration;
+
+    this.popups.forEach((startTime, sphere) => {
+      const progress = Math.min((time - startTime) / duration, 1);
+      sphere.spawnProgress = progress;
+
+      if (progress < 1) {
+        sphere.scale = this.popupScaleAt(progress);
+      } else {
+        sphere.scale = 1;
+        this.popups.delete(sphere);
+      }
+    });
+  }
+
+  private popupScaleAt(progress: number): number {
+    return easeOutElastic(progress) * this.sphereSettings.popupScale;
+  }
+
+  private canAccrete(sphere: SimSphere): boolean {
+    return (
+      !sphere.isCueBall &&
+      sphere.id !== this.grabbedSphereId &&
+      !this.popups.has(sphere)
+    );
+  }
+
+  private resolveImpacts() {
+    const impacts = this.impacts;
+    this.impacts = [];
+    if (!this.physicsSettings.accretion) return;
+
+    const { mergeSpeed, fragmentSpeed } = this.physicsSettings;
+
+    impacts.forEach(({ spheres, speed }) => {
+      if (!spheres.every(({ id }) => this.registry.has(id))) return;
+
+      const candidates = spheres.filter((sphere) => this.canAccrete(sphere));
+
+      if (speed >= fragmentSpeed) {
+        const [lighter] = candidates.sort((a, b) => a.body.mass - b.body.mass);
+        if (lighter) this.fragmentSphere(lighter, speed);
+      } else if (speed <= mergeSpeed && candidates.length === 2) {
+        this.mergeSpheres(candidates[0], candidates[1]);
+      }
+    });
+  }
+
+  private mergeSpheres(a: SimSphere, b: SimSphere) {
+    const mass = a.body.mass + b.body.mass;
+    const weight = b.body.mass / mass;
+
+    const merged = this.createSphere(false, {
+      position: a.body.position
+        .scale(1 - weight)
+        .vadd(b.body.position.scale(weight)),
+      velocity: a.body.velocity
+        .scale(1 - weight)
+        .vadd(b.body.velocity.scale(weight)),
+      radius: Math.cbrt(a.radius ** 3 + b.radius ** 3),
+      mass,
+      archetype: weight > 0.5 ? b.archetype : a.archetype,
+      charge: a.charge + b.charge,
+      color: blendColors(a.appearance.color, b.appearance.color, weight),
+      light: a.light !== null || b.light !== null,
+    });
+
+    this.removeSphereEntity(a.id, "merged");
+    this.removeSphereEntity(b.id, "merged");
+    this.addSphere(merged);
+    this.emitSpawned(merged);
+    this.events.emit("sphereMerged", {
+      id: merged.id,
+      sources: [a.id, b.id],
+      radius: merged.radius,
+      time: this.elapsed,
+    });
+  }
+
+  private fragmentSphere(sphere: SimSphere, impactSpeed: number) {
+    const { fragmentCount, minFragmentRadius } = this.physicsSettings;
+    const population = this.registry.size + (this.pending ? 1 : 0);
+    const count = Math.min(
+      Math.floor(fragmentCount),
+      this.sphereSettings.smallCount - population + 1
+    );
+    const radius = sphere.radius / Math.cbrt(count);
+    if (count < 2 || radius < minFragmentRadius) return;
+
+    const { body } = sphere;
+    const directions = Array.from({ length: count }, () =>
+      randomUnitVector(this.random)
+    );
+    const drift = directions
+      .reduce((sum, direction) => sum.vadd(direction), new CANNON.Vec3())
+      .scale(1 / count);
+    const burst = impactSpeed * FRAGMENT_BURST;
+
+    this.removeSphereEntity(sphere.id, "fragmented");
+
+    const fragments = directions.map((direction) => {
+      const fragment = this.createSphere(false, {
+        position: body.position.vadd(direction.scale(sphere.radius - radius)),
+        velocity: body.velocity.vadd(direction.vsub(drift).scale(burst)),
+        radius,
+        mass: body.mass / count,
+        archetype: sphere.archetype,
+        charge: sphere.charge / count,
+        color: sphere.appearance.color,
+        light: sphere.light !== null,
+      });
+      fragment.scale = 0.01;
+      fragment.spawnProgress = 0;
+      this.popups.set(fragment, this.elapsed);
+
+      this.addSphere(fragment);
+      this.emitSpawned(fragment);
+      return fragment.id;
+    });
+
+    this.events.emit("sphereFragmented", {
+      id: sphere.id,
+      fragments,
+      impactSpeed,
+      time: this.elapsed,
+    });
+  }
+
+  private updateGrab() {
+    const { grab } = this;
+    if (!grab) return;
+
+    const { anchor, target, velocity } = grab;
+    target.vsub(anchor.position, anchor.velocity);
+    anchor.velocity.scale(1 / this.physicsSettings.timeStep, anchor.velocity);
+    velocity.lerp(anchor.velocity, GRAB_VELOCITY_SMOOTHING, velocity);
+  }
+
+  private applyMutualGravity() {
+    const {
+      mutualGravity,
+      gravitySoftening,
+      barnesHutTheta,
+      barnesHutThreshold,
+    } = this.physicsSettings;
+    if (mutualGravity === 0) return;
+
+    const bodies = this.registry.all
+      .filter((sphere) => !sphere.isCueBall)
+      .map(({ body }) => body);
+    const forces = computeGravity(
+      bodies.map(({ position, mass }) => ({
+        x: position.x,
+        y: position.y,
+        z: position.z,
+        mass,
+      })),
+      {
+        constant: mutualGravity,
+        softening: gravitySoftening,
+        theta: barnesHutTheta,
+        threshold: barnesHutThreshold,
+      }
+    );
+
+    bodies.forEach((body, index) => {
+      const { x, y, z } = forces[index];
+      body.applyForce(new CANNON.Vec3(x, y, z));
+    });
+  }
+
+  private applyElectrostatics() {
+    const { coulombConstant, chargeSoftening, chargeCutoff } =
+      this.physicsSettings;
+    if (coulombConstant === 0) return;
+
+    const charged = this.registry.all.filter(({ charge }) => charge !== 0);
+    if (charged.length < 2) return;
+
+    const forces = coulombForces(
+      charged.map(({ body: { position }, charge }) => ({
+        x: position.x,
+        y: position.y,
+        z: position.z,
+        charge,
+      })),
+      {
+        constant: coulombConstant,
+        softening: chargeSoftening,
+        cutoff: chargeCutoff,
+      }
+    );
+
+    charged.forEach(({ body }, index) => {
+      const { x, y, z } = forces[index];
+      body.applyForce(new CANNON.Vec3(x, y, z));
+    });
+  }
+
+  private applyForceFields() {
+    if (this.fields.length === 0) return;
+
+    this.registry.all.forEach((sphere) => {
+      if (sphere.id === this.grabbedSphereId) return;
+
+      const { body } = sphere;
+      const force = new CANNON.Vec3(0, 0, 0);
+      this.fields.forEach((field) => {
+        const { x, y, z } = fieldAcceleration(field, body.position);
+        force.x += x * body.mass;
+        force.y += y * body.mass;
+        force.z += z * body.mass;
+      });
+      body.applyForce(force);
+    });
+  }
+
+  private applyFluid() {
+    const { fluidSettings } = this;
+    if (!fluidSettings.enabled) return;
+
+    const { timeStep } = this.physicsSettings;
+    const { surfaceNormal, surfaceVelocity } = this;
+    const spring = this.fluidUp
+      .vsub(surfaceNormal)
+      .scale(fluidSettings.sloshStiffness)
+      .vsub(surfaceVelocity.scale(fluidSettings.sloshDamping));
+    surfaceVelocity.vadd(spring.scale(timeStep), surfaceVelocity);
+    surfaceNormal.vadd(surfaceVelocity.scale(timeStep), surfaceNormal);
+    surfaceNormal.normalize();
+
+    this.surfaceLevel = surfaceHeight(
+      this.containerShape,
+      surfaceNormal,
+      fluidSettings.fillLevel
+    );
+    const surface = { normal: surfaceNormal, height: this.surfaceLevel };
+
+    this.registry.all.forEach((sphere) => {
+      if (sphere.id === this.grabbedSphereId) return;
+
+      const { x, y, z } = fluidForce(
+        fluidSettings,
+        surface,
+        this.fluidUp,
+        sphere.body,
+        sphere.radius,
+        timeStep
+      );
+      sphere.body.applyForce(new CANNON.Vec3(x, y, z));
+    });
+  }
+
+  private pickCharge(): number {
+    const { chargedFraction, chargeMagnitude } = this.sphereSettings;
+    if (chargedFraction <= 0 || this.random.next() >= chargedFraction) return 0;
+
+    return this.random.next() < 0.5 ? chargeMagnitude : -chargeMagnitude;
+  }
+
+  private pickColor(charge: number): number {
+    return this.sphereSettings.chargedFraction > 0
+      ? chargeColor(this.random, charge)
+      : generateVibrantColor(this.random);
+  }
+
+  private chargeGlow(charge: number, base: number): number {
+    const { chargedFraction, chargeMagnitude } = this.sphereSettings;
+    if (chargedFraction <= 0) return base;
+    if (charge === 0) return base * 0.5;
+
+    return Math.min(base * (1 + Math.abs(charge) / chargeMagnitude), 1);
+  }
+
+  private kickSlowSpheres() {
+    this.registry.all.forEach(({ body, isCueBall }) => {
+      if (isCueBall || this.random.next() <= 0.5) return;
+
+      if (body.velocity.length() < 0.8) {
+        const randomImpulse = new CANNON.Vec3(
+          (this.random.next() - 0.5) * 0.8,
+          (this.random.next() - 0.5) * 0.8,
+          (this.random.next() - 0.5) * 0.8
+        );
+        body.applyImpulse(randomImpulse, body.position);
+      }
+    });
+  }
+
+  private kickStationarySpheres(deltaTime: number) {
+    this.registry.all.forEach((sphere) => {
+      if (sphere.isCueBall || sphere.id === this.grabbedSphereId) return;
+
+      const { body } = sphere;
+      const currentSpeed = body.velocity.length();
+      const velocityChange = Math.abs(currentSpeed - sphere.lastSpeed);
+
+      if (currentSpeed < 0.3 && velocityChange < 0.05) {
+        sphere.stationaryTime += deltaTime;
+
+        if (sphere.stationaryTime > STATIONARY_KICK_DELAY) {
+          const toCenter = this.containerShape
+            .core(body.position)
+            .vsub(body.position);
+          toCenter.normalize();
+
+          const randomDir = new CANNON.Vec3(
+            (this.random.next() - 0.5) * 2,
+            (this.random.next() - 0.5) * 2,
+            (this.random.next() - 0.5) * 2
+          );
+          randomDir.normalize();
+
+          const finalDir = toCenter.scale(0.8).vadd(randomDir.scale(0.2));
+          finalDir.normalize();
+
+          const impulseStrength = 8 + this.random.next() * 6;
+          body.applyImpulse(finalDir.scale(impulseStrength), body.position);
+          sphere.stationaryTime = 0;
+        }
+      } else {
+        sphere.stationaryTime = 0;
+      }
+
+      sphere.lastSpeed = currentSpeed;
+    });
+  }
+
+  private applyBoundary() {
+    const { physicsSettings: physicsConfig } = this;
+    const handler = boundaryHandlers[physicsConfig.boundaryMode];
+    const context = { shape: this.containerShape, physics: physicsConfig };
+    const removed: { id: number; reason: SphereRemovalReason }[] = [];
+
+    this.registry.all.forEach((sphere) => {
+      const { body } = sphere;
+      const outcome = handler(sphere, context);
+
+      if (outcome !== "contained") {
+        if (outcome === "escaped") {
+          this.events.emit("sphereEscaped", {
+            id: sphere.id,
+            isCueBall: sphere.isCueBall,
+            position: toVector3Like(body.position),
+            time: this.elapsed,
+          });
+        }
+
+        if (!sphere.isCueBall) {
+          removed.push({ id: sphere.id, reason: outcome });
+        } else {
+          this.recenterCueBall(sphere);
+        }
+        return;
+      }
+
+      const toCore = this.containerShape
+        .core(body.position)
+        .vsub(body.position);
+      const distanceToCore = toCore.length();
+      if (distanceToCore > 0) {
+        body.applyForce(
+          toCore.scale(physicsConfig.centralGravityStrength / distanceToCore),
+          new CANNON.Vec3(0, 0, 0)
+        );
+      }
+
+      const currentVelocity = body.velocity.length();
+      if (currentVelocity > MAX_VELOCITY) {
+        body.velocity.scale(MAX_VELOCITY / currentVelocity, body.velocity);
+      }
+    });
+
+    removed.forEach(({ id, reason }) => this.removeSphereEntity(id, reason));
+  }
+
+  private recenterCueBall({ body }: SimSphere) {
+    const direction = body.position.clone();
+    direction.normalize();
+
+    body.position.copy(this.containerShape.interiorPoint(direction, 0.63));
+    body.velocity.set(0, 0, 0);
+  }
+
+  private rebuildContainer() {
+    this.containerShape = createContainerShape(
+      this.containerSettings,
+      this.sphereSettings.mainRadius
+    );
+  }
+  private findPocket(sphere: SimSphere, position: CANNON.Vec3): number {
+    if (!this.pocketTable) return -1;
+
+    return this.pocketTable.pockets.findIndex((pocket) => {
+      if (sphere.radius >= pocket.radius) return false;
+
+      const axis = new CANNON.Vec3(
+        pocket.position.x,
+        pocket.position.y,
+        pocket.position.z
+      );
+      axis.normalize();
+      const along = position.dot(axis);
+      if (along <= 0) return false;
+
+      return position.vsub(axis.scale(along)).length() < pocket.radius;
+    });
+  }
+
+  private applyPocketBoundary() {
+    const { containerShape: shape, physicsSettings } = this;
+    const potted: { sphere: SimSphere; pocket: number }[] = [];
+
+    this.registry.all.forEach((sphere) => {
+      const { body } = sphere;
+      const surfaceDistance = shape.distance(body.position);
+      if (surfaceDistance + sphere.radius <= -shape.size * 0.2) return;
+
+      const pocket = this.findPocket(sphere, body.position);
+
+      if (pocket >= 0) {
+        if (
+          surfaceDistance >
+          shape.size * (physicsSettings.exitThreshold - 1)
+        ) {
+          potted.push({ sphere, pocket });
+        } else if (surfaceDistance + sphere.radius > 0) {
+          body.applyForce(
+            shape.normal(body.position).scale(POCKET_PULL * body.mass)
+          );
+        }
+        return;
+      }
+
+      reflectFromShell(body, shape, sphere.radius, physicsSettings.restitution);
+
+      const currentVelocity = body.velocity.length();
+      if (currentVelocity > MAX_VELOCITY) {
+        body.velocity.scale(MAX_VELOCITY / currentVelocity, body.velocity);
+      }
+    });
+
+    potted.forEach(({ sphere, pocket }) => {
+      this.events.emit("spherePotted", {
+        id: sphere.id,
+        isCueBall: sphere.isCueBall,
+        radius: sphere.radius,
+        color: sphere.appearance.color,
+        pocket,
+        time: this.elapsed,
+      });
+
+      if (sphere.isCueBall) {
+        sphere.body.position.copy(shape.interiorPoint({ x: 1, y: 0, z: 0 }, 0));
+        sphere.body.velocity.set(0, 0, 0);
+        sphere.body.angularVelocity.set(0, 0, 0);
+      } else {
+        this.removeSphereEntity(sphere.id, "potted");
+      }
+    });
+  }
+}
+
+export type SimulationController = Pick<
+  SphereSimulation,
+  | "seed"
+  | "time"
+  | "paused"
+  | "timeScale"
+  | "autoCueStrike"
+  | "nextCueStrikeIn"
+  | "lastStepDuration"
+  | "kineticEnergy"
+  | "physicsConfig"
+  | "sphereConfig"
+  | "containerConfig"
+  | "container"
+  | "fluidConfig"
+  | "fluidSurface"
+  | "spheres"
+  | "pendingSphere"
+  | "cueBall"
+  | "table"
+  | "forceFields"
+  | "grabbedSphereId"
+  | "on"
+  | "pause"
+  | "resume"
+  | "step"
+  | "singleStep"
+  | "setPhysicsConfig"
+  | "setSphereConfig"
+  | "setContainerConfig"
+  | "setFluidConfig"
+  | "setFluidDown"
+  | "setTable"
+  | "addForceField"
+  | "updateForceField"
+  | "removeForceField"
+  | "setForceFields"
+  | "reset"
+  | "spawnSphere"
+  | "removeSphere"
+  | "strikeCueBall"
+  | "predictCueContact"
+  | "getState"
+  | "captureSnapshot"
+  | "importSnapshot"
+  | "startRecording"
+  | "stopRecording"
+  | "grabSphere"
+  | "moveGrab"
+  | "releaseGrab"
+  | "dispose"
+>;
@@ -0,0 +1,236 @@
+import { SimulationEvents } from "./events";
+import { SimulationServer } from "./SimulationServer";
+import { SphereSimulation, SphereSimulationOptions } from "./SphereSimulation";
+import { RESERVED_SPHERE_ID_BASE, WorkerSimulation } from "./WorkerSimulation";
+import { MessageEndpoint } from "./workerProtocol";
+
+type Handler = (event: MessageEvent) => void;
+
+const createChannel = (): [MessageEndpoint, MessageEndpoint] => {
+  const handlers: [Set<Handler>, Set<Handler>] = [new Set(), new Set()];
+  const endpoint = (own: number): MessageEndpoint => ({
+    postMessage: (data) =>
+      handlers[1 - own].forEach((handler) => handler({ data } as MessageEvent)),
+    addEventListener: (_, handler) => handlers[own].add(handler),
+    removeEventListener: (_, handler) => handlers[own].delete(handler),
+  });
+  return [endpoint(0), endpoint(1)];
+};
+
+const connect = (options: SphereSimulationOptions) => {
+  const [client, worker] = createChannel();
+  const server = new SimulationServer(worker);
+  const simulation = new WorkerSimulation(client, options);
+  return { server, simulation };
+};
+
+const stepMs = 1000 / 60;
+
+describe("WorkerSimulation", () => {
+  it("mirrors the worker's spheres and clock", () => {
+    const { simulation } = connect({ seed: 101 });
+    const local = new SphereSimulation({ seed: 101 });
+
+    for (let i = 0; i < 30; i++) {
+      simulation.step(stepMs);
+      local.step(stepMs);
+    }
+    simulation.step(0);
+
+    expect(simulation.seed).toBe(101);
+    expect(simulation.time).toBeCloseTo(local.time);
+    expect(simulation.spheres.map(({ id }) => id)).toEqual(
+      local.spheres.map(({ id }) => id)
+    );
+    expect(simulation.cueBall?.id).toBe(local.cueBall?.id);
+    expect(simulation.getState().spheres.map(({ radius }) => radius)).toEqual(
+      local.getState().spheres.map(({ radius }) => radius)
+    );
+  });
+
+  it("forwards simulation events after applying the frame", () => {
+    const { simulation } = connect({ seed: 102 });
+    const spawned: SimulationEvents["sphereSpawned"][] = [];
+    simulation.on("sphereSpawned", (event) => {
+      expect(simulation.spheres.some(({ id }) => id === event.id)).toBe(true);
+      spawned.push(event);
+    });
+
+    const id = simulation.spawnSphere({ position: { x: 0, y: 1, z: 0 } });
+    simulation.step(stepMs);
+    simulation.step(stepMs);
+
+    expect(id).toBe(RESERVED_SPHERE_ID_BASE);
+    expect(spawned.map((event) => event.id)).toContain(id);
+  });
+
+  it("predicts force field ids and publishes the confirmed list", () => {
+    const { simulation } = connect({
+      seed: 103,
+      forceFields: [{ type: "wind", position: { x: 0, y: 0, z: 0 } }],
+    });
+    const changes: number[][] = [];
+    simulation.on("forceFieldsChanged", ({ fields }) =>
+      changes.push(fields.map((field) => field.id))
+    );
+
+    simulation.step(stepMs);
+    const id = simulation.addForceField({
+      type: "vortex",
+      position: { x: 1, y: 0, z: 0 },
+    });
+    expect(simulation.updateForceField(id, { strength: 3 })).toBe(true);
+    simulation.step(stepMs);
+    simulation.step(stepMs);
+
+    expect(id).toBe(2);
+    expect(changes).toEqual([[1], [1, 2]]);
+    expect(simulation.forceFields[1].strength).toBe(3);
+  });
+
+  it("keeps a grab until the worker drops it", () => {
+    const { simulation } = connect({ seed: 104 });
+    simulation.step(stepMs);
+    const target = simulation.spheres.find((sphere) => !sphere.isCueBall)!;
+
+    expect(simulation.grabSphere(target.id)).toBe(true);
+    expect(simulation.grabbedSphereId).toBe(target.id);
+    simulation.step(stepMs);
+    simulation.step(stepMs);
+    expect(simulation.grabbedSphereId).toBe(target.id);
+
+    expect(simulation.removeSphere(target.id)).toBe(true);
+    simulation.step(stepMs);
+    simulation.step(stepMs);
+    expect(simulation.grabbedSphereId).toBeNull();
+    expect(simulation.spheres.some(({ id }) => id === target.id)).toBe(false);
+  });
+
+  it("holds still while paused but single-steps one fixed step", () => {
+    const { simulation } = connect({ seed: 105 });
+    simulation.step(stepMs);
+    simulation.pause();
+    simulation.step(stepMs * 5);
+    simulation.step(stepMs);
+    const time = simulation.time;
+
+    simulation.singleStep();
+    simulation.step(stepMs);
+    expect(simulation.step(stepMs)).toBe(1);
+    expect(simulation.time).toBeCloseTo(time + stepMs);
+  });
+
+  it("captures and imports snapshots through the worker", async () => {
+    const { simulation } = connect({ seed: 107 });
+    for (let i = 0; i < 20; i++) {
+      simulation.step(stepMs);
+    }
+    const snapshot = await simulation.captureSnapshot();
+    expect(snapshot.seed).toBe(107);
+
+    const { simulation: restored } = connect({ seed: 7 });
+    const imported = jest.fn();
+    restored.on("snapshotImported", imported);
+    restored.importSnapshot(snapshot);
+    restored.step(stepMs);
+    restored.step(0);
+
+    expect(imported).toHaveBeenCalledTimes(1);
+    expect(restored.seed).toBe(107);
+    expect(restored.time).toBeCloseTo(snapshot.time + stepMs);
+    expect(restored.spheres.map(({ id }) => id)).toEqual(
+      snapshot.spheres.map(({ id }) => id)
+    );
+  });
+
+  it("rejects sphere ids the mirror or an unconfirmed spawn holds", () => {
+    const { simulation } = connect({ seed: 108 });
+    simulation.step(stepMs);
+    const [existing] = simulation.spheres;
+
+    expect(() => simulation.spawnSphere({ id: existing.id })).toThrow(
+      `Sphere ${existing.id} is already registered`
+    );
+    expect(simulation.spawnSphere({ id: 500 })).toBe(500);
+    expect(() => simulation.spawnSphere({ id: 500 })).toThrow(
+      "Sphere 500 is already registered"
+    );
+    expect(() => simulation.spawnSphere({ id: 123456789 })).toThrow(
+      "Sphere id 123456789 must be an integer from 1 to 16777216"
+    );
+  });
+
+  it("grabs and removes spheres the worker has not confirmed yet", () => {
+    const { simulation } = connect({ seed: 111 });
+    simulation.step(stepMs);
+
+    const grabbed = simulation.spawnSphere();
+    expect(simulation.grabSphere(grabbed)).toBe(true);
+    const removed = simulation.spawnSphere();
+    expect(simulation.removeSphere(removed)).toBe(true);
+    simulation.step(stepMs);
+    simulation.step(stepMs);
+
+    expect(simulation.grabbedSphereId).toBe(grabbed);
+    expect(simulation.spheres.some(({ id }) => id === removed)).toBe(false);
+    expect(simulation.spheres.some(({ id }) => id === grabbed)).toBe(true);
+  });
+
+  it("reports worker failures without stalling the frame loop", async () => {
+    const { simulation } = connect({ seed: 109 });
+    const errors: SimulationEvents["simulationError"][] = [];
+    simulation.on("simulationError", (event) => errors.push(event));
+    simulation.step(stepMs);
+
+    const step = jest
+      .spyOn(SphereSimulation.prototype, "step")
+      .mockImplementationOnce(() => {
+        throw new Error("step exploded");
+      });
+    simulation.step(stepMs);
+    simulation.step(stepMs);
+    simulation.step(stepMs);
+    step.mockRestore();
+
+    expect(errors).toEqual([
+      { command: "step", message: "step exploded", time: expect.any(Number) },
+    ]);
+    expect(simulation.time).toBeCloseTo(stepMs * 2);
+
+    jest
+      .spyOn(SphereSimulation.prototype, "exportSnapshot")
+      .mockImplementationOnce(() => {
+        throw new Error("no snapshot");
+      });
+    await expect(simulation.captureSnapshot()).rejects.toThrow("no snapshot");
+    expect(errors).toHaveLength(1);
+  });
+
+  it("records the worker's fixed steps rather than mirrored frames", async () => {
+    const { simulation } = connect({ seed: 110 });
+    simulation.timeScale = 2;
+    simulation.step(stepMs);
+    simulation.step(0);
+    simulation.startRecording();
+    let steps = 0;
+    for (let i = 0; i < 20; i++) {
+      steps += simulation.step(stepMs);
+    }
+    const recording = await simulation.stopRecording();
+    steps += simulation.step(0);
+
+    expect(steps).toBe(40);
+    expect(recording?.times).toHaveLength(steps + 1);
+  });
+
+  it("stops talking to the worker once disposed", () => {
+    const { simulation } = connect({ seed: 106 });
+    const removed = jest.fn();
+    simulation.on("sphereRemoved", removed);
+    simulation.step(stepMs);
+
+    simulation.dispose();
+    expect(() => simulation.step(stepMs)).not.toThrow();
+    expect(removed).not.toHaveBeenCalled();
+  });
+});
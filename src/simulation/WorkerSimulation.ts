@@ -0,0 +1,711 @@
+import { predictFirstContact } from "./aim";
+import {
+  ContainerConfig,
+  FluidConfig,
+  PhysicsConfig,
+  SphereConfig,
+  resolveContainerConfig,
+  resolveFluidConfig,
+  resolvePhysicsConfig,
+  resolveSphereConfig,
+  shallowEqual,
+} from "./config";
+import { ContainerShape, createContainerShape } from "./container";
+import {
+  EventEmitter,
+  Listener,
+  SimulationEventRecord,
+  SimulationEvents,
+} from "./events";
+import { FluidSurface } from "./fluid";
+import { ForceField, ForceFieldInput, ForceFieldSpec } from "./forceFields";
+import { randomSeed } from "./random";
+import { Recording } from "./recording";
+import { RecorderOptions } from "./SimulationRecorder";
+import { SimulationSnapshot } from "./snapshot";
+import {
+  MAX_TIME_SCALE,
+  MIN_TIME_SCALE,
+  SimulationController,
+  SphereSimulationOptions,
+} from "./SphereSimulation";
+import {
+  MAX_PACKED_ID,
+  TRANSFORM_STRIDE,
+  interpolateTransforms,
+  isPackableId,
+  transformRows,
+  writeTransforms,
+} from "./transforms";
+import {
+  ContactPrediction,
+  PocketTable,
+  SimSphere,
+  SimulationState,
+  SpawnSphereOptions,
+  Vector3Like,
+} from "./types";
+import {
+  ErrorReply,
+  MessageEndpoint,
+  SimulationCommand,
+  SimulationFrame,
+  SimulationReply,
+  SphereDescriptor,
+  mirrorSphere,
+} from "./workerProtocol";
+
+// ids handed out before the worker confirms a spawn, far above its own counter
+export const RESERVED_SPHERE_ID_BASE = 0x100000;
+
+interface PendingRequest<T> {
+  resolve: (value: T) => void;
+  reject: (error: Error) => void;
+}
+
+const toVector3Like = ({ x, y, z }: Vector3Like): Vector3Like => ({ x, y, z });
+
+const canShareMemory = () =>
+  typeof SharedArrayBuffer !== "undefined" &&
+  typeof crossOriginIsolated !== "undefined" &&
+  crossOriginIsolated;
+
+export class WorkerSimulation implements SimulationController {
+  private currentSeed: number;
+  private physicsSettings: PhysicsConfig;
+  private sphereSettings: SphereConfig;
+  private containerSettings: ContainerConfig;
+  private containerShape: ContainerShape;
+  private fluidSettings: FluidConfig;
+  private pocketTable: PocketTable | null = null;
+
+  private readonly events = new EventEmitter<SimulationEvents>();
+  private readonly mirror = new Map<number, SimSphere>();
+  private list: SimSphere[] = [];
+  private pending: SimSphere | null = null;
+  private cueBallId: number | null = null;
+  private grabbedId: number | null = null;
+  private fields: readonly ForceField[] = [];
+  private announcedFields: readonly ForceField[] = [];
+  private readonly unconfirmedFields = new Set<number>();
+  private nextFieldId: number;
+  private readonly unconfirmedSpheres = new Set<number>();
+  private nextSphereId = RESERVED_SPHERE_ID_BASE;
+  private surface: FluidSurface | null = null;
+  private strikeIn: number | null = null;
+  private energy = 0;
+  private stepDuration = 0;
+  private fluidDown: Vector3Like | null = null;
+  private elapsed = 0;
+  private alpha = 0;
+  private scale = 1;
+  private isPaused = false;
+  private autoStrike = true;
+
+  private readonly shared: boolean;
+  private readonly frames: SimulationFrame[] = [];
+  private readonly snapshotRequests = new Map<
+    number,
+    PendingRequest<SimulationSnapshot>
+  >();
+  private readonly recordingRequests = new Map<
+    number,
+    PendingRequest<Recording | null>
+  >();
+  private nextRequest = 1;
+  private sent = 0;
+  private awaitingFrame = false;
+  private queuedDelta = 0;
+  private recycle: ArrayBuffer | null = null;
+  private previous = new Float32Array(0);
+  private previousCount = 0;
+  private latest = new Float32Array(0);
+  private latestCount = 0;
+  private interpolated = new Float32Array(0);
+
+  constructor(
+    private readonly endpoint: MessageEndpoint,
+    options: SphereSimulationOptions = {}
+  ) {
+    this.currentSeed = (options.seed ?? randomSeed()) >>> 0;
+    this.physicsSettings = resolvePhysicsConfig(options.physicsConfig);
+    this.sphereSettings = resolveSphereConfig(options.sphereConfig);
+    this.containerSettings = resolveContainerConfig(options.container);
+    this.fluidSettings = resolveFluidConfig(options.fluid);
+    this.containerShape = createContainerShape(
+      this.containerSettings,
+      this.sphereSettings.mainRadius
+    );
+    this.nextFieldId = (options.forceFields?.length ?? 0) + 1;
+    this.shared = canShareMemory();
+
+    endpoint.addEventListener("message", this.handleMessage);
+    this.send({
+      type: "init",
+      options: { ...options, seed: this.seed },
+      shared: this.shared,
+    });
+  }
+
+  get seed(): number {
+    return this.currentSeed;
+  }
+
+  get physicsConfig(): Readonly<PhysicsConfig> {
+    return this.physicsSettings;
+  }
+
+  get sphereConfig(): Readonly<SphereConfig> {
+    return this.sphereSettings;
+  }
+
+  get containerConfig(): Readonly<ContainerConfig> {
+    return this.containerSettings;
+  }
+
+  get container(): ContainerShape {
+    return this.containerShape;
+  }
+
+  get fluidConfig(): Readonly<FluidConfig> {
+    return this.fluidSettings;
+  }
+
+  get fluidSurface(): FluidSurface | null {
+    return this.fluidSettings.enabled ? this.surface : null;
+  }
+
+  get spheres(): readonly SimSphere[] {
+    return this.list;
+  }
+
+  get pendingSphere(): SimSphere | null {
+    return this.pending;
+  }
+
+  get cueBall(): SimSphere | null {
+    return this.cueBallId === null
+      ? null
+      : this.mirror.get(this.cueBallId) ?? null;
+  }
+
+  get time(): number {
+    return this.elapsed;
+  }
+
+  get table(): Readonly<PocketTable> | null {
+    return this.pocketTable;
+  }
+
+  get forceFields(): readonly ForceField[] {
+    return this.fields;
+  }
+
+  get grabbedSphereId(): number | null {
+    return this.grabbedId;
+  }
+
+  get autoCueStrike(): boolean {
+    return this.autoStrike;
+  }
+
+  set autoCueStrike(value: boolean) {
+    this.autoStrike = value;
+    this.send({ type: "set", property: "autoCueStrike", value });
+  }
+
+  get nextCueStrikeIn(): number | null {
+    return this.autoStrike ? this.strikeIn : null;
+  }
+
+  get kineticEnergy(): number {
+    return this.energy;
+  }
+
+  get lastStepDuration(): number {
+    return this.stepDuration;
+  }
+
+  get paused(): boolean {
+    return this.isPaused;
+  }
+
+  get timeScale(): number {
+    return this.scale;
+  }
+
+  set timeScale(value: number) {
+    this.scale = Math.min(Math.max(value, MIN_TIME_SCALE), MAX_TIME_SCALE);
+    this.send({ type: "set", property: "timeScale", value: this.scale });
+  }
+
+  on<K extends keyof SimulationEvents>(
+    type: K,
+    listener: Listener<SimulationEvents[K]>
+  ): () => void {
+    return this.events.on(type, listener);
+  }
+
+  pause() {
+    this.isPaused = true;
+    this.send({ type: "call", method: "pause", args: [] });
+  }
+
+  resume() {
+    this.isPaused = false;
+    this.send({ type: "call", method: "resume", args: [] });
+  }
+
+  step(deltaTime: number): number {
+    this.queuedDelta += Math.max(deltaTime, 0);
+    const substeps = this.applyFrames();
+
+    if (!this.awaitingFrame) {
+      const { recycle } = this;
+      this.recycle = null;
+      this.awaitingFrame = true;
+      this.send(
+        { type: "step", deltaTime: this.queuedDelta, recycle },
+        recycle ? [recycle] : []
+      );
+      this.queuedDelta = 0;
+    }
+
+    return substeps;
+  }
+
+  singleStep() {
+    this.send({ type: "call", method: "singleStep", args: [] });
+  }
+
+  setPhysicsConfig(changes: Partial<PhysicsConfig>) {
+    const next = { ...this.physicsSettings, ...changes };
+    if (shallowEqual(next, this.physicsSettings)) return;
+
+    this.physicsSettings = next;
+    this.send({ type: "call", method: "setPhysicsConfig", args: [changes] });
+  }
+
+  setSphereConfig(changes: Partial<SphereConfig>) {
+    const previous = this.sphereSettings;
+    const next = { ...previous, ...changes };
+    if (shallowEqual(next, previous)) return;
+
+    this.sphereSettings = next;
+    if (next.mainRadius !== previous.mainRadius) {
+      this.rebuildContainer();
+    }
+    this.send({ type: "call", method: "setSphereConfig", args: [changes] });
+  }
+
+  setContainerConfig(changes: Partial<ContainerConfig>) {
+    const next = { ...this.containerSettings, ...changes };
+    if (shallowEqual(next, this.containerSettings)) return;
+
+    this.containerSettings = next;
+    this.rebuildContainer();
+    this.send({ type: "call", method: "setContainerConfig", args: [changes] });
+  }
+
+  setFluidConfig(changes: Partial<FluidConfig>) {
+    const next = { ...this.fluidSettings, ...changes };
+    if (shallowEqual(next, this.fluidSettings)) return;
+
+    this.fluidSettings = next;
+    this.send({ type: "call", method: "setFluidConfig", args: [changes] });
+  }
+
+  setFluidDown(direction: Vector3Like) {
+    const down = toVector3Like(direction);
+    if (this.fluidDown && shallowEqual(down, this.fluidDown)) return;
+
+    this.fluidDown = down;
+    this.send({ type: "call", method: "setFluidDown", args: [down] });
+  }
+
+  setTable(table: PocketTable | null) {
+    this.pocketTable = table
+      ? {
+          pockets: table.pockets.map(({ position, radius }) => ({
+            position: toVector3Like(position),
+            radius,
+          })),
+          damping: table.damping,
+        }
+      : null;
+    this.send({ type: "call", method: "setTable", args: [this.pocketTable] });
+  }
+
+  addForceField(input: ForceFieldInput): number {
+    const id = this.nextFieldId++;
+    this.unconfirmedFields.add(id);
+    this.send({ type: "call", method: "addForceField", args: [input] });
+
+    return id;
+  }
+
+  updateForceField(id: number, changes: Partial<ForceFieldSpec>): boolean {
+    if (!this.hasField(id)) return false;
+
+    this.send({
+      type: "call",
+      method: "updateForceField",
+      args: [id, changes],
+    });
+    return true;
+  }
+
+  removeForceField(id: number): boolean {
+    if (!this.hasField(id)) return false;
+
+    this.unconfirmedFields.delete(id);
+    this.send({ type: "call", method: "removeForceField", args: [id] });
+    return true;
+  }
+
+  setForceFields(inputs: readonly ForceFieldInput[]) {
+    inputs.forEach(() => this.unconfirmedFields.add(this.nextFieldId++));
+    this.send({ type: "call", method: "setForceFields", args: [inputs] });
+  }
+
+  reset() {
+    this.grabbedId = null;
+    this.send({ type: "call", method: "reset", args: [] });
+  }
+
+  spawnSphere(options: SpawnSphereOptions = {}): number {
+    if (options.id !== undefined && !isPackableId(options.id)) {
+      throw new Error(
+        `Sphere id ${options.id} must be an integer from 1 to ${MAX_PACKED_ID}`
+      );
+    }
+    if (options.id !== undefined && this.hasSphere(options.id)) {
+      throw new Error(`Sphere ${options.id} is already registered`);
+    }
+
+    const id = options.id ?? this.nextSphereId++;
+    this.unconfirmedSpheres.add(id);
+    this.send({
+      type: "call",
+      method: "spawnSphere",
+      args: [{ ...options, id }],
+    });
+
+    return id;
+  }
+
+  removeSphere(id: number): boolean {
+    if (!this.hasSphere(id) || id === this.pending?.id) return false;
+
+    if (this.grabbedId === id) {
+      this.grabbedId = null;
+    }
+    this.send({ type: "call", method: "removeSphere", args: [id] });
+    return true;
+  }
+
+  strikeCueBall(direction: Vector3Like, power?: number): boolean {
+    const { x, y, z } = direction;
+    if (!this.cueBall || (x === 0 && y === 0 && z === 0)) return false;
+
+    this.send({
+      type: "call",
+      method: "strikeCueBall",
+      args: [{ x, y, z }, power],
+    });
+    return true;
+  }
+
+  predictCueContact(direction: Vector3Like): ContactPrediction | null {
+    const cueBall = this.cueBall;
+    if (!cueBall) return null;
+
+    return predictFirstContact(
+      cueBall.body.position,
+      direction,
+      cueBall.radius,
+      this.list,
+      cueBall.id
+    );
+  }
+
+  getState(): SimulationState {
+    const cueBall = this.cueBall;
+
+    return {
+      seed: this.seed,
+      time: this.elapsed,
+      paused: this.isPaused,
+      timeScale: this.scale,
+      cueBallId: cueBall ? cueBall.id : null,
+      spheres: this.list.map(
+        ({ id, radius, appearance, isCueBall, archetype, charge, body }) => ({
+          id,
+          radius,
+          color: appearance.color,
+          isCueBall,
+          archetype,
+          charge,
+          position: toVector3Like(body.position),
+          velocity: toVector3Like(body.velocity),
+        })
+      ),
+    };
+  }
+
+  captureSnapshot(): Promise<SimulationSnapshot> {
+    const request = this.nextRequest++;
+    return new Promise((resolve, reject) => {
+      this.snapshotRequests.set(request, { resolve, reject });
+      this.send({ type: "snapshot", request });
+    });
+  }
+
+  startRecording(options: RecorderOptions = {}) {
+    this.send({ type: "call", method: "startRecording", args: [options] });
+  }
+
+  // the worker records its own fixed steps rather than the mirrored frames
+  stopRecording(): Promise<Recording | null> {
+    const request = this.nextRequest++;
+    return new Promise((resolve, reject) => {
+      this.recordingRequests.set(request, { resolve, reject });
+      this.send({ type: "recording", request });
+    });
+  }
+
+  importSnapshot(snapshot: SimulationSnapshot) {
+    this.currentSeed = snapshot.seed;
+    this.physicsSettings = resolvePhysicsConfig(snapshot.physicsConfig);
+    this.sphereSettings = resolveSphereConfig(snapshot.sphereConfig);
+    this.containerSettings = resolveContainerConfig(snapshot.container);
+    this.fluidSettings = resolveFluidConfig(snapshot.fluid);
+    this.rebuildContainer();
+    this.pocketTable = snapshot.table;
+    this.isPaused = snapshot.paused;
+    this.scale = Math.min(
+      Math.max(snapshot.timeScale, MIN_TIME_SCALE),
+      MAX_TIME_SCALE
+    );
+    this.autoStrike = snapshot.autoCueStrike;
+    this.nextFieldId = snapshot.nextFieldId;
+    this.grabbedId = null;
+    this.fluidDown = null;
+    this.unconfirmedFields.clear();
+    this.unconfirmedSpheres.clear();
+    this.send({ type: "call", method: "importSnapshot", args: [snapshot] });
+  }
+
+  grabSphere(id: number): boolean {
+    if (!this.hasSphere(id) || id === this.pending?.id) return false;
+
+    this.grabbedId = id;
+    this.send({ type: "call", method: "grabSphere", args: [id] });
+    return true;
+  }
+
+  moveGrab(target: Vector3Like) {
+    if (this.grabbedId === null) return;
+
+    this.send({
+      type: "call",
+      method: "moveGrab",
+      args: [toVector3Like(target)],
+    });
+  }
+
+  releaseGrab(): boolean {
+    if (this.grabbedId === null) return false;
+
+    this.grabbedId = null;
+    this.send({ type: "call", method: "releaseGrab", args: [] });
+    return true;
+  }
+
+  dispose() {
+    this.send({ type: "dispose" });
+    this.endpoint.removeEventListener("message", this.handleMessage);
+    this.endpoint.terminate?.();
+    this.events.clear();
+    this.frames.length = 0;
+    [this.snapshotRequests, this.recordingRequests].forEach((requests) => {
+      requests.forEach(({ reject }) =>
+        reject(new Error("Simulation was disposed"))
+      );
+      requests.clear();
+    });
+  }
+
+  private readonly handleMessage = ({
+    data,
+  }: MessageEvent<SimulationReply>) => {
+    if (data.type === "frame") {
+      this.frames.push(data);
+      return;
+    }
+    if (data.type === "error") {
+      this.handleError(data);
+      return;
+    }
+    if (data.type === "recording") {
+      this.recordingRequests.get(data.request)?.resolve(data.recording);
+      this.recordingRequests.delete(data.request);
+      return;
+    }
+
+    this.snapshotRequests.get(data.request)?.resolve(data.snapshot);
+    this.snapshotRequests.delete(data.request);
+  };
+
+  private handleError({ command, request, message }: ErrorReply) {
+    if (command === "step") {
+      this.awaitingFrame = false;
+    }
+
+    const pending =
+      request === null
+        ? undefined
+        : this.snapshotRequests.get(request) ??
+          this.recordingRequests.get(request);
+    if (request !== null && pending) {
+      this.snapshotRequests.delete(request);
+      this.recordingRequests.delete(request);
+      pending.reject(new Error(message));
+      return;
+    }
+    this.events.emit("simulationError", {
+      command,
+      message,
+      time: this.elapsed,
+    });
+  }
+
+  private send(command: SimulationCommand, transfer: Transferable[] = []) {
+    this.sent++;
+    this.endpoint.postMessage(command, transfer);
+  }
+
+  private hasSphere(id: number): boolean {
+    return this.unconfirmedSpheres.has(id) || this.mirror.has(id);
+  }
+
+  private hasField(id: number): boolean {
+    return (
+      this.unconfirmedFields.has(id) ||
+      this.fields.some((field) => field.id === id)
+    );
+  }
+
+  private rebuildContainer() {
+    this.containerShape = createContainerShape(
+      this.containerSettings,
+      this.sphereSettings.mainRadius
+    );
+  }
+
+  private applyFrames(): number {
+    if (this.frames.length === 0) return 0;
+
+    const stepMs = this.physicsSettings.timeStep * 1000;
+    const startTime = this.elapsed;
+    const events: SimulationEventRecord[] = [];
+
+    this.frames.splice(0).forEach((frame) => {
+      this.applyFrame(frame);
+      events.push(...frame.events);
+    });
+    this.awaitingFrame = false;
+    this.applyTransforms();
+
+    events.forEach(({ type, event }) => this.events.emit(type, event as never));
+    if (this.fields !== this.announcedFields) {
+      this.announcedFields = this.fields;
+      this.events.emit("forceFieldsChanged", {
+        fields: this.fields,
+        time: this.elapsed,
+      });
+    }
+
+    return Math.round((this.elapsed - startTime) / stepMs);
+  }
+
+  private applyFrame(frame: SimulationFrame) {
+    if (frame.time !== this.elapsed) {
+      [this.previous, this.latest] = [this.latest, this.previous];
+      this.previousCount = this.latestCount;
+    }
+
+    const length = frame.count * TRANSFORM_STRIDE;
+    if (this.latest.length < length) {
+      this.latest = new Float32Array(length);
+    }
+    this.latest.set(frame.transforms.subarray(0, length));
+    this.latestCount = frame.count;
+    if (frame.events.some(({ type }) => type === "snapshotImported")) {
+      this.previousCount = 0;
+    }
+    if (!this.shared) {
+      this.recycle = frame.transforms.buffer as ArrayBuffer;
+    }
+
+    frame.spheres.forEach((descriptor) => this.describe(descriptor));
+
+    const live = new Set<number>();
+    this.list = [];
+    this.pending = null;
+    for (let row = 0; row < frame.count; row++) {
+      const id = this.latest[row * TRANSFORM_STRIDE];
+      const sphere = this.mirror.get(id);
+      if (!sphere) continue;
+
+      live.add(id);
+      if (id === frame.pendingId) {
+        this.pending = sphere;
+      } else {
+        this.list.push(sphere);
+      }
+    }
+    this.mirror.forEach((_, id) => {
+      if (!live.has(id)) this.mirror.delete(id);
+    });
+
+    this.elapsed = frame.time;
+    this.alpha = frame.alpha;
+    this.cueBallId = frame.cueBallId;
+    this.surface = frame.fluidSurface;
+    this.strikeIn = frame.nextCueStrikeIn;
+    this.energy = frame.kineticEnergy;
+    this.stepDuration = frame.stepDuration;
+    if (frame.forceFields) {
+      this.fields = frame.forceFields;
+    }
+
+    // optimistic state only yields to the worker once it has seen every command
+    if (frame.processed === this.sent) {
+      this.grabbedId = frame.grabbedSphereId;
+      this.unconfirmedFields.clear();
+      this.unconfirmedSpheres.clear();
+    }
+  }
+
+  private describe(descriptor: SphereDescriptor) {
+    this.mirror.set(
+      descriptor.id,
+      mirrorSphere(descriptor, this.mirror.get(descriptor.id))
+    );
+  }
+
+  private applyTransforms() {
+    const rows = transformRows(this.latest, this.latestCount);
+    this.interpolated = interpolateTransforms(
+      this.previous,
+      this.previousCount,
+      this.latest,
+      rows,
+      this.alpha,
+      this.interpolated
+    );
+
+    writeTransforms(this.interpolated, rows, this.mirror);
+  }
+}
@@ -0,0 +1,63 @@
+import { ContactPrediction, SimSphere, Vector3Like } from "./types";
+
+export const predictFirstContact = (
+  origin: Vector3Like,
+  direction: Vector3Like,
+  radius: number,
+  spheres: readonly SimSphere[],
+  ignoreId?: number
+): ContactPrediction | null => {
+  const length = Math.hypot(direction.x, direction.y, direction.z);
+  if (length === 0) return null;
+
+  const dx = direction.x / length;
+  const dy = direction.y / length;
+  const dz = direction.z / length;
+
+  let hit: SimSphere | null = null;
+  let hitDistance = Infinity;
+
+  for (const sphere of spheres) {
+    if (sphere.id === ignoreId) continue;
+
+    const { x, y, z } = sphere.body.position;
+    const ox = origin.x - x;
+    const oy = origin.y - y;
+    const oz = origin.z - z;
+    const reach = radius + sphere.radius * sphere.scale;
+
+    const b = ox * dx + oy * dy + oz * dz;
+    const c = ox * ox + oy * oy + oz * oz - reach * reach;
+    if (c > 0 && b > 0) continue;
+
+    const discriminant = b * b - c;
+    if (discriminant < 0) continue;
+
+    const distance = Math.max(0, -b - Math.sqrt(discriminant));
+    if (distance < hitDistance) {
+      hit = sphere;
+      hitDistance = distance;
+    }
+  }
+
+  if (!hit) return null;
+
+  const position = {
+    x: origin.x + dx * hitDistance,
+    y: origin.y + dy * hitDistance,
+    z: origin.z + dz * hitDistance,
+  };
+  const target = hit.body.position;
+  const ratio = radius / (radius + hit.radius * hit.scale);
+
+  return {
+    sphereId: hit.id,
+    distance: hitDistance,
+    position,
+    contactPoint: {
+      x: position.x + (target.x - position.x) * ratio,
+      y: position.y + (target.y - position.y) * ratio,
+      z: position.z + (target.z - position.z) * ratio,
+    },
+  };
+};
@@ -0,0 +1,87 @@
+import {
+  SPHERE_ARCHETYPES,
+  archetypeDefinitions,
+  archetypeMass,
+  pickArchetype,
+} from "./archetypes";
+import { createRandom } from "./random";
+import { SphereSimulation } from "./SphereSimulation";
+
+describe("sphere archetypes", () => {
+  it("picks archetypes in proportion to the mix", () => {
+    const random = createRandom(12);
+    const counts = { metal: 0, rubber: 0, glass: 0, sticky: 0 };
+
+    for (let i = 0; i < 4000; i++) {
+      counts[pickArchetype(random, { metal: 3, rubber: 1 })]++;
+    }
+
+    expect(counts.glass + counts.sticky).toBe(0);
+    expect(counts.metal / counts.rubber).toBeGreaterThan(2.5);
+    expect(counts.metal / counts.rubber).toBeLessThan(3.5);
+  });
+
+  it("falls back to the first archetype for an empty mix", () => {
+    expect(pickArchetype(createRandom(1), {})).toBe(SPHERE_ARCHETYPES[0]);
+  });
+
+  it("derives mass from density and volume", () => {
+    expect(archetypeMass("metal", 0.5)).toBeCloseTo(
+      (archetypeDefinitions.metal.density * Math.PI) / 6
+    );
+    expect(archetypeMass("metal", 0.5)).toBeGreaterThan(
+      archetypeMass("rubber", 0.5)
+    );
+  });
+
+  it("gives every archetype its own material and every pair a contact material", () => {
+    const simulation = new SphereSimulation({
+      seed: 21,
+      physicsConfig: { restitution: 0.8, friction: 0.2 },
+      sphereConfig: { smallCount: 60 },
+    });
+    const { world } = simulation;
+    const materials = new Set(
+      simulation.spheres
+        .filter((sphere) => !sphere.isCueBall)
+        .map(({ body }) => body.material)
+    );
+    expect(materials.size).toBe(SPHERE_ARCHETYPES.length);
+
+    const pairs = SPHERE_ARCHETYPES.length * (SPHERE_ARCHETYPES.length + 1);
+    expect(world.contactmaterials).toHaveLength(pairs / 2);
+
+    const rubber = simulation.spheres.find((s) => s.archetype === "rubber")!;
+    const sticky = simulation.spheres.find((s) => s.archetype === "sticky")!;
+    const contact = world.getContactMaterial(
+      rubber.body.material!,
+      sticky.body.material!
+    )!;
+    expect(contact.restitution).toBeLessThan(rubber.body.material!.restitution);
+    expect(contact.restitution).toBeGreaterThan(
+      sticky.body.material!.restitution
+    );
+  });
+
+  it("uses the configured mixes for the population and regenerated spheres", () => {
+    const simulation = new SphereSimulation({
+      seed: 22,
+      sphereConfig: {
+        smallCount: 12,
+        archetypeMix: { sticky: 1 },
+        regenerationArchetypeMix: { glass: 1 },
+        regenerationInterval: 100,
+      },
+    });
+
+    simulation.spheres
+      .filter((sphere) => !sphere.isCueBall)
+      .forEach((sphere) => expect(sphere.archetype).toBe("sticky"));
+    expect(simulation.cueBall?.archetype).toBe("metal");
+
+    while (!simulation.pendingSphere) {
+      simulation.singleStep();
+    }
+    expect(simulation.pendingSphere.archetype).toBe("glass");
+  });
+});
@@ -0,0 +1,122 @@
+import { Random } from "./random";
+import { SphereAppearance } from "./types";
+
+export type SphereArchetype = "metal" | "rubber" | "glass" | "sticky";
+
+export type ArchetypeMix = Partial<Record<SphereArchetype, number>>;
+
+export type ArchetypeSurface = Pick<
+  SphereAppearance,
+  "metalness" | "roughness" | "clearcoat" | "clearcoatRoughness"
+>;
+
+export interface ArchetypeDefinition {
+  density: number;
+  friction: number;
+  restitution: number;
+  surface: ArchetypeSurface;
+}
+
+export interface SurfaceProperties {
+  friction: number;
+  restitution: number;
+}
+
+export const SPHERE_ARCHETYPES: readonly SphereArchetype[] = [
+  "metal",
+  "rubber",
+  "glass",
+  "sticky",
+];
+
+// friction and restitution scale the world-wide values from PhysicsConfig.
+export const archetypeDefinitions: Record<
+  SphereArchetype,
+  ArchetypeDefinition
+> = {
+  metal: {
+    density: 6,
+    friction: 0.6,
+    restitution: 0.8,
+    surface: {
+      metalness: 0.95,
+      roughness: 0.15,
+      clearcoat: 0.6,
+      clearcoatRoughness: 0.1,
+    },
+  },
+  rubber: {
+    density: 1.2,
+    friction: 3,
+    restitution: 1.15,
+    surface: {
+      metalness: 0,
+      roughness: 0.75,
+      clearcoat: 0.1,
+      clearcoatRoughness: 0.6,
+    },
+  },
+  glass: {
+    density: 2.5,
+    friction: 0.3,
+    restitution: 0.9,
+    surface: {
+      metalness: 0.1,
+      roughness: 0.05,
+      clearcoat: 1,
+      clearcoatRoughness: 0.05,
+    },
+  },
+  sticky: {
+    density: 1.5,
+    friction: 5,
+    restitution: 0.15,
+    surface: {
+      metalness: 0.2,
+      roughness: 0.5,
+      clearcoat: 0.3,
+      clearcoatRoughness: 0.4,
+    },
+  },
+};
+
+export const archetypeMass = (archetype: SphereArchetype, radius: number) =>
+  archetypeDefinitions[archetype].density * (4 / 3) * Math.PI * radius ** 3;
+
+export const archetypeSurface = (
+  archetype: SphereArchetype,
+  world: SurfaceProperties
+): SurfaceProperties => {
+  const { friction, restitution } = archetypeDefinitions[archetype];
+  return {
+    friction: world.friction * friction,
+    restitution: Math.min(world.restitution * restitution, 1),
+  };
+};
+
+export const combineSurfaces = (
+  a: SurfaceProperties,
+  b: SurfaceProperties
+): SurfaceProperties => ({
+  friction: Math.sqrt(a.friction * b.friction),
+  restitution: Math.sqrt(a.restitution * b.restitution),
+});
+
+export const pickArchetype = (
+  random: Random,
+  mix: ArchetypeMix
+): SphereArchetype => {
+  const weights = SPHERE_ARCHETYPES.map((archetype) =>
+    Math.max(mix[archetype] ?? 0, 0)
+  );
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0) return SPHERE_ARCHETYPES[0];
+
+  let roll = random.next() * total;
+  for (let i = 0; i < weights.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return SPHERE_ARCHETYPES[i];
+  }
+
+  return SPHERE_ARCHETYPES[weights.findIndex((weight) => weight > 0)];
+};
@@ -0,0 +1,158 @@
+import { BoundaryMode } from "./boundary";
+import { SphereSimulation } from "./SphereSimulation";
+
+const FRAME = 1000 / 60;
+
+const boundarySimulation = (boundaryMode: BoundaryMode, smallCount = 1) => {
+  const simulation = new SphereSimulation({
+    seed: 233,
+    physicsConfig: { boundaryMode },
+    sphereConfig: { smallCount },
+  });
+  simulation.cueBall!.body.position.set(0, 0, 0);
+  return simulation;
+};
+
+const launch = (simulation: SphereSimulation, speed = 12) =>
+  simulation.spawnSphere({
+    position: { x: 3, y: 0, z: 0 },
+    velocity: { x: speed, y: 0, z: 0 },
+    radius: 0.3,
+  });
+
+const findSphere = (simulation: SphereSimulation, id: number) =>
+  simulation.spheres.find((sphere) => sphere.id === id);
+
+describe("boundary modes", () => {
+  it("never lets a sphere end up outside the shell in hard mode", () => {
+    const simulation = boundarySimulation("hard", 40);
+    const { mainRadius } = simulation.sphereConfig;
+    const onRemoved = jest.fn();
+    simulation.on("sphereRemoved", onRemoved);
+
+    for (let frame = 0; frame < 900; frame++) {
+      if (frame % 30 === 0) {
+        simulation.spheres.forEach(({ body }, index) => {
+          const angle = frame * 0.1 + index;
+          body.velocity.set(
+            Math.cos(angle) * 40,
+            Math.sin(angle * 1.3) * 40,
+            Math.sin(angle) * 40
+          );
+        });
+      }
+      simulation.step(FRAME);
+
+      simulation.spheres.forEach(({ body, radius }) => {
+        expect(body.position.length() + radius).toBeLessThanOrEqual(
+          mainRadius + 1e-6
+        );
+      });
+    }
+
+    expect(onRemoved).not.toHaveBeenCalledWith(
+      expect.objectContaining({ reason: "escaped" })
+    );
+  });
+
+  it("reflects velocity off the hard shell using restitution", () => {
+    const simulation = boundarySimulation("hard");
+    const id = launch(simulation, 10);
+
+    for (let i = 0; i < 20; i++) simulation.step(FRAME);
+
+    const sphere = findSphere(simulation, id)!;
+    expect(sphere.body.velocity.x).toBeLessThan(0);
+    expect(Math.abs(sphere.body.velocity.x)).toBeLessThanOrEqual(
+      10 * simulation.physicsConfig.restitution + 0.5
+    );
+  });
+
+  it("wraps spheres around to the opposite side", () => {
+    const simulation = boundarySimulation("wrap");
+    const id = launch(simulation, 10);
+
+    for (let i = 0; i < 20; i++) simulation.step(FRAME);
+
+    const sphere = findSphere(simulation, id)!;
+    expect(sphere.body.position.x).toBeLessThan(0);
+    expect(sphere.body.velocity.x).toBeGreaterThan(0);
+    expect(sphere.body.position.length() + sphere.radius).toBeLessThanOrEqual(
+      simulation.sphereConfig.mainRadius
+    );
+  });
+
+  it("absorbs spheres that touch the wall", () => {
+    const simulation = boundarySimulation("absorb");
+    const onRemoved = jest.fn();
+    const onEscaped = jest.fn();
+    simulation.on("sphereRemoved", onRemoved);
+    simulation.on("sphereEscaped", onEscaped);
+    const id = launch(simulation);
+
+    for (let i = 0; i < 20; i++) simulation.step(FRAME);
+
+    expect(findSphere(simulation, id)).toBeUndefined();
+    expect(onRemoved).toHaveBeenCalledWith(
+      expect.objectContaining({ id, reason: "absorbed" })
+    );
+    expect(onEscaped).not.toHaveBeenCalled();
+  });
+
+  it("removes escaping spheres in leaky mode", () => {
+    const simulation = boundarySimulation("leaky");
+    const onRemoved = jest.fn();
+    const onEscaped = jest.fn();
+    simulation.on("sphereRemoved", onRemoved);
+    simulation.on("sphereEscaped", onEscaped);
+    const id = simulation.spawnSphere({
+      position: { x: 6, y: 0, z: 0 },
+      radius: 0.3,
+    });
+
+    simulation.step(FRAME);
+
+    expect(findSphere(simulation, id)).toBeUndefined();
+    expect(onEscaped).toHaveBeenCalledWith(
+      expect.objectContaining({ id, isCueBall: false })
+    );
+    expect(onRemoved).toHaveBeenCalledWith(
+      expect.objectContaining({ id, reason: "escaped" })
+    );
+  });
+
+  it("pulls escaping spheres back in soft mode", () => {
+    const simulation = boundarySimulation("soft");
+    const onRemoved = jest.fn();
+    simulation.on("sphereRemoved", onRemoved);
+    const id = simulation.spawnSphere({
+      position: { x: 6, y: 0, z: 0 },
+      velocity: { x: 5, y: 0, z: 0 },
+      radius: 0.3,
+    });
+
+    for (let i = 0; i < 60; i++) simulation.step(FRAME);
+
+    const sphere = findSphere(simulation, id)!;
+    expect(sphere).toBeDefined();
+    expect(sphere.body.position.length()).toBeLessThan(
+      simulation.sphereConfig.mainRadius
+    );
+    expect(onRemoved).not.toHaveBeenCalled();
+  });
+
+  it("switches modes on a running simulation", () => {
+    const simulation = boundarySimulation("leaky");
+    simulation.setPhysicsConfig({ boundaryMode: "hard" });
+    const id = simulation.spawnSphere({
+      position: { x: 6, y: 0, z: 0 },
+      radius: 0.3,
+    });
+
+    simulation.step(FRAME);
+
+    expect(findSphere(simulation, id)!.body.position.length()).toBeCloseTo(
+      simulation.sphereConfig.mainRadius - 0.3
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import * as CANNON from "cannon-es";
+import { PhysicsConfig } from "./config";
+import { ContainerShape, constrainInside } from "./container";
+import { SimSphere } from "./types";
+
+export type BoundaryMode = "soft" | "hard" | "wrap" | "absorb" | "leaky";
+
+export type BoundaryOutcome = "contained" | "escaped" | "absorbed";
+
+export interface BoundaryContext {
+  shape: ContainerShape;
+  physics: PhysicsConfig;
+}
+
+export type BoundaryHandler = (
+  sphere: SimSphere,
+  context: BoundaryContext
+) => BoundaryOutcome;
+
+export const BOUNDARY_MODES: readonly BoundaryMode[] = [
+  "soft",
+  "hard",
+  "wrap",
+  "absorb",
+  "leaky",
+];
+
+const WRAP_INSET = 0.02;
+
+export const reflectFromShell = (
+  body: CANNON.Body,
+  shape: ContainerShape,
+  margin: number,
+  restitution: number
+): boolean => {
+  if (!constrainInside(shape, body.position, margin)) return false;
+
+  const normal = shape.normal(body.position);
+  const outward = body.velocity.dot(normal);
+  if (outward > 0) {
+    body.velocity.vsub(
+      normal.scale(outward * (1 + restitution)),
+      body.velocity
+    );
+  }
+
+  return true;
+};
+
+const applySoftField = (
+  body: CANNON.Body,
+  shape: ContainerShape,
+  physics: PhysicsConfig
+) => {
+  const effectiveSize = shape.size * 0.9;
+  const depth = -shape.distance(body.position);
+  const fieldStart = shape.size - effectiveSize * 0.8;
+  if (depth >= fieldStart) return;
+
+  const boundaryFactor =
+    Math.pow((fieldStart - depth) / (effectiveSize * 0.2), 2) *
+    physics.boundaryForceMultiplier;
+  body.applyForce(
+    shape.normal(body.position).scale(-boundaryFactor),
+    new CANNON.Vec3(0, 0, 0)
+  );
+
+  body.velocity.scale(0.95, body.velocity);
+};
+
+const hasEscaped = (
+  body: CANNON.Body,
+  shape: ContainerShape,
+  physics: PhysicsConfig
+) => shape.distance(body.position) > shape.size * (physics.exitThreshold - 1);
+
+const soft: BoundaryHandler = ({ body, radius }, { shape, physics }) => {
+  if (hasEscaped(body, shape, physics)) {
+    reflectFromShell(body, shape, radius, physics.restitution);
+  }
+  applySoftField(body, shape, physics);
+  return "contained";
+};
+
+const leaky: BoundaryHandler = ({ body }, { shape, physics }) => {
+  if (hasEscaped(body, shape, physics)) return "escaped";
+
+  applySoftField(body, shape, physics);
+  return "contained";
+};
+
+const hard: BoundaryHandler = ({ body, radius }, { shape, physics }) => {
+  reflectFromShell(body, shape, radius, physics.restitution);
+  return "contained";
+};
+
+const wrap: BoundaryHandler = ({ body, radius }, { shape }) => {
+  if (shape.distance(body.position) + radius > 0) {
+    body.position.negate(body.position);
+    constrainInside(shape, body.position, radius + shape.size * WRAP_INSET);
+  }
+  return "contained";
+};
+
+const absorb: BoundaryHandler = ({ body, radius }, { shape }) =>
+  shape.distance(body.position) + radius > 0 ? "absorbed" : "contained";
+
+export const boundaryHandlers: Record<BoundaryMode, BoundaryHandler> = {
+  soft,
+  hard,
+  wrap,
+  absorb,
+  leaky,
+};
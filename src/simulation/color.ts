@@ -0,0 +1,72 @@
+import { Random } from "./random";
+
+const hueToRgb = (p: number, q: number, t: number): number => {
+  if (t < 0) t += 1;
+  if (t > 1) t -= 1;
+  if (t < 1 / 6) return p + (q - p) * 6 * t;
+  if (t < 1 / 2) return q;
+  if (t < 2 / 3) return p + (q - p) * 6 * (2 / 3 - t);
+  return p;
+};
+
+export const hslToHex = (h: number, s: number, l: number): number => {
+  const hue = ((h % 1) + 1) % 1;
+  const saturation = Math.min(Math.max(s, 0), 1);
+  const lightness = Math.min(Math.max(l, 0), 1);
+
+  if (saturation === 0) {
+    const v = Math.round(lightness * 255);
+    return (v << 16) | (v << 8) | v;
+  }
+
+  const q =
+    lightness <= 0.5
+      ? lightness * (1 + saturation)
+      : lightness + saturation - lightness * saturation;
+  const p = 2 * lightness - q;
+
+  const r = Math.round(hueToRgb(p, q, hue + 1 / 3) * 255);
+  const g = Math.round(hueToRgb(p, q, hue) * 255);
+  const b = Math.round(hueToRgb(p, q, hue - 1 / 3) * 255);
+
+  return (r << 16) | (g << 8) | b;
+};
+
+export const generateVibrantColor = (random: Random): number => {
+  const hue = random.next();
+  const saturation = 0.7 + random.next() * 0.3;
+  const lightness = 0.5 + random.next() * 0.3;
+  return hslToHex(hue, saturation, lightness);
+};
+
+export const hexToHue = (color: number): number => {
+  const r = ((color >> 16) & 0xff) / 255;
+  const g = ((color >> 8) & 0xff) / 255;
+  const b = (color & 0xff) / 255;
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+
+  if (delta === 0) return 0;
+
+  const hue =
+    max === r
+      ? ((g - b) / delta) % 6
+      : max === g
+      ? (b - r) / delta + 2
+      : (r - g) / delta + 4;
+  return (((hue / 6) % 1) + 1) % 1;
+};
+
+export const blendColors = (a: number, b: number, weight: number): number => {
+  const t = Math.min(Math.max(weight, 0), 1);
+  const channel = (shift: number) =>
+    Math.round(((a >> shift) & 0xff) * (1 - t) + ((b >> shift) & 0xff) * t);
+
+  return (channel(16) << 16) | (channel(8) << 8) | channel(0);
+};
+
+export const chargeColor = (random: Random, charge: number): number => {
+  if (charge > 0) return hslToHex(random.range(-0.03, 0.06), 0.9, 0.55);
+  if (charge < 0) return hslToHex(random.range(0.55, 0.66), 0.9, 0.55);
+  return hslToHex(random.next(), 0.1, 0.7);
+};
@@ -0,0 +1,153 @@
+import { ArchetypeMix, SphereArchetype } from "./archetypes";
+import { BoundaryMode } from "./boundary";
+import { ContainerShapeType } from "./container";
+import { Vector3Like } from "./types";
+
+export interface PhysicsConfig {
+  gravity: number;
+  friction: number;
+  restitution: number;
+  dampingFactor: number;
+  solverIterations: number;
+  timeStep: number;
+  maxSubSteps: number;
+  boundaryForceMultiplier: number;
+  centralGravityStrength: number;
+  exitThreshold: number;
+  boundaryMode: BoundaryMode;
+  mutualGravity: number;
+  gravitySoftening: number;
+  barnesHutTheta: number;
+  barnesHutThreshold: number;
+  accretion: boolean;
+  mergeSpeed: number;
+  fragmentSpeed: number;
+  fragmentCount: number;
+  minFragmentRadius: number;
+  coulombConstant: number;
+  chargeSoftening: number;
+  chargeCutoff: number;
+}
+
+export interface SphereConfig {
+  mainRadius: number;
+  smallCount: number;
+  smallMinRadius: number;
+  smallMaxRadius: number;
+  cueBallRadius: number;
+  cueBallMass: number;
+  cueBallImpulseFactor: number;
+  cueBallColor: number;
+  cueBallEmissiveIntensity: number;
+  regenerationInterval: number;
+  popupDuration: number;
+  popupScale: number;
+  newSphereImpulseFactor: number;
+  archetypeMix: ArchetypeMix;
+  regenerationArchetypeMix: ArchetypeMix;
+  cueBallArchetype: SphereArchetype;
+  chargedFraction: number;
+  chargeMagnitude: number;
+  cueBallCharge: number;
+}
+
+export interface ContainerConfig {
+  shape: ContainerShapeType;
+  proportions: Vector3Like;
+  tubeRatio: number;
+}
+
+export interface FluidConfig {
+  enabled: boolean;
+  density: number;
+  viscosity: number;
+  airDrag: number;
+  fillLevel: number;
+  gravity: number;
+  sloshStiffness: number;
+  sloshDamping: number;
+}
+
+export const defaultPhysicsConfig: PhysicsConfig = {
+  gravity: 0,
+  friction: 0.1,
+  restitution: 0.85,
+  dampingFactor: 0.08,
+  solverIterations: 20,
+  timeStep: 1 / 60,
+  maxSubSteps: 5,
+  boundaryForceMultiplier: 150,
+  centralGravityStrength: 0,
+  exitThreshold: 1.02,
+  boundaryMode: "leaky",
+  mutualGravity: 0,
+  gravitySoftening: 0.3,
+  barnesHutTheta: 0.6,
+  barnesHutThreshold: 64,
+  accretion: false,
+  mergeSpeed: 1.5,
+  fragmentSpeed: 7,
+  fragmentCount: 3,
+  minFragmentRadius: 0.1,
+  coulombConstant: 2,
+  chargeSoftening: 0.3,
+  chargeCutoff: 3,
+};
+
+export const defaultSphereConfig: SphereConfig = {
+  mainRadius: 5.0,
+  smallCount: 14,
+  smallMinRadius: 0.2,
+  smallMaxRadius: 0.6,
+  cueBallRadius: 0.5,
+  cueBallMass: 5.0,
+  cueBallImpulseFactor: 40.0,
+  cueBallColor: 0xffffff,
+  cueBallEmissiveIntensity: 0.9,
+  regenerationInterval: 10000,
+  popupDuration: 800,
+  popupScale: 1.5,
+  newSphereImpulseFactor: 40.0,
+  archetypeMix: { metal: 1, rubber: 1, glass: 1, sticky: 1 },
+  regenerationArchetypeMix: { metal: 1, rubber: 1, glass: 1, sticky: 1 },
+  cueBallArchetype: "metal",
+  chargedFraction: 0,
+  chargeMagnitude: 1,
+  cueBallCharge: 0,
+};
+
+export const resolvePhysicsConfig = (
+  overrides: Partial<PhysicsConfig> = {}
+): PhysicsConfig => ({ ...defaultPhysicsConfig, ...overrides });
+
+export const resolveSphereConfig = (
+  overrides: Partial<SphereConfig> = {}
+): SphereConfig => ({ ...defaultSphereConfig, ...overrides });
+
+export const defaultContainerConfig: ContainerConfig = {
+  shape: "sphere",
+  proportions: { x: 0.7, y: 1, z: 0.7 },
+  tubeRatio: 0.35,
+};
+
+export const resolveContainerConfig = (
+  overrides: Partial<ContainerConfig> = {}
+): ContainerConfig => ({ ...defaultContainerConfig, ...overrides });
+
+export const defaultFluidConfig: FluidConfig = {
+  enabled: false,
+  density: 2,
+  viscosity: 1.5,
+  airDrag: 0.05,
+  fillLevel: 0.5,
+  gravity: 9.8,
+  sloshStiffness: 20,
+  sloshDamping: 4,
+};
+
+export const resolveFluidConfig = (
+  overrides: Partial<FluidConfig> = {}
+): FluidConfig => ({ ...defaultFluidConfig, ...overrides });
+
+export const shallowEqual = <T extends object>(a: T, b: T): boolean =>
+  (Object.keys(a) as (keyof T)[]).every((key) => a[key] === b[key]);
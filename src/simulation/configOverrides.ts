@@ -0,0 +1,187 @@
+import { SPHERE_ARCHETYPES } from "./archetypes";
+import { BOUNDARY_MODES } from "./boundary";
+import {
+  PhysicsConfig,
+  SphereConfig,
+  defaultPhysicsConfig,
+  defaultSphereConfig,
+} from "./config";
+
+export type ConfigRange = [min: number, max: number];
+
+export interface OverrideRules<T> {
+  name: string;
+  ranges: Partial<Record<keyof T, ConfigRange>>;
+  options?: Partial<Record<keyof T, readonly string[]>>;
+}
+
+export type Warn = (message: string) => void;
+
+const PHYSICS_RULES: OverrideRules<PhysicsConfig> = {
+  name: "physics",
+  ranges: {
+    gravity: [-100, 100],
+    friction: [0, 1],
+    restitution: [0, 1.5],
+    dampingFactor: [0, 1],
+    solverIterations: [1, 100],
+    timeStep: [1 / 1000, 1 / 10],
+    maxSubSteps: [1, 20],
+    boundaryForceMultiplier: [0, 1000],
+    centralGravityStrength: [-100, 100],
+    exitThreshold: [1, 2],
+    mutualGravity: [-100, 100],
+    gravitySoftening: [0, 10],
+    barnesHutTheta: [0, 2],
+    barnesHutThreshold: [0, 10000],
+    mergeSpeed: [0, 100],
+    fragmentSpeed: [0, 100],
+    fragmentCount: [0, 16],
+    minFragmentRadius: [0.01, 5],
+    coulombConstant: [-100, 100],
+    chargeSoftening: [0, 10],
+    chargeCutoff: [0, 100],
+  },
+  options: { boundaryMode: BOUNDARY_MODES },
+};
+
+const SPHERE_RULES: OverrideRules<SphereConfig> = {
+  name: "sphere",
+  ranges: {
+    mainRadius: [0.5, 100],
+    smallCount: [0, 10000],
+    smallMinRadius: [0.01, 10],
+    smallMaxRadius: [0.01, 10],
+    cueBallRadius: [0.01, 10],
+    cueBallMass: [0.01, 1000],
+    cueBallImpulseFactor: [0, 1000],
+    cueBallColor: [0, 0xffffff],
+    cueBallEmissiveIntensity: [0, 10],
+    regenerationInterval: [0, 600000],
+    popupDuration: [0, 60000],
+    popupScale: [0, 10],
+    newSphereImpulseFactor: [0, 1000],
+    chargedFraction: [0, 1],
+    chargeMagnitude: [0, 100],
+    cueBallCharge: [-100, 100],
+  },
+  options: { cueBallArchetype: SPHERE_ARCHETYPES },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isInRange = (value: number, range?: ConfigRange) =>
+  !range || (value >= range[0] && value <= range[1]);
+
+const readValue = (
+  value: unknown,
+  template: unknown,
+  range?: ConfigRange,
+  options?: readonly string[]
+) => {
+  if (options) {
+    return options.includes(value as string) ? value : undefined;
+  }
+
+  if (typeof template === "number") {
+    return typeof value === "number" &&
+      Number.isFinite(value) &&
+      isInRange(value, range)
+      ? value
+      : undefined;
+  }
+
+  if (isRecord(template)) {
+    return isRecord(value) &&
+      Object.keys(value).every((key) => key in template) &&
+      Object.values(value).every(
+        (entry) => typeof entry === "number" && entry >= 0
+      )
+      ? { ...template, ...value }
+      : undefined;
+  }
+
+  return typeof value === typeof template ? value : undefined;
+};
+
+export const configOverrides = <T extends object>(
+  config: Readonly<T>,
+  defaults: T
+): Partial<T> =>
+  (Object.keys(defaults) as (keyof T)[]).reduce((out, key) => {
+    if (JSON.stringify(config[key]) !== JSON.stringify(defaults[key])) {
+      out[key] = config[key];
+    }
+    return out;
+  }, {} as Partial<T>);
+
+// keeps the valid settings and warns about the rest, so a bad value only
+// costs its own default rather than the whole set
+export const readOverrides = <T extends object>(
+  data: unknown,
+  defaults: T,
+  { name, ranges, options = {} }: OverrideRules<T>,
+  source: string,
+  warn: Warn
+): Partial<T> => {
+  if (data === undefined || data === null) return {};
+  if (!isRecord(data)) {
+    warn(`Ignoring ${name} settings ${source}: expected an object`);
+    return {};
+  }
+
+  return Object.keys(data).reduce((out, key) => {
+    if (!(key in defaults)) {
+      warn(`Ignoring unknown ${name} setting "${key}" ${source}`);
+      return out;
+    }
+
+    const field = key as keyof T;
+    const value = readValue(
+      data[key],
+      defaults[field],
+      ranges[field],
+      options[field]
+    );
+    if (value === undefined) {
+      warn(
+        `Ignoring invalid ${name} setting "${key}" ${source}; using the default`
+      );
+    } else {
+      out[field] = value as T[keyof T];
+    }
+    return out;
+  }, {} as Partial<T>);
+};
+
+export const readPhysicsOverrides = (
+  data: unknown,
+  source: string,
+  warn: Warn
+): Partial<PhysicsConfig> =>
+  readOverrides(data, defaultPhysicsConfig, PHYSICS_RULES, source, warn);
+
+export const readSphereOverrides = (
+  data: unknown,
+  source: string,
+  warn: Warn
+): Partial<SphereConfig> => {
+  const overrides = readOverrides(
+    data,
+    defaultSphereConfig,
+    SPHERE_RULES,
+    source,
+    warn
+  );
+  const {
+    smallMinRadius = defaultSphereConfig.smallMinRadius,
+    smallMaxRadius = defaultSphereConfig.smallMaxRadius,
+  } = overrides;
+  if (smallMinRadius > smallMaxRadius) {
+    warn(`Ignoring sphere radii ${source}: the minimum exceeds the maximum`);
+    delete overrides.smallMinRadius;
+    delete overrides.smallMaxRadius;
+  }
+  return overrides;
+};
@@ -0,0 +1,127 @@
+import * as CANNON from "cannon-es";
+import {
+  CONTAINER_SHAPES,
+  ContainerShapeType,
+  constrainInside,
+  createContainerShape,
+} from "./container";
+import { defaultContainerConfig } from "./config";
+import { createRandom } from "./random";
+import { SphereSimulation, randomUnitVector } from "./SphereSimulation";
+
+const FRAME = 1000 / 60;
+
+const shapeFor = (shape: ContainerShapeType) =>
+  createContainerShape({ ...defaultContainerConfig, shape }, 5);
+
+describe.each(CONTAINER_SHAPES)("%s container", (type) => {
+  const shape = shapeFor(type);
+  const random = createRandom(377);
+  const directions = Array.from({ length: 50 }, () => randomUnitVector(random));
+
+  it("maps directions to interior points and the surface", () => {
+    directions.forEach((direction) => {
+      expect(shape.distance(shape.interiorPoint(direction, 0.5))).toBeLessThan(
+        0
+      );
+      expect(shape.distance(shape.interiorPoint(direction, 1))).toBeCloseTo(
+        0,
+        2
+      );
+    });
+  });
+
+  it("pushes outside points back inside with a margin", () => {
+    directions.forEach((direction) => {
+      const point = new CANNON.Vec3(
+        direction.x,
+        direction.y,
+        direction.z
+      ).scale(shape.extent * 1.5);
+
+      expect(constrainInside(shape, point, 0.3)).toBe(true);
+      expect(shape.distance(point) + 0.3).toBeLessThanOrEqual(1e-3);
+    });
+  });
+
+  it("keeps every sphere inside in hard mode", () => {
+    const simulation = new SphereSimulation({
+      seed: 610,
+      physicsConfig: { boundaryMode: "hard" },
+      sphereConfig: { smallCount: 20 },
+      container: { shape: type },
+    });
+    const { container } = simulation;
+
+    for (let frame = 0; frame < 300; frame++) {
+      if (frame % 30 === 0) {
+        simulation.spheres.forEach(({ body }, index) => {
+          const direction = directions[(frame + index) % directions.length];
+          body.velocity.set(
+            direction.x * 30,
+            direction.y * 30,
+            direction.z * 30
+          );
+        });
+      }
+      simulation.step(FRAME);
+
+      simulation.spheres.forEach(({ body, radius }) => {
+        expect(container.distance(body.position) + radius).toBeLessThanOrEqual(
+          1e-3
+        );
+      });
+    }
+  });
+});
+
+describe("container configuration", () => {
+  it("starts spheres inside a torus, whose center lies outside it", () => {
+    const simulation = new SphereSimulation({
+      seed: 987,
+      container: { shape: "torus" },
+    });
+
+    expect(simulation.container.distance({ x: 0, y: 0, z: 0 })).toBeGreaterThan(
+      0
+    );
+    simulation.spheres.forEach(({ body }) => {
+      expect(simulation.container.distance(body.position)).toBeLessThan(0);
+    });
+  });
+
+  it("rebuilds the container when the shape or radius changes", () => {
+    const simulation = new SphereSimulation({ seed: 1597 });
+    expect(simulation.container.type).toBe("sphere");
+
+    simulation.setContainerConfig({ shape: "cube" });
+    expect(simulation.container.type).toBe("cube");
+    expect(simulation.container.distance({ x: 3.5, y: 0, z: 0 })).toBeCloseTo(
+      0
+    );
+
+    simulation.setSphereConfig({ mainRadius: 10 });
+    expect(simulation.container.distance({ x: 7, y: 0, z: 0 })).toBeCloseTo(0);
+  });
+
+  it("wraps spheres to the opposite side of a cube", () => {
+    const simulation = new SphereSimulation({
+      seed: 2584,
+      physicsConfig: { boundaryMode: "wrap" },
+      sphereConfig: { smallCount: 1 },
+      container: { shape: "cube" },
+    });
+    simulation.cueBall!.body.position.set(0, 0, 0);
+    const id = simulation.spawnSphere({
+      position: { x: 2.5, y: 0, z: 0 },
+      velocity: { x: 10, y: 0, z: 0 },
+      radius: 0.3,
+    });
+
+    for (let i = 0; i < 10; i++) simulation.step(FRAME);
+
+    const sphere = simulation.spheres.find((entry) => entry.id === id)!;
+    expect(sphere.body.position.x).toBeLessThan(0);
+    expect(simulation.container.distance(sphere.body.position)).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,317 @@
+import * as CANNON from "cannon-es";
+import { ContainerConfig } from "./config";
+import { Vector3Like } from "./types";
+
+export type ContainerShapeType =
+  | "sphere"
+  | "ellipsoid"
+  | "cube"
+  | "cylinder"
+  | "capsule"
+  | "torus";
+
+export interface ContainerShape {
+  readonly type: ContainerShapeType;
+  readonly size: number;
+  readonly extent: number;
+  distance(point: Vector3Like): number;
+  normal(point: Vector3Like): CANNON.Vec3;
+  core(point: Vector3Like): CANNON.Vec3;
+  interiorPoint(direction: Vector3Like, fraction: number): CANNON.Vec3;
+}
+
+export const CONTAINER_SHAPES: readonly ContainerShapeType[] = [
+  "sphere",
+  "ellipsoid",
+  "cube",
+  "cylinder",
+  "capsule",
+  "torus",
+];
+
+const SURFACE_ITERATIONS = 24;
+const CONSTRAIN_ITERATIONS = 4;
+
+const length2 = (x: number, y: number) => Math.sqrt(x * x + y * y);
+
+const boxDistance = (
+  point: Vector3Like,
+  hx: number,
+  hy: number,
+  hz: number
+) => {
+  const qx = Math.abs(point.x) - hx;
+  const qy = Math.abs(point.y) - hy;
+  const qz = Math.abs(point.z) - hz;
+  const outside = Math.sqrt(
+    Math.max(qx, 0) ** 2 + Math.max(qy, 0) ** 2 + Math.max(qz, 0) ** 2
+  );
+  return outside + Math.min(Math.max(qx, qy, qz), 0);
+};
+
+const cylinderDistance = (point: Vector3Like, radius: number, half: number) => {
+  const dx = length2(point.x, point.z) - radius;
+  const dy = Math.abs(point.y) - half;
+  return (
+    Math.min(Math.max(dx, dy), 0) + length2(Math.max(dx, 0), Math.max(dy, 0))
+  );
+};
+
+abstract class BaseShape implements ContainerShape {
+  abstract readonly type: ContainerShapeType;
+  abstract readonly size: number;
+  abstract readonly extent: number;
+
+  abstract distance(point: Vector3Like): number;
+
+  normal(point: Vector3Like): CANNON.Vec3 {
+    const epsilon = this.size * 1e-4;
+    const sample = (x: number, y: number, z: number) =>
+      this.distance({ x: point.x + x, y: point.y + y, z: point.z + z });
+
+    const gradient = new CANNON.Vec3(
+      sample(epsilon, 0, 0) - sample(-epsilon, 0, 0),
+      sample(0, epsilon, 0) - sample(0, -epsilon, 0),
+      sample(0, 0, epsilon) - sample(0, 0, -epsilon)
+    );
+    if (gradient.length() === 0) return new CANNON.Vec3(0, 1, 0);
+
+    gradient.normalize();
+    return gradient;
+  }
+
+  core(point: Vector3Like): CANNON.Vec3 {
+    return new CANNON.Vec3(0, 0, 0);
+  }
+
+  interiorPoint(direction: Vector3Like, fraction: number): CANNON.Vec3 {
+    const unit = new CANNON.Vec3(direction.x, direction.y, direction.z);
+    if (unit.length() === 0) return this.core(unit);
+    unit.normalize();
+
+    let inside = 0;
+    let outside = this.extent;
+    for (let i = 0; i < SURFACE_ITERATIONS; i++) {
+      const middle = (inside + outside) / 2;
+      if (this.distance(unit.scale(middle)) > 0) {
+        outside = middle;
+      } else {
+        inside = middle;
+      }
+    }
+
+    return unit.scale(inside * fraction);
+  }
+}
+
+class SphereShape extends BaseShape {
+  readonly type = "sphere";
+  readonly size: number;
+  readonly extent: number;
+
+  constructor(private readonly radius: number) {
+    super();
+    this.size = radius;
+    this.extent = radius;
+  }
+
+  distance(point: Vector3Like): number {
+    return Math.sqrt(point.x ** 2 + point.y ** 2 + point.z ** 2) - this.radius;
+  }
+
+  normal(point: Vector3Like): CANNON.Vec3 {
+    const normal = new CANNON.Vec3(point.x, point.y, point.z);
+    if (normal.length() === 0) return new CANNON.Vec3(0, 1, 0);
+
+    normal.normalize();
+    return normal;
+  }
+
+  interiorPoint(direction: Vector3Like, fraction: number): CANNON.Vec3 {
+    const unit = new CANNON.Vec3(direction.x, direction.y, direction.z);
+    if (unit.length() > 0) unit.normalize();
+
+    return unit.scale(this.radius * fraction);
+  }
+}
+
+class EllipsoidShape extends BaseShape {
+  readonly type = "ellipsoid";
+  readonly size: number;
+  readonly extent: number;
+
+  constructor(private readonly radii: Vector3Like) {
+    super();
+    this.size = Math.min(radii.x, radii.y, radii.z);
+    this.extent = Math.max(radii.x, radii.y, radii.z);
+  }
+
+  distance(point: Vector3Like): number {
+    const { x, y, z } = this.radii;
+    const k0 = Math.sqrt(
+      (point.x / x) ** 2 + (point.y / y) ** 2 + (point.z / z) ** 2
+    );
+    const k1 = Math.sqrt(
+      (point.x / (x * x)) ** 2 +
+        (point.y / (y * y)) ** 2 +
+        (point.z / (z * z)) ** 2
+    );
+    if (k1 === 0) return -this.size;
+
+    return (k0 * (k0 - 1)) / k1;
+  }
+
+  interiorPoint(direction: Vector3Like, fraction: number): CANNON.Vec3 {
+    const unit = new CANNON.Vec3(direction.x, direction.y, direction.z);
+    if (unit.length() === 0) return unit;
+    unit.normalize();
+
+    return new CANNON.Vec3(
+      unit.x * this.radii.x,
+      unit.y * this.radii.y,
+      unit.z * this.radii.z
+    ).scale(fraction);
+  }
+}
+
+class CubeShape extends BaseShape {
+  readonly type = "cube";
+  readonly size: number;
+  readonly extent: number;
+
+  constructor(private readonly halfExtents: Vector3Like) {
+    super();
+    const { x, y, z } = halfExtents;
+    this.size = Math.min(x, y, z);
+    this.extent = Math.sqrt(x * x + y * y + z * z);
+  }
+
+  distance(point: Vector3Like): number {
+    const { x, y, z } = this.halfExtents;
+    return boxDistance(point, x, y, z);
+  }
+}
+
+class CylinderShape extends BaseShape {
+  readonly type = "cylinder";
+  readonly size: number;
+  readonly extent: number;
+
+  constructor(private readonly radius: number, private readonly half: number) {
+    super();
+    this.size = Math.min(radius, half);
+    this.extent = length2(radius, half);
+  }
+
+  distance(point: Vector3Like): number {
+    return cylinderDistance(point, this.radius, this.half);
+  }
+}
+
+class CapsuleShape extends BaseShape {
+  readonly type = "capsule";
+  readonly size: number;
+  readonly extent: number;
+  private readonly segment: number;
+
+  constructor(private readonly radius: number, half: number) {
+    super();
+    this.segment = Math.max(half - radius, 0);
+    this.size = radius;
+    this.extent = this.segment + radius;
+  }
+
+  distance(point: Vector3Like): number {
+    const y = Math.min(Math.max(point.y, -this.segment), this.segment);
+    return (
+      Math.sqrt(point.x ** 2 + (point.y - y) ** 2 + point.z ** 2) - this.radius
+    );
+  }
+}
+
+class TorusShape extends BaseShape {
+  readonly type = "torus";
+  readonly size: number;
+  readonly extent: number;
+
+  constructor(private readonly ring: number, private readonly tube: number) {
+    super();
+    this.size = tube;
+    this.extent = ring + tube;
+  }
+
+  distance(point: Vector3Like): number {
+    return length2(length2(point.x, point.z) - this.ring, point.y) - this.tube;
+  }
+
+  core(point: Vector3Like): CANNON.Vec3 {
+    const angle =
+      point.x === 0 && point.z === 0 ? 0 : Math.atan2(point.z, point.x);
+    return new CANNON.Vec3(
+      Math.cos(angle) * this.ring,
+      0,
+      Math.sin(angle) * this.ring
+    );
+  }
+
+  interiorPoint(direction: Vector3Like, fraction: number): CANNON.Vec3 {
+    const unit = new CANNON.Vec3(direction.x, direction.y, direction.z);
+    if (unit.length() > 0) unit.normalize();
+
+    return this.core(unit).vadd(unit.scale(this.tube * fraction));
+  }
+}
+
+export const createContainerShape = (
+  config: ContainerConfig,
+  mainRadius: number
+): ContainerShape => {
+  const { proportions } = config;
+
+  switch (config.shape) {
+    case "ellipsoid":
+      return new EllipsoidShape({
+        x: mainRadius * proportions.x,
+        y: mainRadius * proportions.y,
+        z: mainRadius * proportions.z,
+      });
+    case "cube":
+      return new CubeShape({
+        x: mainRadius * proportions.x,
+        y: mainRadius * proportions.y,
+        z: mainRadius * proportions.z,
+      });
+    case "cylinder":
+      return new CylinderShape(
+        mainRadius * Math.min(proportions.x, proportions.z),
+        mainRadius * proportions.y
+      );
+    case "capsule":
+      return new CapsuleShape(
+        mainRadius * Math.min(proportions.x, proportions.z),
+        mainRadius * proportions.y
+      );
+    case "torus":
+      return new TorusShape(mainRadius, mainRadius * config.tubeRatio);
+    default:
+      return new SphereShape(mainRadius);
+  }
+};
+
+export const constrainInside = (
+  shape: ContainerShape,
+  point: CANNON.Vec3,
+  margin: number
+): boolean => {
+  let moved = false;
+
+  for (let i = 0; i < CONSTRAIN_ITERATIONS; i++) {
+    const depth = shape.distance(point) + margin;
+    if (depth <= 0) break;
+
+    point.vsub(shape.normal(point).scale(depth), point);
+    moved = true;
+  }
+
+  return moved;
+};
@@ -0,0 +1,68 @@
+import { SimulationServer } from "./SimulationServer";
+import {
+  SimulationController,
+  SphereSimulation,
+  SphereSimulationOptions,
+} from "./SphereSimulation";
+import { WorkerSimulation } from "./WorkerSimulation";
+import { MessageEndpoint } from "./workerProtocol";
+
+type Listener = (event: MessageEvent) => void;
+
+// until the worker first answers, everything sent to it is kept so a script
+// that fails to load can be replaced by a server on the main thread
+const withInThreadFallback = (worker: Worker): MessageEndpoint => {
+  const listeners = new Set<Listener>();
+  let unanswered: [unknown, Transferable[]][] | null = [];
+  let target: Worker | MessagePort = worker;
+
+  const receive = (event: MessageEvent) => {
+    unanswered = null;
+    listeners.forEach((listener) => listener(event));
+  };
+
+  worker.addEventListener("message", receive);
+  worker.addEventListener("error", (event) => {
+    const backlog = unanswered;
+    if (!backlog) return;
+
+    event.preventDefault();
+    worker.terminate();
+    const { port1, port2 } = new MessageChannel();
+    new SimulationServer(port2);
+    port2.start();
+    port1.addEventListener("message", receive);
+    port1.start();
+    target = port1;
+    backlog.forEach(([message, transfer]) =>
+      port1.postMessage(message, transfer)
+    );
+  });
+
+  return {
+    postMessage(message, transfer = []) {
+      unanswered?.push([message, transfer]);
+      target.postMessage(message, transfer);
+    },
+    addEventListener: (_, listener) => listeners.add(listener),
+    removeEventListener: (_, listener) => listeners.delete(listener),
+    terminate: () =>
+      target instanceof MessagePort ? target.close() : target.terminate(),
+  };
+};
+
+// kept out of the barrel: import.meta only parses in the bundled build
+export const createSimulation = (
+  options: SphereSimulationOptions = {}
+): SimulationController => {
+  if (typeof Worker === "undefined") {
+    return new SphereSimulation(options);
+  }
+
+  try {
+    const worker = new Worker(new URL("./physics.worker.ts", import.meta.url));
+    return new WorkerSimulation(withInThreadFallback(worker), options);
+  } catch {
+    return new SphereSimulation(options);
+  }
+};
@@ -0,0 +1,137 @@
+import { coulombForces } from "./electrostatics";
+import { createRandom } from "./random";
+import { SphereSimulation } from "./SphereSimulation";
+
+const options = { constant: 1, softening: 0, cutoff: 10 };
+
+describe("electrostatics", () => {
+  it("repels like charges and attracts opposite ones", () => {
+    const [a, b] = coulombForces(
+      [
+        { x: 0, y: 0, z: 0, charge: 1 },
+        { x: 2, y: 0, z: 0, charge: 1 },
+      ],
+      options
+    );
+    expect(a.x).toBeCloseTo(-0.25);
+    expect(b.x).toBeCloseTo(0.25);
+
+    const [c, d] = coulombForces(
+      [
+        { x: 0, y: 0, z: 0, charge: 1 },
+        { x: 2, y: 0, z: 0, charge: -2 },
+      ],
+      options
+    );
+    expect(c.x).toBeCloseTo(0.5);
+    expect(d.x).toBeCloseTo(-0.5);
+  });
+
+  it("ignores pairs beyond the cutoff radius", () => {
+    const forces = coulombForces(
+      [
+        { x: 0, y: 0, z: 0, charge: 1 },
+        { x: 0, y: 3.5, z: 0, charge: 1 },
+      ],
+      { ...options, cutoff: 3 }
+    );
+    forces.forEach(({ x, y, z }) => expect([x, y, z]).toEqual([0, 0, 0]));
+  });
+
+  it("matches a brute-force sum within the cutoff", () => {
+    const random = createRandom(99);
+    const sources = Array.from({ length: 120 }, () => ({
+      x: random.range(-4, 4),
+      y: random.range(-4, 4),
+      z: random.range(-4, 4),
+      charge: random.next() < 0.5 ? 1 : -1,
+    }));
+    const settings = { constant: 2, softening: 0.3, cutoff: 1.5 };
+
+    const expected = sources.map((a) => {
+      const force = { x: 0, y: 0, z: 0 };
+      sources.forEach((b) => {
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const dz = b.z - a.z;
+        const distanceSquared = dx * dx + dy * dy + dz * dz;
+        if (a === b || distanceSquared > 1.5 * 1.5) return;
+
+        const softened = distanceSquared + 0.09;
+        const strength =
+          (2 * a.charge * b.charge) / (softened * Math.sqrt(softened));
+        force.x -= dx * strength;
+        force.y -= dy * strength;
+        force.z -= dz * strength;
+      });
+      return force;
+    });
+
+    coulombForces(sources, settings).forEach((force, index) => {
+      expect(force.x).toBeCloseTo(expected[index].x, 8);
+      expect(force.y).toBeCloseTo(expected[index].y, 8);
+      expect(force.z).toBeCloseTo(expected[index].z, 8);
+    });
+  });
+
+  it("colors and charges spheres when charges are enabled", () => {
+    const simulation = new SphereSimulation({
+      seed: 41,
+      sphereConfig: { smallCount: 60, chargedFraction: 0.7, cueBallCharge: 5 },
+    });
+    const small = simulation.spheres.filter((sphere) => !sphere.isCueBall);
+    const positive = small.filter(({ charge }) => charge > 0);
+    const negative = small.filter(({ charge }) => charge < 0);
+    const neutral = small.filter(({ charge }) => charge === 0);
+
+    expect(positive.length).toBeGreaterThan(0);
+    expect(negative.length).toBeGreaterThan(0);
+    expect(neutral.length).toBeGreaterThan(0);
+    expect(simulation.cueBall?.charge).toBe(5);
+
+    const red = ({ appearance }: { appearance: { color: number } }) =>
+      (appearance.color >> 16) & 0xff;
+    const blue = ({ appearance }: { appearance: { color: number } }) =>
+      appearance.color & 0xff;
+    positive.forEach((sphere) =>
+      expect(red(sphere)).toBeGreaterThan(blue(sphere))
+    );
+    negative.forEach((sphere) =>
+      expect(blue(sphere)).toBeGreaterThan(red(sphere))
+    );
+    expect(positive[0].appearance.emissiveScale).toBeGreaterThan(
+      neutral[0].appearance.emissiveScale
+    );
+  });
+
+  it("pulls opposite charges together and pushes like charges apart", () => {
+    const separation = (chargeA: number, chargeB: number) => {
+      const simulation = new SphereSimulation({
+        seed: 42,
+        physicsConfig: { dampingFactor: 0 },
+        sphereConfig: { smallCount: 1, regenerationInterval: Infinity },
+      });
+      simulation.autoCueStrike = false;
+      simulation.cueBall!.body.position.set(0, -4, 0);
+      const ids = [chargeA, chargeB].map((charge, index) =>
+        simulation.spawnSphere({
+          position: { x: index === 0 ? -1 : 1, y: 2, z: 0 },
+          velocity: { x: 0, y: 0, z: 0 },
+          radius: 0.3,
+          charge,
+        })
+      );
+
+      for (let i = 0; i < 30; i++) simulation.singleStep();
+
+      const [a, b] = ids.map(
+        (id) => simulation.spheres.find((sphere) => sphere.id === id)!.body
+      );
+      return a.position.distanceTo(b.position);
+    };
+
+    expect(separation(0, 0)).toBeCloseTo(2);
+    expect(separation(1, -1)).toBeLessThan(1.9);
+    expect(separation(1, 1)).toBeGreaterThan(2.1);
+  });
+});
@@ -0,0 +1,79 @@
+import { Vector3Like } from "./types";
+
+export interface ChargeSource {
+  x: number;
+  y: number;
+  z: number;
+  charge: number;
+}
+
+export interface CoulombOptions {
+  constant: number;
+  softening: number;
+  cutoff: number;
+}
+
+const cellKey = (x: number, y: number, z: number) => `${x},${y},${z}`;
+
+export const coulombForces = (
+  sources: readonly ChargeSource[],
+  { constant, softening, cutoff }: CoulombOptions
+): Vector3Like[] => {
+  const forces = sources.map(() => ({ x: 0, y: 0, z: 0 }));
+  if (cutoff <= 0 || constant === 0) return forces;
+
+  const cutoffSquared = cutoff * cutoff;
+  const softeningSquared = softening * softening;
+  const cellOf = (value: number) => Math.floor(value / cutoff);
+
+  const cells = new Map<string, number[]>();
+  sources.forEach(({ x, y, z }, index) => {
+    const key = cellKey(cellOf(x), cellOf(y), cellOf(z));
+    const bucket = cells.get(key);
+    if (bucket) {
+      bucket.push(index);
+    } else {
+      cells.set(key, [index]);
+    }
+  });
+
+  sources.forEach((a, i) => {
+    const cx = cellOf(a.x);
+    const cy = cellOf(a.y);
+    const cz = cellOf(a.z);
+
+    for (let ox = -1; ox <= 1; ox++) {
+      for (let oy = -1; oy <= 1; oy++) {
+        for (let oz = -1; oz <= 1; oz++) {
+          cells.get(cellKey(cx + ox, cy + oy, cz + oz))?.forEach((j) => {
+            if (j <= i) return;
+
+            const b = sources[j];
+            const dx = b.x - a.x;
+            const dy = b.y - a.y;
+            const dz = b.z - a.z;
+            const distanceSquared = dx * dx + dy * dy + dz * dz;
+            if (distanceSquared > cutoffSquared) return;
+
+            const softened = distanceSquared + softeningSquared;
+            if (softened === 0) return;
+
+            // like charges push a away from b, opposite charges pull it in
+            const strength =
+              (constant * a.charge * b.charge) /
+              (softened * Math.sqrt(softened));
+
+            forces[i].x -= dx * strength;
+            forces[i].y -= dy * strength;
+            forces[i].z -= dz * strength;
+            forces[j].x += dx * strength;
+            forces[j].y += dy * strength;
+            forces[j].z += dz * strength;
+          });
+        }
+      }
+    }
+  });
+
+  return forces;
+};
@@ -0,0 +1,147 @@
+import { ForceField } from "./forceFields";
+import { Vector3Like } from "./types";
+
+export type Listener<T> = (event: T) => void;
+
+export type SphereRemovalReason =
+  | "regeneration"
+  | "escaped"
+  | "population"
+  | "manual"
+  | "potted"
+  | "absorbed"
+  | "merged"
+  | "fragmented";
+
+export interface CollisionEvent {
+  sphereA: number;
+  sphereB: number;
+  impactSpeed: number;
+  time: number;
+}
+
+export interface SphereEscapedEvent {
+  id: number;
+  isCueBall: boolean;
+  position: Vector3Like;
+  time: number;
+}
+
+export interface SphereSpawnedEvent {
+  id: number;
+  radius: number;
+  color: number;
+  position: Vector3Like;
+  time: number;
+}
+
+export interface SphereRemovedEvent {
+  id: number;
+  reason: SphereRemovalReason;
+  time: number;
+}
+
+export interface SpherePottedEvent {
+  id: number;
+  isCueBall: boolean;
+  radius: number;
+  color: number;
+  pocket: number;
+  time: number;
+}
+
+export interface SphereMergedEvent {
+  id: number;
+  sources: [number, number];
+  radius: number;
+  time: number;
+}
+
+export interface SphereFragmentedEvent {
+  id: number;
+  fragments: number[];
+  impactSpeed: number;
+  time: number;
+}
+
+export interface ForceFieldsChangedEvent {
+  fields: readonly ForceField[];
+  time: number;
+}
+
+export interface SnapshotImportedEvent {
+  time: number;
+}
+
+export interface SimulationErrorEvent {
+  command: string;
+  message: string;
+  time: number;
+}
+
+export interface CueStrikeEvent {
+  id: number;
+  direction: Vector3Like;
+  power: number;
+  automatic: boolean;
+  time: number;
+}
+
+export interface SimulationEvents {
+  collision: CollisionEvent;
+  sphereEscaped: SphereEscapedEvent;
+  sphereSpawned: SphereSpawnedEvent;
+  sphereRemoved: SphereRemovedEvent;
+  cueStrike: CueStrikeEvent;
+  spherePotted: SpherePottedEvent;
+  sphereMerged: SphereMergedEvent;
+  sphereFragmented: SphereFragmentedEvent;
+  forceFieldsChanged: ForceFieldsChangedEvent;
+  snapshotImported: SnapshotImportedEvent;
+  simulationError: SimulationErrorEvent;
+}
+
+export const SIMULATION_EVENT_TYPES: readonly (keyof SimulationEvents)[] = [
+  "collision",
+  "sphereEscaped",
+  "sphereSpawned",
+  "sphereRemoved",
+  "cueStrike",
+  "spherePotted",
+  "sphereMerged",
+  "sphereFragmented",
+  "forceFieldsChanged",
+  "snapshotImported",
+  "simulationError",
+];
+
+export type SimulationEventRecord = {
+  [K in keyof SimulationEvents]: { type: K; event: SimulationEvents[K] };
+}[keyof SimulationEvents];
+
+export class EventEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>) {
+    const set = this.listeners[type] ?? new Set<Listener<Events[K]>>();
+    set.add(listener);
+    this.listeners[type] = set;
+    return () => this.off(type, listener);
+  }
+
+  off<K extends keyof Events>(type: K, listener: Listener<Events[K]>) {
+    this.listeners[type]?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(type: K, event: Events[K]) {
+    this.listeners[type]?.forEach((listener) => listener(event));
+  }
+
+  hasListeners<K extends keyof Events>(type: K): boolean {
+    return (this.listeners[type]?.size ?? 0) > 0;
+  }
+
+  clear() {
+    this.listeners = {};
+  }
+}
@@ -0,0 +1,124 @@
+import { defaultFluidConfig } from "./config";
+import { createContainerShape } from "./container";
+import {
+  fluidForce,
+  sphereVolume,
+  submergedVolume,
+  surfaceHeight,
+} from "./fluid";
+import { SphereSimulation } from "./SphereSimulation";
+
+const up = { x: 0, y: 1, z: 0 };
+const surface = { normal: up, height: 0 };
+const fluid = { ...defaultFluidConfig, enabled: true };
+
+describe("fluid", () => {
+  it("measures the submerged cap of a sphere", () => {
+    expect(submergedVolume(1, 2)).toBe(0);
+    expect(submergedVolume(1, 0)).toBeCloseTo(sphereVolume(1) / 2);
+    expect(submergedVolume(1, -3)).toBeCloseTo(sphereVolume(1));
+  });
+
+  it("places the surface by fill level along the surface normal", () => {
+    const sphere = createContainerShape(
+      { shape: "sphere", proportions: { x: 1, y: 1, z: 1 }, tubeRatio: 0.3 },
+      5
+    );
+    expect(surfaceHeight(sphere, up, 0.5)).toBeCloseTo(0);
+    expect(surfaceHeight(sphere, up, 1)).toBeCloseTo(5);
+
+    const cube = createContainerShape(
+      { shape: "cube", proportions: { x: 1, y: 0.5, z: 1 }, tubeRatio: 0.3 },
+      4
+    );
+    expect(surfaceHeight(cube, up, 0.25)).toBeCloseTo(-1);
+  });
+
+  it("floats light spheres and sinks dense ones", () => {
+    const radius = 0.5;
+    const body = (density: number) => ({
+      position: { x: 0, y: -2, z: 0 },
+      velocity: { x: 0, y: 0, z: 0 },
+      mass: density * sphereVolume(radius),
+    });
+
+    expect(fluidForce(fluid, surface, up, body(1), radius, 1 / 60).y).toBe(
+      (fluid.density - 1) * sphereVolume(radius) * fluid.gravity
+    );
+    expect(
+      fluidForce(fluid, surface, up, body(6), radius, 1 / 60).y
+    ).toBeLessThan(0);
+  });
+
+  it("drags harder below the surface than above it", () => {
+    const drag = (y: number) =>
+      fluidForce(
+        { ...fluid, gravity: 0 },
+        surface,
+        up,
+        {
+          position: { x: 0, y, z: 0 },
+          velocity: { x: 2, y: 0, z: 0 },
+          mass: 1,
+        },
+        0.3,
+        1 / 60
+      ).x;
+
+    expect(drag(-1)).toBeLessThan(drag(1));
+    expect(drag(1)).toBeLessThan(0);
+    expect(drag(-1) / drag(1)).toBeCloseTo(fluid.viscosity / fluid.airDrag);
+  });
+
+  it("sorts spheres by density around the liquid surface", () => {
+    const simulation = new SphereSimulation({
+      seed: 61,
+      sphereConfig: { smallCount: 1, regenerationInterval: Infinity },
+      fluid: { enabled: true, fillLevel: 0.5 },
+    });
+    simulation.autoCueStrike = false;
+    simulation.cueBall!.body.position.set(3, -3, 0);
+
+    const cork = simulation.spawnSphere({
+      position: { x: -1, y: -3, z: 0 },
+      velocity: { x: 0, y: 0, z: 0 },
+      radius: 0.4,
+      archetype: "rubber",
+    });
+    const anchor = simulation.spawnSphere({
+      position: { x: 1, y: 2, z: 0 },
+      velocity: { x: 0, y: 0, z: 0 },
+      radius: 0.4,
+      archetype: "metal",
+    });
+
+    for (let i = 0; i < 240; i++) simulation.singleStep();
+
+    const height = (id: number) =>
+      simulation.spheres.find((sphere) => sphere.id === id)!.body.position.y;
+    expect(height(cork)).toBeGreaterThan(-0.5);
+    expect(height(anchor)).toBeLessThan(-2);
+  });
+
+  it("sloshes the surface towards a new down direction", () => {
+    const simulation = new SphereSimulation({
+      seed: 62,
+      fluid: { enabled: true },
+    });
+    expect(simulation.fluidSurface?.normal.y).toBeCloseTo(1);
+
+    simulation.setFluidDown({ x: -1, y: 0, z: 0 });
+    simulation.singleStep();
+    const early = simulation.fluidSurface!.normal.x;
+
+    for (let i = 0; i < 300; i++) simulation.singleStep();
+    const settled = simulation.fluidSurface!.normal.x;
+
+    expect(early).toBeGreaterThan(0);
+    expect(early).toBeLessThan(0.5);
+    expect(settled).toBeCloseTo(1, 1);
+
+    simulation.setFluidConfig({ enabled: false });
+    expect(simulation.fluidSurface).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { FluidConfig } from "./config";
+import { ContainerShape } from "./container";
+import { Vector3Like } from "./types";
+
+export interface FluidSurface {
+  normal: Vector3Like;
+  height: number;
+}
+
+const dot = (a: Vector3Like, b: Vector3Like) =>
+  a.x * b.x + a.y * b.y + a.z * b.z;
+
+export const sphereVolume = (radius: number) => (4 / 3) * Math.PI * radius ** 3;
+
+// volume of the spherical cap below a surface the center sits `height` above
+export const submergedVolume = (radius: number, height: number) => {
+  const depth = Math.min(Math.max(radius - height, 0), 2 * radius);
+  return (Math.PI * depth * depth * (3 * radius - depth)) / 3;
+};
+
+export const surfaceHeight = (
+  shape: ContainerShape,
+  normal: Vector3Like,
+  fillLevel: number
+): number => {
+  const down = { x: -normal.x, y: -normal.y, z: -normal.z };
+  const top = dot(shape.interiorPoint(normal, 1), normal);
+  const bottom = dot(shape.interiorPoint(down, 1), normal);
+  const fill = Math.min(Math.max(fillLevel, 0), 1);
+
+  return bottom + (top - bottom) * fill;
+};
+
+export const fluidForce = (
+  config: FluidConfig,
+  surface: FluidSurface,
+  up: Vector3Like,
+  body: { position: Vector3Like; velocity: Vector3Like; mass: number },
+  radius: number,
+  timeStep: number
+): Vector3Like => {
+  const height = dot(body.position, surface.normal) - surface.height;
+  const displaced = submergedVolume(radius, height);
+  const submerged = displaced / sphereVolume(radius);
+
+  const lift = (config.density * displaced - body.mass) * config.gravity;
+
+  const { velocity } = body;
+  const speed = Math.sqrt(dot(velocity, velocity));
+  const drag = Math.min(
+    (submerged * config.viscosity + (1 - submerged) * config.airDrag) *
+      Math.PI *
+      radius *
+      radius *
+      speed,
+    body.mass / timeStep
+  );
+
+  return {
+    x: up.x * lift - velocity.x * drag,
+    y: up.y * lift - velocity.y * drag,
+    z: up.z * lift - velocity.z * drag,
+  };
+};
@@ -0,0 +1,113 @@
+import {
+  fieldAcceleration,
+  parseForceFields,
+  resolveForceField,
+  serializeForceFields,
+} from "./forceFields";
+import { SphereSimulation } from "./SphereSimulation";
+
+const field = (type: "attractor" | "repulsor" | "vortex" | "wind") =>
+  resolveForceField({
+    type,
+    position: { x: 0, y: 0, z: 0 },
+    direction: { x: 0, y: 2, z: 0 },
+    strength: 10,
+    radius: 4,
+  });
+
+describe("force fields", () => {
+  it("pulls, pushes, swirls and blows with a linear falloff", () => {
+    const point = { x: 2, y: 0, z: 0 };
+
+    const pull = fieldAcceleration(field("attractor"), point);
+    expect(pull.x).toBeCloseTo(-5);
+    expect(pull.y).toBeCloseTo(0);
+    expect(fieldAcceleration(field("repulsor"), point).x).toBeCloseTo(5);
+
+    const swirl = fieldAcceleration(field("vortex"), point);
+    expect(swirl.x).toBeCloseTo(0);
+    expect(swirl.z).toBeCloseTo(-5);
+
+    const wind = fieldAcceleration(field("wind"), point);
+    expect(wind.y).toBeCloseTo(5);
+  });
+
+  it("has no effect outside its radius", () => {
+    expect(fieldAcceleration(field("wind"), { x: 0, y: 0, z: 4.5 })).toEqual({
+      x: 0,
+      y: 0,
+      z: 0,
+    });
+  });
+
+  it("round-trips through JSON and rejects malformed entries", () => {
+    const specs = serializeForceFields([field("vortex"), field("repulsor")]);
+
+    expect(parseForceFields(JSON.parse(JSON.stringify(specs)))).toEqual(specs);
+    expect(() => parseForceFields({})).toThrow("must be an array");
+    expect(() => parseForceFields([{ ...specs[0], type: "tornado" }])).toThrow(
+      "index 0"
+    );
+    expect(() =>
+      parseForceFields([specs[0], { ...specs[1], radius: "big" }])
+    ).toThrow("index 1");
+  });
+
+  it("adds, edits and removes fields on the simulation", () => {
+    const simulation = new SphereSimulation({ seed: 3 });
+    const onChanged = jest.fn();
+    simulation.on("forceFieldsChanged", onChanged);
+
+    const id = simulation.addForceField({
+      type: "attractor",
+      position: { x: 20, y: 0, z: 0 },
+    });
+    const [placed] = simulation.forceFields;
+    expect(placed.id).toBe(id);
+    expect(placed.position.x).toBeCloseTo(simulation.sphereConfig.mainRadius);
+
+    expect(simulation.updateForceField(id, { strength: 3 })).toBe(true);
+    expect(simulation.forceFields[0]).not.toBe(placed);
+    expect(simulation.forceFields[0]).toMatchObject({ id, strength: 3 });
+
+    expect(simulation.removeForceField(id)).toBe(true);
+    expect(simulation.removeForceField(id)).toBe(false);
+    expect(simulation.updateForceField(id, { strength: 1 })).toBe(false);
+    expect(simulation.forceFields).toHaveLength(0);
+    expect(onChanged).toHaveBeenCalledTimes(3);
+  });
+
+  it("accelerates spheres inside a field", () => {
+    const simulation = new SphereSimulation({
+      seed: 4,
+      physicsConfig: { dampingFactor: 0 },
+      sphereConfig: { smallCount: 1, regenerationInterval: Infinity },
+      forceFields: [
+        {
+          type: "wind",
+          position: { x: 0, y: 0, z: 0 },
+          direction: { x: 1, y: 0, z: 0 },
+          strength: 6,
+          radius: 3,
+        },
+      ],
+    });
+    simulation.autoCueStrike = false;
+    simulation.cueBall!.body.position.set(0, -4, 0);
+    const inside = simulation.spawnSphere({
+      position: { x: 0, y: 1, z: 0 },
+      velocity: { x: 0, y: 0, z: 0 },
+    });
+    const outside = simulation.spawnSphere({
+      position: { x: 0, y: 0, z: 4 },
+      velocity: { x: 0, y: 0, z: 0 },
+    });
+
+    for (let i = 0; i < 10; i++) simulation.singleStep();
+
+    const velocity = (id: number) =>
+      simulation.spheres.find((sphere) => sphere.id === id)!.body.velocity;
+    expect(velocity(inside).x).toBeGreaterThan(0.3);
+    expect(velocity(outside).x).toBeCloseTo(0);
+  });
+});
@@ -0,0 +1,131 @@
+import { Vector3Like } from "./types";
+
+export type ForceFieldType = "attractor" | "repulsor" | "vortex" | "wind";
+
+export interface ForceFieldSpec {
+  type: ForceFieldType;
+  position: Vector3Like;
+  direction: Vector3Like;
+  strength: number;
+  radius: number;
+}
+
+export interface ForceField extends ForceFieldSpec {
+  id: number;
+}
+
+export type ForceFieldInput = Pick<ForceFieldSpec, "type" | "position"> &
+  Partial<ForceFieldSpec>;
+
+export const FORCE_FIELD_TYPES: readonly ForceFieldType[] = [
+  "attractor",
+  "repulsor",
+  "vortex",
+  "wind",
+];
+
+export const defaultForceField: Omit<ForceFieldSpec, "type" | "position"> = {
+  direction: { x: 0, y: 1, z: 0 },
+  strength: 8,
+  radius: 2.5,
+};
+
+export const resolveForceField = (input: ForceFieldInput): ForceFieldSpec => ({
+  ...defaultForceField,
+  ...input,
+  position: { ...input.position },
+  direction: { ...(input.direction ?? defaultForceField.direction) },
+});
+
+const ZERO = { x: 0, y: 0, z: 0 };
+
+export const fieldAcceleration = (
+  field: ForceFieldSpec,
+  point: Vector3Like
+): Vector3Like => {
+  const dx = point.x - field.position.x;
+  const dy = point.y - field.position.y;
+  const dz = point.z - field.position.z;
+  const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  if (field.radius <= 0 || distance > field.radius) return ZERO;
+
+  const magnitude = field.strength * (1 - distance / field.radius);
+  const { x: ax, y: ay, z: az } = field.direction;
+
+  switch (field.type) {
+    case "attractor":
+    case "repulsor": {
+      if (distance === 0) return ZERO;
+      const sign = field.type === "attractor" ? -1 : 1;
+      const scale = (sign * magnitude) / distance;
+      return { x: dx * scale, y: dy * scale, z: dz * scale };
+    }
+    case "vortex": {
+      const tx = ay * dz - az * dy;
+      const ty = az * dx - ax * dz;
+      const tz = ax * dy - ay * dx;
+      const length = Math.sqrt(tx * tx + ty * ty + tz * tz);
+      if (length === 0) return ZERO;
+      const scale = magnitude / length;
+      return { x: tx * scale, y: ty * scale, z: tz * scale };
+    }
+    case "wind": {
+      const length = Math.sqrt(ax * ax + ay * ay + az * az);
+      if (length === 0) return ZERO;
+      const scale = magnitude / length;
+      return { x: ax * scale, y: ay * scale, z: az * scale };
+    }
+    default:
+      return ZERO;
+  }
+};
+
+export const serializeForceFields = (
+  fields: readonly ForceFieldSpec[]
+): ForceFieldSpec[] =>
+  fields.map(({ type, position, direction, strength, radius }) => ({
+    type,
+    position: { x: position.x, y: position.y, z: position.z },
+    direction: { x: direction.x, y: direction.y, z: direction.z },
+    strength,
+    radius,
+  }));
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isVector = (value: unknown): value is Vector3Like => {
+  if (typeof value !== "object" || value === null) return false;
+  const { x, y, z } = value as Record<string, unknown>;
+  return isFiniteNumber(x) && isFiniteNumber(y) && isFiniteNumber(z);
+};
+
+export const parseForceFields = (data: unknown): ForceFieldSpec[] => {
+  if (!Array.isArray(data)) {
+    throw new Error("Force fields must be an array");
+  }
+
+  return data.map((entry, index) => {
+    const { type, position, direction, strength, radius } = (entry ??
+      {}) as Record<string, unknown>;
+
+    if (
+      !FORCE_FIELD_TYPES.includes(type as ForceFieldType) ||
+      !isVector(position) ||
+      !isVector(direction) ||
+      !isFiniteNumber(strength) ||
+      !isFiniteNumber(radius) ||
+      radius < 0
+    ) {
+      throw new Error(`Invalid force field at index ${index}`);
+    }
+
+    return resolveForceField({
+      type: type as ForceFieldType,
+      position,
+      direction,
+      strength,
+      radius,
+    });
+  });
+};
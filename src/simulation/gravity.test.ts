@@ -0,0 +1,106 @@
+import { barnesHutGravity, computeGravity, directGravity } from "./gravity";
+import { createRandom } from "./random";
+import { SphereSimulation } from "./SphereSimulation";
+
+const options = { constant: 1, softening: 0.1, theta: 0.5, threshold: 64 };
+
+const randomSources = (count: number, seed: number) => {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, () => ({
+    x: random.range(-5, 5),
+    y: random.range(-5, 5),
+    z: random.range(-5, 5),
+    mass: random.range(0.4, 1.2),
+  }));
+};
+
+describe("mutual gravity", () => {
+  it("pulls two bodies towards each other with equal and opposite forces", () => {
+    const [a, b] = directGravity(
+      [
+        { x: 0, y: 0, z: 0, mass: 2 },
+        { x: 3, y: 0, z: 0, mass: 1 },
+      ],
+      { ...options, softening: 0 }
+    );
+
+    expect(a.x).toBeCloseTo(2 / 9);
+    expect(b.x).toBeCloseTo(-2 / 9);
+    expect(a.y).toBe(0);
+  });
+
+  it("approximates the direct sum with Barnes-Hut", () => {
+    const sources = randomSources(400, 4181);
+    const exact = directGravity(sources, options);
+    const approximate = barnesHutGravity(sources, options);
+
+    let error = 0;
+    let magnitude = 0;
+    exact.forEach((force, index) => {
+      const other = approximate[index];
+      error += Math.hypot(
+        force.x - other.x,
+        force.y - other.y,
+        force.z - other.z
+      );
+      magnitude += Math.hypot(force.x, force.y, force.z);
+    });
+
+    expect(error / magnitude).toBeLessThan(0.02);
+  });
+
+  it("matches the direct sum exactly when every node is opened", () => {
+    const sources = randomSources(50, 6765);
+    const exact = directGravity(sources, options);
+    const opened = barnesHutGravity(sources, { ...options, theta: 0 });
+
+    exact.forEach((force, index) => {
+      expect(opened[index].x).toBeCloseTo(force.x, 8);
+      expect(opened[index].y).toBeCloseTo(force.y, 8);
+      expect(opened[index].z).toBeCloseTo(force.z, 8);
+    });
+  });
+
+  it("handles coincident bodies without blowing up", () => {
+    const sources = Array.from({ length: 80 }, () => ({
+      x: 1,
+      y: 1,
+      z: 1,
+      mass: 1,
+    }));
+
+    computeGravity(sources, options).forEach(({ x, y, z }) => {
+      expect(Number.isFinite(x + y + z)).toBe(true);
+    });
+  });
+
+  it("draws small spheres together when enabled", () => {
+    const separation = (mutualGravity: number) => {
+      const simulation = new SphereSimulation({
+        seed: 10946,
+        physicsConfig: { mutualGravity, dampingFactor: 0 },
+        sphereConfig: { smallCount: 1, regenerationInterval: Infinity },
+      });
+      const a = simulation.spawnSphere({
+        position: { x: -1.5, y: 2, z: 0 },
+        velocity: { x: 0, y: 0, z: 0 },
+        radius: 0.3,
+      });
+      const b = simulation.spawnSphere({
+        position: { x: 1.5, y: 2, z: 0 },
+        velocity: { x: 0, y: 0, z: 0 },
+        radius: 0.3,
+      });
+
+      for (let i = 0; i < 60; i++) simulation.singleStep();
+
+      const [first, second] = [a, b].map(
+        (id) => simulation.spheres.find((sphere) => sphere.id === id)!.body
+      );
+      return first.position.distanceTo(second.position);
+    };
+
+    expect(separation(0)).toBeCloseTo(3);
+    expect(separation(5)).toBeLessThan(2.8);
+  });
+});
@@ -0,0 +1,216 @@
+import { Vector3Like } from "./types";
+
+export interface GravitySource {
+  x: number;
+  y: number;
+  z: number;
+  mass: number;
+}
+
+export interface GravityOptions {
+  constant: number;
+  softening: number;
+  theta: number;
+  threshold: number;
+}
+
+const MAX_TREE_DEPTH = 24;
+
+interface OctreeNode {
+  x: number;
+  y: number;
+  z: number;
+  half: number;
+  mass: number;
+  comX: number;
+  comY: number;
+  comZ: number;
+  source: number;
+  children: (OctreeNode | null)[] | null;
+}
+
+const createNode = (
+  x: number,
+  y: number,
+  z: number,
+  half: number
+): OctreeNode => ({
+  x,
+  y,
+  z,
+  half,
+  mass: 0,
+  comX: 0,
+  comY: 0,
+  comZ: 0,
+  source: -1,
+  children: null,
+});
+
+const octantOf = (node: OctreeNode, source: GravitySource) =>
+  (source.x >= node.x ? 1 : 0) |
+  (source.y >= node.y ? 2 : 0) |
+  (source.z >= node.z ? 4 : 0);
+
+const childFor = (node: OctreeNode, octant: number): OctreeNode => {
+  const children = node.children ?? (node.children = Array(8).fill(null));
+  const existing = children[octant];
+  if (existing) return existing;
+
+  const quarter = node.half / 2;
+  const child = createNode(
+    node.x + (octant & 1 ? quarter : -quarter),
+    node.y + (octant & 2 ? quarter : -quarter),
+    node.z + (octant & 4 ? quarter : -quarter),
+    quarter
+  );
+  children[octant] = child;
+  return child;
+};
+
+const insert = (
+  node: OctreeNode,
+  sources: readonly GravitySource[],
+  index: number,
+  depth: number
+) => {
+  const source = sources[index];
+  const wasEmpty = node.mass === 0 && node.source === -1 && !node.children;
+  const total = node.mass + source.mass;
+  if (total > 0) {
+    node.comX = (node.comX * node.mass + source.x * source.mass) / total;
+    node.comY = (node.comY * node.mass + source.y * source.mass) / total;
+    node.comZ = (node.comZ * node.mass + source.z * source.mass) / total;
+  }
+  node.mass = total;
+
+  if (wasEmpty) {
+    node.source = index;
+    return;
+  }
+
+  if (depth >= MAX_TREE_DEPTH) {
+    node.source = -1;
+    return;
+  }
+
+  if (node.source !== -1) {
+    const previous = node.source;
+    node.source = -1;
+    insert(
+      childFor(node, octantOf(node, sources[previous])),
+      sources,
+      previous,
+      depth + 1
+    );
+  }
+
+  insert(childFor(node, octantOf(node, source)), sources, index, depth + 1);
+};
+
+const buildOctree = (sources: readonly GravitySource[]): OctreeNode => {
+  let extent = 0;
+  sources.forEach(({ x, y, z }) => {
+    extent = Math.max(extent, Math.abs(x), Math.abs(y), Math.abs(z));
+  });
+
+  const root = createNode(0, 0, 0, extent + 1e-3);
+  sources.forEach((_, index) => insert(root, sources, index, 0));
+  return root;
+};
+
+const accumulate = (
+  target: Vector3Like,
+  source: GravitySource,
+  dx: number,
+  dy: number,
+  dz: number,
+  mass: number,
+  { constant, softening }: GravityOptions
+) => {
+  const distanceSquared = dx * dx + dy * dy + dz * dz + softening * softening;
+  const strength =
+    (constant * source.mass * mass) /
+    (distanceSquared * Math.sqrt(distanceSquared));
+
+  target.x += dx * strength;
+  target.y += dy * strength;
+  target.z += dz * strength;
+};
+
+const treeForce = (
+  node: OctreeNode,
+  sources: readonly GravitySource[],
+  index: number,
+  options: GravityOptions,
+  target: Vector3Like
+) => {
+  if (node.mass === 0 || node.source === index) return;
+
+  const source = sources[index];
+  const dx = node.comX - source.x;
+  const dy = node.comY - source.y;
+  const dz = node.comZ - source.z;
+
+  if (node.source !== -1 || !node.children) {
+    if (node.source === -1 && dx === 0 && dy === 0 && dz === 0) return;
+    accumulate(target, source, dx, dy, dz, node.mass, options);
+    return;
+  }
+
+  const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  if (distance > 0 && (node.half * 2) / distance < options.theta) {
+    accumulate(target, source, dx, dy, dz, node.mass, options);
+    return;
+  }
+
+  node.children.forEach((child) => {
+    if (child) treeForce(child, sources, index, options, target);
+  });
+};
+
+export const directGravity = (
+  sources: readonly GravitySource[],
+  options: GravityOptions
+): Vector3Like[] => {
+  const forces = sources.map(() => ({ x: 0, y: 0, z: 0 }));
+
+  for (let i = 0; i < sources.length; i++) {
+    for (let j = i + 1; j < sources.length; j++) {
+      const a = sources[i];
+      const b = sources[j];
+      const pull = { x: 0, y: 0, z: 0 };
+      accumulate(pull, a, b.x - a.x, b.y - a.y, b.z - a.z, b.mass, options);
+
+      forces[i].x += pull.x;
+      forces[i].y += pull.y;
+      forces[i].z += pull.z;
+      forces[j].x -= pull.x;
+      forces[j].y -= pull.y;
+      forces[j].z -= pull.z;
+    }
+  }
+
+  return forces;
+};
+
+export const barnesHutGravity = (
+  sources: readonly GravitySource[],
+  options: GravityOptions
+): Vector3Like[] => {
+  const root = buildOctree(sources);
+
+  return sources.map((_, index) => {
+    const force = { x: 0, y: 0, z: 0 };
+    treeForce(root, sources, index, options, force);
+    return force;
+  });
+};
+
+export const computeGravity = (
+  sources: readonly GravitySource[],
+  options: GravityOptions
+): Vector3Like[] =>
+  sources.length > options.threshold
+    ? barnesHutGravity(sources, options)
+    : directGravity(sources, options);
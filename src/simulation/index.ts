@@ -0,0 +1,134 @@
+export * from "./config";
+export * from "./types";
+export * from "./random";
+export * from "./events";
+export {
+  SPHERE_ARCHETYPES,
+  archetypeDefinitions,
+  archetypeMass,
+  pickArchetype,
+} from "./archetypes";
+export type {
+  ArchetypeDefinition,
+  ArchetypeMix,
+  ArchetypeSurface,
+  SphereArchetype,
+} from "./archetypes";
+export { BOUNDARY_MODES, boundaryHandlers } from "./boundary";
+export { coulombForces } from "./electrostatics";
+export {
+  fluidForce,
+  sphereVolume,
+  submergedVolume,
+  surfaceHeight,
+} from "./fluid";
+export type { FluidSurface } from "./fluid";
+export {
+  FORCE_FIELD_TYPES,
+  defaultForceField,
+  fieldAcceleration,
+  parseForceFields,
+  resolveForceField,
+  serializeForceFields,
+} from "./forceFields";
+export type {
+  ForceField,
+  ForceFieldInput,
+  ForceFieldSpec,
+  ForceFieldType,
+} from "./forceFields";
+export type { ChargeSource, CoulombOptions } from "./electrostatics";
+export {
+  CONTAINER_SHAPES,
+  constrainInside,
+  createContainerShape,
+} from "./container";
+export type { ContainerShape, ContainerShapeType } from "./container";
+export { barnesHutGravity, computeGravity, directGravity } from "./gravity";
+export type { GravityOptions, GravitySource } from "./gravity";
+export type {
+  BoundaryContext,
+  BoundaryHandler,
+  BoundaryMode,
+  BoundaryOutcome,
+} from "./boundary";
+export { SphereSimulation } from "./SphereSimulation";
+export { SphereRegistry } from "./SphereRegistry";
+export { predictFirstContact } from "./aim";
+export type {
+  SimulationController,
+  SphereSimulationOptions,
+} from "./SphereSimulation";
+export { SimulationServer } from "./SimulationServer";
+export { SNAPSHOT_VERSION, parseSnapshot, serializeSnapshot } from "./snapshot";
+export type {
+  BodySnapshot,
+  CameraPose,
+  QuaternionLike,
+  SceneSnapshot,
+  SimulationSnapshot,
+  SphereSnapshot,
+} from "./snapshot";
+export {
+  configOverrides,
+  readOverrides,
+  readPhysicsOverrides,
+  readSphereOverrides,
+} from "./configOverrides";
+export type { ConfigRange, OverrideRules, Warn } from "./configOverrides";
+export { RESERVED_SPHERE_ID_BASE, WorkerSimulation } from "./WorkerSimulation";
+export {
+  MAX_PACKED_ID,
+  TRANSFORM_STRIDE,
+  interpolateTransforms,
+  isPackableId,
+  packTransforms,
+} from "./transforms";
+export type {
+  ErrorReply,
+  MessageEndpoint,
+  RecordingReply,
+  SimulationCommand,
+  SimulationFrame,
+  SimulationReply,
+  SnapshotReply,
+  SphereDescriptor,
+} from "./workerProtocol";
+export {
+  PocketGame,
+  defaultPocketGameConfig,
+  pocketScore,
+  resolvePocketGameConfig,
+} from "./PocketGame";
+export type {
+  PocketGameConfig,
+  PocketGameState,
+  PocketGameStatus,
+} from "./PocketGame";
+export {
+  RECORDED_EVENT_TYPES,
+  RECORDING_VERSION,
+  decodeRecording,
+  encodeRecording,
+} from "./recording";
+export type {
+  RecordedEvent,
+  RecordedEventType,
+  RecordedFrame,
+  Recording,
+} from "./recording";
+export { SimulationRecorder } from "./SimulationRecorder";
+export type { RecorderOptions } from "./SimulationRecorder";
+export {
+  MAX_PLAYBACK_SPEED,
+  MIN_PLAYBACK_SPEED,
+  RecordingPlayer,
+} from "./RecordingPlayer";
+export type { PlaybackEvents, PlaybackMarker } from "./RecordingPlayer";
+export { SimulationTelemetry } from "./SimulationTelemetry";
+export type {
+  FrameCost,
+  FrameTiming,
+  TelemetryOptions,
+  TelemetrySample,
+} from "./SimulationTelemetry";
@@ -0,0 +1,5 @@
+import { SimulationServer } from "./SimulationServer";
+import { MessageEndpoint } from "./workerProtocol";
+
+// eslint-disable-next-line no-restricted-globals
+new SimulationServer(self as unknown as MessageEndpoint);
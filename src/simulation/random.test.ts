@@ -0,0 +1,32 @@
+import { createRandom } from "./random";
+
+describe("createRandom", () => {
+  it("repeats the same sequence for the same seed", () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+
+    for (let i = 0; i < 100; i++) {
+      expect(a.next()).toBe(b.next());
+    }
+  });
+
+  it("returns values in [0, 1)", () => {
+    const random = createRandom(99);
+
+    for (let i = 0; i < 1000; i++) {
+      const value = random.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it("resumes the sequence from a saved state", () => {
+    const random = createRandom(3);
+    random.next();
+    const saved = random.state;
+    const expected = [random.next(), random.next()];
+
+    random.state = saved;
+    expect([random.next(), random.next()]).toEqual(expected);
+  });
+});
@@ -0,0 +1,39 @@
+export interface Random {
+  readonly seed: number;
+  state: number;
+  next(): number;
+  range(min: number, max: number): number;
+  int(max: number): number;
+}
+
+export const randomSeed = (): number =>
+  Math.floor(Math.random() * 0x100000000) >>> 0;
+
+class Mulberry32 implements Random {
+  readonly seed: number;
+  state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+}
+
+export const createRandom = (seed: number = randomSeed()): Random =>
+  new Mulberry32(seed);
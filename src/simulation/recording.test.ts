@@ -0,0 +1,160 @@
+import {
+  FrameDecoder,
+  RECORDING_VERSION,
+  Recording,
+  decodeRecording,
+  encodeRecording,
+} from "./recording";
+import { SimulationRecorder } from "./SimulationRecorder";
+import { SphereSimulation } from "./SphereSimulation";
+import { TRANSFORM_STRIDE, packTransforms } from "./transforms";
+
+const stepMs = 1000 / 60;
+
+const record = (
+  frames: number,
+  keyframeInterval = 8,
+  beforeStep?: (simulation: SphereSimulation, frame: number) => void
+) => {
+  const simulation = new SphereSimulation({
+    seed: 301,
+    sphereConfig: { regenerationInterval: 300 },
+  });
+  const recorder = new SimulationRecorder(simulation, { keyframeInterval });
+  const expected: Float32Array[] = [];
+  for (let i = 0; i < frames; i++) {
+    beforeStep?.(simulation, i);
+    simulation.step(stepMs);
+    recorder.capture();
+    const pending = simulation.pendingSphere;
+    expected.push(
+      packTransforms(
+        pending ? [...simulation.spheres, pending] : simulation.spheres
+      )
+    );
+  }
+  return { simulation, recording: recorder.finish(), expected };
+};
+
+const expectRowsClose = (actual: Float32Array, expected: Float32Array) => {
+  expect(actual.length).toBe(expected.length);
+  for (let offset = 0; offset < expected.length; offset += TRANSFORM_STRIDE) {
+    expect(actual[offset]).toBe(expected[offset]);
+    [1, 2, 3, 11, 12].forEach((channel) =>
+      expect(actual[offset + channel]).toBeCloseTo(
+        expected[offset + channel],
+        3
+      )
+    );
+    [4, 5, 6, 7].forEach((channel) =>
+      expect(actual[offset + channel]).toBeCloseTo(
+        expected[offset + channel],
+        4
+      )
+    );
+  }
+};
+
+describe("recordings", () => {
+  it("decodes every frame to the recorded transforms", () => {
+    const { recording, expected } = record(40);
+    const decoder = new FrameDecoder(recording);
+
+    expect(recording.times).toHaveLength(41);
+    expect(recording.keyframes).toHaveLength(6);
+    expected.forEach((transforms, index) =>
+      expectRowsClose(decoder.decode(index + 1).transforms, transforms)
+    );
+  });
+
+  it("seeks backwards and across keyframes", () => {
+    const { recording, expected } = record(30);
+    const decoder = new FrameDecoder(recording);
+
+    [29, 3, 17, 16, 30, 1].forEach((index) =>
+      expectRowsClose(decoder.decode(index).transforms, expected[index - 1])
+    );
+    expect(decoder.decode(17).time).toBeCloseTo(recording.times[17], 3);
+  });
+
+  it("records spawn, removal and strike events with sphere descriptors", () => {
+    const { simulation, recording } = record(90, 8, (target, frame) => {
+      if (frame === 45) target.strikeCueBall({ x: 1, y: 0, z: 0 });
+    });
+    const types = new Set(recording.events.map(({ record }) => record.type));
+
+    expect(types.has("sphereSpawned")).toBe(true);
+    expect(types.has("sphereRemoved")).toBe(true);
+    expect(types.has("cueStrike")).toBe(true);
+    const described = new Set(recording.spheres.map(({ sphere }) => sphere.id));
+    simulation.spheres.forEach(({ id }) =>
+      expect(described.has(id)).toBe(true)
+    );
+  });
+
+  it("survives a binary round trip far smaller than raw transforms", () => {
+    const { recording } = record(120, 60);
+    const bytes = encodeRecording(recording);
+    const decoded = decodeRecording(bytes.buffer);
+    const raw = new FrameDecoder(recording);
+    const restored = new FrameDecoder(decoded);
+
+    expect(decoded.times).toEqual(recording.times);
+    expect(decoded.keyframes).toEqual(recording.keyframes);
+    expect(decoded.spheres).toEqual(recording.spheres);
+    expect(decoded.events).toEqual(recording.events);
+    expect(restored.decode(75)).toEqual(raw.decode(75));
+
+    const rawBytes = recording.times.reduce(
+      (total, _, index) =>
+        total +
+        raw.decode(index).transforms.length * Float32Array.BYTES_PER_ELEMENT,
+      0
+    );
+    expect(recording.data.length).toBeLessThan(rawBytes / 4);
+    expect(bytes.length).toBeLessThan(rawBytes / 3);
+  });
+
+  it("records every fixed step when the simulation runs faster", async () => {
+    const simulation = new SphereSimulation({ seed: 303 });
+    simulation.timeScale = 3;
+    simulation.startRecording({ keyframeInterval: 8 });
+    let steps = 0;
+    for (let i = 0; i < 40; i++) {
+      steps += simulation.step(stepMs);
+    }
+    const recording = await simulation.stopRecording();
+    const fixedStep = simulation.physicsConfig.timeStep * 1000;
+
+    expect(steps).toBeGreaterThan(40);
+    expect(recording?.times).toHaveLength(steps + 1);
+    recording?.times.slice(1).forEach((time, index) => {
+      expect(time - recording.times[index]).toBeCloseTo(fixedStep, 2);
+    });
+    expect(await simulation.stopRecording()).toBeNull();
+  });
+
+  it("rejects data that is not a usable recording", () => {
+    const { recording } = record(10);
+    const bytes = encodeRecording(recording);
+    const newer = bytes.slice();
+    newer[4] = RECORDING_VERSION + 1;
+    const truncated = bytes.slice(0, bytes.length - 3);
+    const broken: Recording = { ...recording, keyframeInterval: 0 };
+
+    expect(() => decodeRecording(new Uint8Array([1, 2, 3, 4]))).toThrow(
+      "Data is not a sphere recording"
+    );
+    expect(() => decodeRecording(newer)).toThrow(
+      `Recording version ${
+        RECORDING_VERSION + 1
+      } is newer than the supported version ${RECORDING_VERSION}`
+    );
+    expect(() => decodeRecording(truncated)).toThrow(
+      "Recording data ends unexpectedly"
+    );
+    expect(() => decodeRecording(encodeRecording(broken))).toThrow(
+      "Invalid recording: keyframeInterval must be a positive integer"
+    );
+  });
+});
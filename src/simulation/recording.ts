@@ -0,0 +1,396 @@
+import { SimulationEventRecord } from "./events";
+import { TRANSFORM_STRIDE, transformRows } from "./transforms";
+import { SphereDescriptor } from "./workerProtocol";
+
+export const RECORDING_VERSION = 1;
+
+export const RECORDED_EVENT_TYPES = [
+  "sphereSpawned",
+  "sphereRemoved",
+  "cueStrike",
+] as const;
+
+export type RecordedEventType = (typeof RECORDED_EVENT_TYPES)[number];
+
+export type RecordedEvent = Extract<
+  SimulationEventRecord,
+  { type: RecordedEventType }
+>;
+
+export interface RecordedFrame {
+  time: number;
+  pendingId: number | null;
+  cueBallId: number | null;
+  count: number;
+  transforms: Float32Array;
+}
+
+export interface Recording {
+  keyframeInterval: number;
+  times: number[];
+  keyframes: number[];
+  data: Uint8Array;
+  spheres: { frame: number; sphere: SphereDescriptor }[];
+  events: { frame: number; record: RecordedEvent }[];
+}
+
+const MAGIC = [0x47, 0x53, 0x52, 0x43];
+const TIME_STEPS = 1000;
+
+// transform offsets stored as fixed point; velocities are not recorded
+const CHANNELS = [
+  { offset: 1, steps: 4096 },
+  { offset: 2, steps: 4096 },
+  { offset: 3, steps: 4096 },
+  { offset: 4, steps: 32767 },
+  { offset: 5, steps: 32767 },
+  { offset: 6, steps: 32767 },
+  { offset: 7, steps: 32767 },
+  { offset: 11, steps: 4096 },
+  { offset: 12, steps: 4096 },
+];
+
+class ByteWriter {
+  private buffer = new Uint8Array(1024);
+  private length = 0;
+
+  get offset(): number {
+    return this.length;
+  }
+
+  get bytes(): Uint8Array {
+    return this.buffer.subarray(0, this.length);
+  }
+
+  byte(value: number) {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = value;
+  }
+
+  unsigned(value: number) {
+    let rest = value;
+    while (rest >= 0x80) {
+      this.byte((rest % 0x80) + 0x80);
+      rest = Math.floor(rest / 0x80);
+    }
+    this.byte(rest);
+  }
+
+  signed(value: number) {
+    this.unsigned(value < 0 ? -2 * value - 1 : 2 * value);
+  }
+}
+
+class ByteReader {
+  constructor(private readonly bytes: Uint8Array, public offset = 0) {}
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  byte(): number {
+    if (this.done) {
+      throw new Error("Recording data ends unexpectedly");
+    }
+    return this.bytes[this.offset++];
+  }
+
+  unsigned(): number {
+    let value = 0;
+    let factor = 1;
+    for (;;) {
+      const byte = this.byte();
+      value += (byte % 0x80) * factor;
+      if (byte < 0x80) return value;
+      factor *= 0x80;
+    }
+  }
+
+  signed(): number {
+    const value = this.unsigned();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+}
+
+type ChannelHistory = Map<number, { last: number[]; before?: number[] }>;
+
+// values are predicted by extrapolating the two frames before them; keyframes
+// drop that history, so a seek decodes at most one keyframe interval
+const predict = (history: ChannelHistory, id: number, index: number) => {
+  const entry = history.get(id);
+  if (!entry) return 0;
+  const { last, before } = entry;
+  return before ? 2 * last[index] - before[index] : last[index];
+};
+
+const remember = (
+  previous: ChannelHistory,
+  next: ChannelHistory,
+  id: number,
+  values: number[]
+) => next.set(id, { last: values, before: previous.get(id)?.last });
+
+export class FrameEncoder {
+  readonly times: number[] = [];
+  readonly keyframes: number[] = [];
+
+  private readonly writer = new ByteWriter();
+  private previous: ChannelHistory = new Map();
+  private previousTime = 0;
+
+  constructor(readonly keyframeInterval: number) {}
+
+  get data(): Uint8Array {
+    return this.writer.bytes;
+  }
+
+  write(frame: RecordedFrame) {
+    const { writer } = this;
+    if (this.times.length % this.keyframeInterval === 0) {
+      this.keyframes.push(writer.offset);
+      this.previous = new Map();
+      this.previousTime = 0;
+    }
+
+    const time = Math.round(frame.time * TIME_STEPS);
+    writer.signed(time - this.previousTime);
+    writer.unsigned(frame.pendingId === null ? 0 : frame.pendingId + 1);
+    writer.unsigned(frame.cueBallId === null ? 0 : frame.cueBallId + 1);
+
+    const { transforms } = frame;
+    const rows = transformRows(transforms, frame.count);
+    const next: ChannelHistory = new Map();
+    writer.unsigned(rows);
+    for (let row = 0; row < rows; row++) {
+      const offset = row * TRANSFORM_STRIDE;
+      const id = transforms[offset];
+      writer.unsigned(id);
+      const values = CHANNELS.map(({ offset: channel, steps }, index) => {
+        const value = Math.round(transforms[offset + channel] * steps);
+        writer.signed(value - predict(this.previous, id, index));
+        return value;
+      });
+      remember(this.previous, next, id, values);
+    }
+
+    this.previous = next;
+    this.previousTime = time;
+    this.times.push(time / TIME_STEPS);
+  }
+}
+
+export class FrameDecoder {
+  private readonly reader: ByteReader;
+  private index = -1;
+  private state: ChannelHistory = new Map();
+  private time = 0;
+  private frame: RecordedFrame | null = null;
+
+  constructor(private readonly recording: Recording) {
+    this.reader = new ByteReader(recording.data);
+  }
+
+  get frameCount(): number {
+    return this.recording.times.length;
+  }
+
+  get offset(): number {
+    return this.reader.offset;
+  }
+
+  get done(): boolean {
+    return this.reader.done;
+  }
+
+  decode(index: number): RecordedFrame {
+    const target = Math.min(Math.max(index, 0), this.frameCount - 1);
+    const keyframe =
+      Math.floor(target / this.recording.keyframeInterval) *
+      this.recording.keyframeInterval;
+
+    if (!this.frame || target < this.index || keyframe > this.index) {
+      this.reader.offset =
+        this.recording.keyframes[keyframe / this.recording.keyframeInterval];
+      this.index = keyframe - 1;
+    }
+    while (this.index < target) {
+      this.frame = this.next();
+    }
+
+    return this.frame as RecordedFrame;
+  }
+
+  next(): RecordedFrame {
+    const { reader } = this;
+    this.index++;
+    if (this.index % this.recording.keyframeInterval === 0) {
+      this.state = new Map();
+      this.time = 0;
+    }
+
+    this.time += reader.signed();
+    const pendingId = reader.unsigned() - 1;
+    const cueBallId = reader.unsigned() - 1;
+    const count = reader.unsigned();
+    const transforms = new Float32Array(count * TRANSFORM_STRIDE);
+    const next: ChannelHistory = new Map();
+    for (let row = 0; row < count; row++) {
+      const offset = row * TRANSFORM_STRIDE;
+      const id = reader.unsigned();
+      const values = CHANNELS.map(({ offset: channel, steps }, index) => {
+        const value = reader.signed() + predict(this.state, id, index);
+        transforms[offset + channel] = value / steps;
+        return value;
+      });
+      transforms[offset] = id;
+      remember(this.state, next, id, values);
+    }
+    this.state = next;
+
+    return {
+      time: this.time / TIME_STEPS,
+      pendingId: pendingId < 0 ? null : pendingId,
+      cueBallId: cueBallId < 0 ? null : cueBallId,
+      count,
+      transforms,
+    };
+  }
+}
+
+export const encodeRecording = (recording: Recording): Uint8Array => {
+  const writer = new ByteWriter();
+  MAGIC.forEach((byte) => writer.byte(byte));
+  writer.unsigned(RECORDING_VERSION);
+
+  const header = JSON.stringify({
+    keyframeInterval: recording.keyframeInterval,
+    frameCount: recording.times.length,
+    spheres: recording.spheres,
+    events: recording.events,
+  });
+  writer.unsigned(header.length);
+  for (let i = 0; i < header.length; i++) {
+    writer.unsigned(header.charCodeAt(i));
+  }
+  recording.data.forEach((byte) => writer.byte(byte));
+
+  return writer.bytes.slice();
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+const readHeader = (text: string) => {
+  let header: unknown;
+  try {
+    header = JSON.parse(text);
+  } catch {
+    throw new Error("Recording header is not valid JSON");
+  }
+
+  const fail = (field: string, expected: string): never => {
+    throw new Error(`Invalid recording: ${field} must be ${expected}`);
+  };
+  if (!isRecord(header)) return fail("header", "an object");
+
+  const { keyframeInterval, frameCount, spheres, events } = header;
+  if (!isCount(keyframeInterval) || keyframeInterval === 0) {
+    return fail("keyframeInterval", "a positive integer");
+  }
+  if (!isCount(frameCount) || frameCount === 0) {
+    return fail("frameCount", "a positive integer");
+  }
+  const inRange = (entry: unknown) =>
+    isRecord(entry) && isCount(entry.frame) && entry.frame < frameCount;
+  if (
+    !Array.isArray(spheres) ||
+    !spheres.every(
+      (entry) =>
+        inRange(entry) &&
+        isRecord(entry.sphere) &&
+        typeof entry.sphere.id === "number"
+    )
+  ) {
+    return fail("spheres", "a list of sphere descriptors");
+  }
+  if (
+    !Array.isArray(events) ||
+    !events.every(
+      (entry) =>
+        inRange(entry) &&
+        isRecord(entry.record) &&
+        (RECORDED_EVENT_TYPES as readonly unknown[]).includes(
+          entry.record.type
+        ) &&
+        isRecord(entry.record.event)
+    )
+  ) {
+    return fail("events", "a list of recorded events");
+  }
+
+  return {
+    keyframeInterval,
+    frameCount,
+    spheres: spheres as Recording["spheres"],
+    events: events as Recording["events"],
+  };
+};
+
+export const decodeRecording = (input: Uint8Array | ArrayBuffer): Recording => {
+  const bytes = ArrayBuffer.isView(input)
+    ? new Uint8Array(input.buffer, input.byteOffset, input.byteLength)
+    : new Uint8Array(input);
+  if (MAGIC.some((byte, index) => bytes[index] !== byte)) {
+    throw new Error("Data is not a sphere recording");
+  }
+
+  const reader = new ByteReader(bytes, MAGIC.length);
+  const version = reader.unsigned();
+  if (version > RECORDING_VERSION) {
+    throw new Error(
+      `Recording version ${version} is newer than the supported version ${RECORDING_VERSION}`
+    );
+  }
+  if (version < 1) {
+    throw new Error(`Recording version ${version} is not supported`);
+  }
+
+  const length = reader.unsigned();
+  let text = "";
+  for (let i = 0; i < length; i++) {
+    text += String.fromCharCode(reader.unsigned());
+  }
+  const header = readHeader(text);
+
+  const recording: Recording = {
+    keyframeInterval: header.keyframeInterval,
+    times: [],
+    keyframes: [],
+    data: bytes.slice(reader.offset),
+    spheres: header.spheres,
+    events: header.events,
+  };
+
+  // a full pass rebuilds the seek tables and proves every frame decodes
+  const decoder = new FrameDecoder(recording);
+  while (!decoder.done) {
+    if (recording.times.length % recording.keyframeInterval === 0) {
+      recording.keyframes.push(decoder.offset);
+    }
+    recording.times.push(decoder.next().time);
+  }
+  if (recording.times.length !== header.frameCount) {
+    throw new Error(
+      `Recording holds ${recording.times.length} frames but its header lists ${header.frameCount}`
+    );
+  }
+
+  return recording;
+};
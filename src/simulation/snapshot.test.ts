@@ -0,0 +1,124 @@
+import {
+  SNAPSHOT_VERSION,
+  SceneSnapshot,
+  parseSnapshot,
+  serializeSnapshot,
+} from "./snapshot";
+import { SphereSimulation, SphereSimulationOptions } from "./SphereSimulation";
+
+const stepMs = 1000 / 60;
+
+const run = (simulation: SphereSimulation, frames: number) => {
+  for (let i = 0; i < frames; i++) {
+    simulation.step(stepMs);
+  }
+};
+
+const busyOptions: SphereSimulationOptions = {
+  seed: 111,
+  sphereConfig: { smallCount: 10, regenerationInterval: 500 },
+  physicsConfig: { accretion: true, mutualGravity: 0.5 },
+  forceFields: [{ type: "vortex", position: { x: 0, y: 0, z: 0 } }],
+};
+
+const scene = (simulation: SphereSimulation): SceneSnapshot => ({
+  version: SNAPSHOT_VERSION,
+  simulation: simulation.exportSnapshot(),
+  camera: { position: { x: 0, y: 10, z: 0 }, target: { x: 0, y: 0, z: 0 } },
+});
+
+describe("scene snapshots", () => {
+  it("replays identically after a JSON round trip", () => {
+    const original = new SphereSimulation(busyOptions);
+    run(original, 95);
+
+    const text = serializeSnapshot(scene(original));
+    const restored = new SphereSimulation({ seed: 5 });
+    restored.importSnapshot(parseSnapshot(text).simulation);
+
+    expect(restored.getState()).toEqual(original.getState());
+
+    run(original, 240);
+    run(restored, 240);
+    expect(restored.getState()).toEqual(original.getState());
+    expect(restored.exportSnapshot()).toEqual(original.exportSnapshot());
+  });
+
+  it("captures the pending popup sphere, timers and fields", () => {
+    const simulation = new SphereSimulation(busyOptions);
+    for (let i = 0; i < 600 && !simulation.pendingSphere; i++) {
+      simulation.step(stepMs);
+    }
+    const snapshot = simulation.exportSnapshot();
+
+    expect(snapshot.pending?.sphere.id).toBe(simulation.pendingSphere?.id);
+    expect(snapshot.pending?.sphere.body.kinematic).toBe(true);
+    expect(snapshot.bodyOrder).toContain(snapshot.pending?.sphere.id);
+    expect(snapshot.lastRegenerationTime).toBeGreaterThan(0);
+    expect(snapshot.forceFields).toEqual(
+      simulation.forceFields.map((field) => ({ ...field }))
+    );
+  });
+
+  it("announces the import and restores the cue ball", () => {
+    const original = new SphereSimulation({ seed: 112 });
+    run(original, 10);
+    const snapshot = original.exportSnapshot();
+
+    const restored = new SphereSimulation({ seed: 113 });
+    const imported = jest.fn();
+    const fields = jest.fn();
+    restored.on("snapshotImported", imported);
+    restored.on("forceFieldsChanged", fields);
+    restored.importSnapshot(snapshot);
+
+    expect(imported).toHaveBeenCalledWith({ time: snapshot.time });
+    expect(fields).toHaveBeenCalledTimes(1);
+    expect(restored.seed).toBe(112);
+    expect(restored.cueBall?.id).toBe(original.cueBall?.id);
+  });
+
+  it("keeps infinite timers through serialization", () => {
+    const simulation = new SphereSimulation({
+      seed: 114,
+      sphereConfig: { regenerationInterval: Infinity },
+    });
+
+    const parsed = parseSnapshot(serializeSnapshot(scene(simulation)));
+
+    expect(parsed.simulation.sphereConfig.regenerationInterval).toBe(Infinity);
+  });
+
+  it("rejects malformed and future snapshots with clear errors", () => {
+    const valid = JSON.parse(
+      serializeSnapshot(scene(new SphereSimulation({ seed: 115 })))
+    );
+
+    expect(() => parseSnapshot("{")).toThrow("Snapshot is not valid JSON");
+    expect(() => parseSnapshot([])).toThrow("Snapshot must be an object");
+    expect(() => parseSnapshot({ ...valid, version: undefined })).toThrow(
+      "Snapshot is missing its version"
+    );
+    expect(() =>
+      parseSnapshot({ ...valid, version: SNAPSHOT_VERSION + 1 })
+    ).toThrow(`Snapshot version ${SNAPSHOT_VERSION + 1} is newer`);
+
+    const broken = JSON.parse(JSON.stringify(valid));
+    broken.simulation.spheres[2].body.velocity.y = "fast";
+    expect(() => parseSnapshot(broken)).toThrow(
+      "Invalid snapshot: simulation.spheres[2].body.velocity.y must be a finite number"
+    );
+
+    const orphan = JSON.parse(JSON.stringify(valid));
+    orphan.simulation.cueBallId = 9999;
+    expect(() => parseSnapshot(orphan)).toThrow(
+      "Invalid snapshot: simulation.cueBallId must be the id of a sphere"
+    );
+
+    const shape = JSON.parse(JSON.stringify(valid));
+    shape.simulation.container.shape = "pyramid";
+    expect(() => parseSnapshot(shape)).toThrow(
+      "simulation.container.shape must be one of"
+    );
+  });
+});
@@ -0,0 +1,453 @@
+import { SPHERE_ARCHETYPES, SphereArchetype } from "./archetypes";
+import { BOUNDARY_MODES } from "./boundary";
+import {
+  ContainerConfig,
+  FluidConfig,
+  PhysicsConfig,
+  SphereConfig,
+  defaultContainerConfig,
+  defaultFluidConfig,
+  defaultPhysicsConfig,
+  defaultSphereConfig,
+} from "./config";
+import { CONTAINER_SHAPES } from "./container";
+import { ForceField, parseForceFields } from "./forceFields";
+import {
+  PocketTable,
+  SphereAppearance,
+  SphereLight,
+  Vector3Like,
+} from "./types";
+
+export const SNAPSHOT_VERSION = 1;
+
+export interface QuaternionLike extends Vector3Like {
+  w: number;
+}
+
+export interface BodySnapshot {
+  position: Vector3Like;
+  quaternion: QuaternionLike;
+  velocity: Vector3Like;
+  angularVelocity: Vector3Like;
+  force: Vector3Like;
+  torque: Vector3Like;
+  mass: number;
+  inertia: Vector3Like;
+  kinematic: boolean;
+}
+
+export interface SphereSnapshot {
+  id: number;
+  radius: number;
+  isCueBall: boolean;
+  archetype: SphereArchetype;
+  charge: number;
+  appearance: SphereAppearance;
+  light: SphereLight | null;
+  scale: number;
+  spawnProgress: number;
+  revision: number;
+  lastSpeed: number;
+  stationaryTime: number;
+  body: BodySnapshot;
+}
+
+export interface SimulationSnapshot {
+  seed: number;
+  randomState: number;
+  time: number;
+  stepCount: number;
+  accumulator: number;
+  paused: boolean;
+  timeScale: number;
+  autoCueStrike: boolean;
+  physicsConfig: PhysicsConfig;
+  sphereConfig: SphereConfig;
+  container: ContainerConfig;
+  fluid: FluidConfig;
+  table: PocketTable | null;
+  forceFields: ForceField[];
+  spheres: SphereSnapshot[];
+  pending: { sphere: SphereSnapshot; startTime: number } | null;
+  popups: { id: number; startTime: number }[];
+  bodyOrder: number[];
+  broadphase: { order: number[]; sorted: boolean };
+  cueBallId: number | null;
+  nextId: number;
+  nextFieldId: number;
+  lastImpulseTime: number;
+  impulseInterval: number;
+  lastRegenerationTime: number;
+  impulseDirection: Vector3Like;
+  fluidState: {
+    up: Vector3Like;
+    normal: Vector3Like;
+    velocity: Vector3Like;
+    level: number;
+  };
+}
+
+export interface CameraPose {
+  position: Vector3Like;
+  target: Vector3Like;
+}
+
+export interface SceneSnapshot {
+  version: number;
+  simulation: SimulationSnapshot;
+  camera: CameraPose | null;
+}
+
+const appearanceTemplate: SphereAppearance = {
+  color: 0,
+  metalness: 0,
+  roughness: 0,
+  emissiveScale: 0,
+  emissiveIntensity: 0,
+  clearcoat: 0,
+  clearcoatRoughness: 0,
+};
+
+const lightTemplate: SphereLight = { color: 0, intensity: 0, distance: 0 };
+
+// JSON has no Infinity, yet configs use it to switch timers off
+const NON_FINITE: Record<string, number> = {
+  Infinity: Infinity,
+  "-Infinity": -Infinity,
+};
+
+export const serializeSnapshot = (snapshot: SceneSnapshot): string =>
+  JSON.stringify(snapshot, (_, value) =>
+    typeof value === "number" && !Number.isFinite(value) ? String(value) : value
+  );
+
+const fail = (path: string, expected: string): never => {
+  throw new Error(`Invalid snapshot: ${path} must be ${expected}`);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const readRecord = (value: unknown, path: string) =>
+  isRecord(value) ? value : fail(path, "an object");
+
+const readArray = (value: unknown, path: string) =>
+  Array.isArray(value) ? (value as unknown[]) : fail(path, "an array");
+
+const readNumber = (value: unknown, path: string): number =>
+  typeof value === "number" && Number.isFinite(value)
+    ? value
+    : fail(path, "a finite number");
+
+const readBoolean = (value: unknown, path: string): boolean =>
+  typeof value === "boolean" ? value : fail(path, "a boolean");
+
+const readOneOf = <T extends string>(
+  value: unknown,
+  options: readonly T[],
+  path: string
+): T =>
+  options.includes(value as T)
+    ? (value as T)
+    : fail(path, `one of ${options.join(", ")}`);
+
+const readVector = (value: unknown, path: string): Vector3Like => {
+  const { x, y, z } = readRecord(value, path);
+  return {
+    x: readNumber(x, `${path}.x`),
+    y: readNumber(y, `${path}.y`),
+    z: readNumber(z, `${path}.z`),
+  };
+};
+
+const readQuaternion = (value: unknown, path: string): QuaternionLike => ({
+  ...readVector(value, path),
+  w: readNumber(readRecord(value, path).w, `${path}.w`),
+});
+
+const readLike = <T>(value: unknown, template: T, path: string): T => {
+  if (typeof template === "number") {
+    const number = typeof value === "string" ? NON_FINITE[value] : value;
+    return (
+      typeof number === "number" && !Number.isNaN(number)
+        ? number
+        : fail(path, "a number")
+    ) as T;
+  }
+
+  if (isRecord(template)) {
+    const record = readRecord(value, path);
+    return Object.keys(template).reduce(
+      (out, key) => ({
+        ...out,
+        [key]: readLike(record[key], template[key], `${path}.${key}`),
+      }),
+      {} as T
+    );
+  }
+
+  return (
+    typeof value === typeof template
+      ? value
+      : fail(path, `a ${typeof template}`)
+  ) as T;
+};
+
+const readBody = (value: unknown, path: string): BodySnapshot => {
+  const body = readRecord(value, path);
+  const mass = readNumber(body.mass, `${path}.mass`);
+
+  return {
+    position: readVector(body.position, `${path}.position`),
+    quaternion: readQuaternion(body.quaternion, `${path}.quaternion`),
+    velocity: readVector(body.velocity, `${path}.velocity`),
+    angularVelocity: readVector(
+      body.angularVelocity,
+      `${path}.angularVelocity`
+    ),
+    force: readVector(body.force, `${path}.force`),
+    torque: readVector(body.torque, `${path}.torque`),
+    mass: mass >= 0 ? mass : fail(`${path}.mass`, "non-negative"),
+    inertia: readVector(body.inertia, `${path}.inertia`),
+    kinematic: readBoolean(body.kinematic, `${path}.kinematic`),
+  };
+};
+
+const readSphere = (value: unknown, path: string): SphereSnapshot => {
+  const sphere = readRecord(value, path);
+  const radius = readNumber(sphere.radius, `${path}.radius`);
+
+  return {
+    id: readNumber(sphere.id, `${path}.id`),
+    radius: radius > 0 ? radius : fail(`${path}.radius`, "positive"),
+    isCueBall: readBoolean(sphere.isCueBall, `${path}.isCueBall`),
+    archetype: readOneOf(
+      sphere.archetype,
+      SPHERE_ARCHETYPES,
+      `${path}.archetype`
+    ),
+    charge: readNumber(sphere.charge, `${path}.charge`),
+    appearance: readLike(
+      sphere.appearance,
+      appearanceTemplate,
+      `${path}.appearance`
+    ),
+    light:
+      sphere.light === null
+        ? null
+        : readLike(sphere.light, lightTemplate, `${path}.light`),
+    scale: readNumber(sphere.scale, `${path}.scale`),
+    spawnProgress: readNumber(sphere.spawnProgress, `${path}.spawnProgress`),
+    revision: readNumber(sphere.revision, `${path}.revision`),
+    lastSpeed: readNumber(sphere.lastSpeed, `${path}.lastSpeed`),
+    stationaryTime: readNumber(sphere.stationaryTime, `${path}.stationaryTime`),
+    body: readBody(sphere.body, `${path}.body`),
+  };
+};
+
+const readTable = (value: unknown, path: string): PocketTable | null => {
+  if (value === null) return null;
+
+  const table = readRecord(value, path);
+  return {
+    pockets: readArray(table.pockets, `${path}.pockets`).map(
+      (pocket, index) => {
+        const entry = readRecord(pocket, `${path}.pockets[${index}]`);
+        return {
+          position: readVector(
+            entry.position,
+            `${path}.pockets[${index}].position`
+          ),
+          radius: readNumber(entry.radius, `${path}.pockets[${index}].radius`),
+        };
+      }
+    ),
+    damping: readNumber(table.damping, `${path}.damping`),
+  };
+};
+
+const readForceFields = (value: unknown, path: string): ForceField[] => {
+  const entries = readArray(value, path);
+  const ids = entries.map((entry, index) =>
+    readNumber(
+      readRecord(entry, `${path}[${index}]`).id,
+      `${path}[${index}].id`
+    )
+  );
+
+  return parseForceFields(entries).map((spec, index) => ({
+    ...spec,
+    id: ids[index],
+  }));
+};
+
+const readSimulation = (value: unknown, path: string): SimulationSnapshot => {
+  const data = readRecord(value, path);
+
+  const physicsConfig = readLike(
+    data.physicsConfig,
+    defaultPhysicsConfig,
+    `${path}.physicsConfig`
+  );
+  readOneOf(
+    physicsConfig.boundaryMode,
+    BOUNDARY_MODES,
+    `${path}.physicsConfig.boundaryMode`
+  );
+  const sphereConfig = readLike(
+    data.sphereConfig,
+    defaultSphereConfig,
+    `${path}.sphereConfig`
+  );
+  readOneOf(
+    sphereConfig.cueBallArchetype,
+    SPHERE_ARCHETYPES,
+    `${path}.sphereConfig.cueBallArchetype`
+  );
+  const container = readLike(
+    data.container,
+    defaultContainerConfig,
+    `${path}.container`
+  );
+  readOneOf(container.shape, CONTAINER_SHAPES, `${path}.container.shape`);
+
+  const spheres = readArray(data.spheres, `${path}.spheres`).map(
+    (sphere, index) => readSphere(sphere, `${path}.spheres[${index}]`)
+  );
+  const pending =
+    data.pending === null
+      ? null
+      : (() => {
+          const entry = readRecord(data.pending, `${path}.pending`);
+          return {
+            sphere: readSphere(entry.sphere, `${path}.pending.sphere`),
+            startTime: readNumber(entry.startTime, `${path}.pending.startTime`),
+          };
+        })();
+
+  const ids = new Set<number>();
+  [...spheres, ...(pending ? [pending.sphere] : [])].forEach(({ id }) => {
+    if (ids.has(id)) {
+      throw new Error(`Invalid snapshot: sphere id ${id} appears twice`);
+    }
+    ids.add(id);
+  });
+  const readSphereId = (id: unknown, idPath: string) => {
+    const number = readNumber(id, idPath);
+    return ids.has(number) ? number : fail(idPath, "the id of a sphere");
+  };
+
+  const fluidState = readRecord(data.fluidState, `${path}.fluidState`);
+  const broadphase = readRecord(data.broadphase, `${path}.broadphase`);
+
+  return {
+    seed: readNumber(data.seed, `${path}.seed`),
+    randomState: readNumber(data.randomState, `${path}.randomState`),
+    time: readNumber(data.time, `${path}.time`),
+    stepCount: readNumber(data.stepCount, `${path}.stepCount`),
+    accumulator: readNumber(data.accumulator, `${path}.accumulator`),
+    paused: readBoolean(data.paused, `${path}.paused`),
+    timeScale: readNumber(data.timeScale, `${path}.timeScale`),
+    autoCueStrike: readBoolean(data.autoCueStrike, `${path}.autoCueStrike`),
+    physicsConfig,
+    sphereConfig,
+    container,
+    fluid: readLike(data.fluid, defaultFluidConfig, `${path}.fluid`),
+    table: readTable(data.table, `${path}.table`),
+    forceFields: readForceFields(data.forceFields, `${path}.forceFields`),
+    spheres,
+    pending,
+    popups: readArray(data.popups, `${path}.popups`).map((popup, index) => {
+      const entry = readRecord(popup, `${path}.popups[${index}]`);
+      return {
+        id: readSphereId(entry.id, `${path}.popups[${index}].id`),
+        startTime: readNumber(
+          entry.startTime,
+          `${path}.popups[${index}].startTime`
+        ),
+      };
+    }),
+    bodyOrder: readArray(data.bodyOrder, `${path}.bodyOrder`).map((id, index) =>
+      readSphereId(id, `${path}.bodyOrder[${index}]`)
+    ),
+    broadphase: {
+      order: readArray(broadphase.order, `${path}.broadphase.order`).map(
+        (id, index) => readSphereId(id, `${path}.broadphase.order[${index}]`)
+      ),
+      sorted: readBoolean(broadphase.sorted, `${path}.broadphase.sorted`),
+    },
+    cueBallId:
+      data.cueBallId === null
+        ? null
+        : readSphereId(data.cueBallId, `${path}.cueBallId`),
+    nextId: readNumber(data.nextId, `${path}.nextId`),
+    nextFieldId: readNumber(data.nextFieldId, `${path}.nextFieldId`),
+    lastImpulseTime: readNumber(
+      data.lastImpulseTime,
+      `${path}.lastImpulseTime`
+    ),
+    impulseInterval: readNumber(
+      data.impulseInterval,
+      `${path}.impulseInterval`
+    ),
+    lastRegenerationTime: readNumber(
+      data.lastRegenerationTime,
+      `${path}.lastRegenerationTime`
+    ),
+    impulseDirection: readVector(
+      data.impulseDirection,
+      `${path}.impulseDirection`
+    ),
+    fluidState: {
+      up: readVector(fluidState.up, `${path}.fluidState.up`),
+      normal: readVector(fluidState.normal, `${path}.fluidState.normal`),
+      velocity: readVector(fluidState.velocity, `${path}.fluidState.velocity`),
+      level: readNumber(fluidState.level, `${path}.fluidState.level`),
+    },
+  };
+};
+
+const readCamera = (value: unknown, path: string): CameraPose | null => {
+  if (value === null || value === undefined) return null;
+
+  const camera = readRecord(value, path);
+  return {
+    position: readVector(camera.position, `${path}.position`),
+    target: readVector(camera.target, `${path}.target`),
+  };
+};
+
+export const parseSnapshot = (input: unknown): SceneSnapshot => {
+  let data = input;
+  if (typeof input === "string") {
+    try {
+      data = JSON.parse(input);
+    } catch {
+      throw new Error("Snapshot is not valid JSON");
+    }
+  }
+
+  if (!isRecord(data)) {
+    throw new Error("Snapshot must be an object");
+  }
+
+  const { version } = data;
+  if (typeof version !== "number" || !Number.isInteger(version)) {
+    throw new Error("Snapshot is missing its version");
+  }
+  if (version > SNAPSHOT_VERSION) {
+    throw new Error(
+      `Snapshot version ${version} is newer than the supported version ${SNAPSHOT_VERSION}`
+    );
+  }
+  if (version < 1) {
+    throw new Error(`Snapshot version ${version} is not supported`);
+  }
+
+  return {
+    version,
+    simulation: readSimulation(data.simulation, "simulation"),
+    camera: readCamera(data.camera, "camera"),
+  };
+};
@@ -0,0 +1,65 @@
+import { SphereSimulation } from "./SphereSimulation";
+import {
+  TRANSFORM_STRIDE,
+  interpolateTransforms,
+  packTransforms,
+} from "./transforms";
+
+const row = (
+  id: number,
+  x: number,
+  quaternion: [number, number, number, number] = [0, 0, 0, 1]
+) => [id, x, 0, 0, ...quaternion, 0, 0, 0, 1, 1];
+
+describe("sphere transforms", () => {
+  it("packs ids, poses and animation state per sphere", () => {
+    const simulation = new SphereSimulation({ seed: 91 });
+    const spheres = simulation.spheres;
+    const packed = packTransforms(spheres);
+
+    expect(packed).toHaveLength(spheres.length * TRANSFORM_STRIDE);
+    spheres.forEach(({ id, body, scale }, index) => {
+      const offset = index * TRANSFORM_STRIDE;
+      expect(packed[offset]).toBe(id);
+      expect(packed[offset + 1]).toBeCloseTo(body.position.x, 5);
+      expect(packed[offset + 7]).toBeCloseTo(body.quaternion.w, 5);
+      expect(packed[offset + 9]).toBeCloseTo(body.velocity.y, 5);
+      expect(packed[offset + 11]).toBe(scale);
+    });
+  });
+
+  it("reuses a target buffer that is large enough", () => {
+    const simulation = new SphereSimulation({ seed: 92 });
+    const target = new Float32Array(1024 * TRANSFORM_STRIDE);
+
+    expect(packTransforms(simulation.spheres, target)).toBe(target);
+    expect(packTransforms(simulation.spheres, new Float32Array(1))).not.toBe(
+      target
+    );
+  });
+
+  it("blends matching rows and passes new spheres through", () => {
+    const previous = new Float32Array([...row(1, 0), ...row(2, 10)]);
+    const next = new Float32Array([...row(2, 20), ...row(3, 5)]);
+
+    const out = interpolateTransforms(previous, 2, next, 2, 0.25);
+
+    expect(out[0]).toBe(2);
+    expect(out[1]).toBeCloseTo(12.5);
+    expect(out[TRANSFORM_STRIDE]).toBe(3);
+    expect(out[TRANSFORM_STRIDE + 1]).toBe(5);
+  });
+
+  it("interpolates rotations along the shorter arc", () => {
+    const half = Math.SQRT1_2;
+    const previous = new Float32Array(row(1, 0, [0, 0, 0, 1]));
+    const next = new Float32Array(row(1, 0, [0, -half, 0, -half]));
+
+    const out = interpolateTransforms(previous, 1, next, 1, 0.5);
+    const [x, y, z, w] = Array.from(out.subarray(4, 8));
+
+    expect(Math.hypot(x, y, z, w)).toBeCloseTo(1);
+    expect(Math.abs(w)).toBeGreaterThan(Math.abs(y));
+    expect(y * w).toBeGreaterThan(0);
+  });
+});
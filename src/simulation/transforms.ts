@@ -0,0 +1,125 @@
+import { SimSphere } from "./types";
+
+// id, position, quaternion, velocity, scale, spawnProgress
+export const TRANSFORM_STRIDE = 13;
+
+// ids share the float rows, which hold integers exactly only up to 2^24
+export const MAX_PACKED_ID = 2 ** 24;
+
+export const isPackableId = (id: number) =>
+  Number.isInteger(id) && id > 0 && id <= MAX_PACKED_ID;
+
+export const packTransforms = (
+  spheres: readonly SimSphere[],
+  target?: Float32Array
+): Float32Array => {
+  const length = spheres.length * TRANSFORM_STRIDE;
+  const out =
+    target && target.length >= length ? target : new Float32Array(length);
+
+  spheres.forEach(({ id, body, scale, spawnProgress }, index) => {
+    const offset = index * TRANSFORM_STRIDE;
+    const { position, quaternion, velocity } = body;
+    out[offset] = id;
+    out[offset + 1] = position.x;
+    out[offset + 2] = position.y;
+    out[offset + 3] = position.z;
+    out[offset + 4] = quaternion.x;
+    out[offset + 5] = quaternion.y;
+    out[offset + 6] = quaternion.z;
+    out[offset + 7] = quaternion.w;
+    out[offset + 8] = velocity.x;
+    out[offset + 9] = velocity.y;
+    out[offset + 10] = velocity.z;
+    out[offset + 11] = scale;
+    out[offset + 12] = spawnProgress;
+  });
+
+  return out;
+};
+
+export const transformRows = (transforms: Float32Array, count: number) =>
+  Math.min(count, Math.floor(transforms.length / TRANSFORM_STRIDE));
+
+export const interpolateTransforms = (
+  previous: Float32Array,
+  previousCount: number,
+  next: Float32Array,
+  nextCount: number,
+  alpha: number,
+  target?: Float32Array
+): Float32Array => {
+  const rows = transformRows(next, nextCount);
+  const length = rows * TRANSFORM_STRIDE;
+  const out =
+    target && target.length >= length ? target : new Float32Array(length);
+  const t = Math.min(Math.max(alpha, 0), 1);
+
+  const previousRows = new Map<number, number>();
+  for (let row = 0; row < transformRows(previous, previousCount); row++) {
+    previousRows.set(previous[row * TRANSFORM_STRIDE], row * TRANSFORM_STRIDE);
+  }
+
+  for (let row = 0; row < rows; row++) {
+    const offset = row * TRANSFORM_STRIDE;
+    const from = previousRows.get(next[offset]);
+
+    if (from === undefined) {
+      out.set(next.subarray(offset, offset + TRANSFORM_STRIDE), offset);
+      continue;
+    }
+
+    out[offset] = next[offset];
+    for (let i = 1; i < TRANSFORM_STRIDE; i++) {
+      const a = previous[from + i];
+      out[offset + i] = a + (next[offset + i] - a) * t;
+    }
+
+    // nlerp along the shorter arc
+    const dot =
+      previous[from + 4] * next[offset + 4] +
+      previous[from + 5] * next[offset + 5] +
+      previous[from + 6] * next[offset + 6] +
+      previous[from + 7] * next[offset + 7];
+    const sign = dot < 0 ? -1 : 1;
+    let lengthSquared = 0;
+    for (let i = 4; i < 8; i++) {
+      const a = previous[from + i] * sign;
+      const value = a + (next[offset + i] - a) * t;
+      out[offset + i] = value;
+      lengthSquared += value * value;
+    }
+
+    const scale = lengthSquared > 0 ? 1 / Math.sqrt(lengthSquared) : 1;
+    for (let i = 4; i < 8; i++) {
+      out[offset + i] *= scale;
+    }
+  }
+
+  return out;
+};
+
+export const writeTransforms = (
+  values: Float32Array,
+  count: number,
+  spheres: ReadonlyMap<number, SimSphere>
+) => {
+  for (let row = 0; row < transformRows(values, count); row++) {
+    const offset = row * TRANSFORM_STRIDE;
+    const sphere = spheres.get(values[offset]);
+    if (!sphere) continue;
+
+    const { position, quaternion, velocity } = sphere.body;
+    position.set(values[offset + 1], values[offset + 2], values[offset + 3]);
+    quaternion.set(
+      values[offset + 4],
+      values[offset + 5],
+      values[offset + 6],
+      values[offset + 7]
+    );
+    velocity.set(values[offset + 8], values[offset + 9], values[offset + 10]);
+    sphere.scale = values[offset + 11];
+    sphere.spawnProgress = values[offset + 12];
+    sphere.lastSpeed = velocity.length();
+  }
+};
@@ -0,0 +1,94 @@
+import * as CANNON from "cannon-es";
+import { SphereArchetype } from "./archetypes";
+
+export interface Vector3Like {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface SphereAppearance {
+  color: number;
+  metalness: number;
+  roughness: number;
+  emissiveScale: number;
+  emissiveIntensity: number;
+  clearcoat: number;
+  clearcoatRoughness: number;
+}
+
+export interface SphereLight {
+  color: number;
+  intensity: number;
+  distance: number;
+}
+
+export interface SimSphere {
+  id: number;
+  body: CANNON.Body;
+  radius: number;
+  isCueBall: boolean;
+  archetype: SphereArchetype;
+  charge: number;
+  appearance: SphereAppearance;
+  light: SphereLight | null;
+  scale: number;
+  spawnProgress: number;
+  revision: number;
+  lastSpeed: number;
+  stationaryTime: number;
+}
+
+export interface PendingSphere {
+  sphere: SimSphere;
+  startTime: number;
+}
+
+export interface SpawnSphereOptions {
+  id?: number;
+  position?: Vector3Like;
+  velocity?: Vector3Like;
+  radius?: number;
+  mass?: number;
+  archetype?: SphereArchetype;
+  charge?: number;
+  color?: number;
+  light?: boolean;
+}
+
+export interface SphereState {
+  id: number;
+  radius: number;
+  color: number;
+  isCueBall: boolean;
+  archetype: SphereArchetype;
+  charge: number;
+  position: Vector3Like;
+  velocity: Vector3Like;
+}
+
+export interface SimulationState {
+  seed: number;
+  time: number;
+  paused: boolean;
+  timeScale: number;
+  cueBallId: number | null;
+  spheres: SphereState[];
+}
+
+export interface ContactPrediction {
+  sphereId: number;
+  distance: number;
+  position: Vector3Like;
+  contactPoint: Vector3Like;
+}
+
+export interface Pocket {
+  position: Vector3Like;
+  radius: number;
+}
+
+export interface PocketTable {
+  pockets: Pocket[];
+  damping: number;
+}
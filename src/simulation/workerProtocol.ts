@@ -0,0 +1,158 @@
+import * as CANNON from "cannon-es";
+import { SimulationEventRecord } from "./events";
+import { FluidSurface } from "./fluid";
+import { ForceField } from "./forceFields";
+import { Recording } from "./recording";
+import { SimulationSnapshot } from "./snapshot";
+import {
+  SimulationController,
+  SphereSimulation,
+  SphereSimulationOptions,
+} from "./SphereSimulation";
+import { SimSphere } from "./types";
+
+export interface MessageEndpoint {
+  postMessage(message: unknown, transfer?: Transferable[]): void;
+  addEventListener(
+    type: "message",
+    listener: (event: MessageEvent) => void
+  ): void;
+  removeEventListener(
+    type: "message",
+    listener: (event: MessageEvent) => void
+  ): void;
+  terminate?(): void;
+}
+
+export type ForwardedMethod = Exclude<
+  {
+    [K in keyof SimulationController]: SimulationController[K] extends (
+      ...args: never[]
+    ) => unknown
+      ? K
+      : never;
+  }[keyof SimulationController],
+  | "on"
+  | "step"
+  | "dispose"
+  | "predictCueContact"
+  | "getState"
+  | "captureSnapshot"
+  | "stopRecording"
+>;
+
+export type SimulationCommand =
+  | { type: "init"; options: SphereSimulationOptions; shared: boolean }
+  | { type: "step"; deltaTime: number; recycle: ArrayBuffer | null }
+  | { type: "snapshot"; request: number }
+  | { type: "recording"; request: number }
+  | { type: "set"; property: "timeScale"; value: number }
+  | { type: "set"; property: "autoCueStrike"; value: boolean }
+  | {
+      [K in ForwardedMethod]: {
+        type: "call";
+        method: K;
+        args: Parameters<SphereSimulation[K]>;
+      };
+    }[ForwardedMethod]
+  | { type: "dispose" };
+
+export type SphereDescriptor = Pick<
+  SimSphere,
+  | "id"
+  | "radius"
+  | "isCueBall"
+  | "archetype"
+  | "charge"
+  | "appearance"
+  | "light"
+  | "revision"
+>;
+
+export const describeSphere = ({
+  id,
+  radius,
+  isCueBall,
+  archetype,
+  charge,
+  appearance,
+  light,
+  revision,
+}: SimSphere): SphereDescriptor => ({
+  id,
+  radius,
+  isCueBall,
+  archetype,
+  charge,
+  appearance,
+  light,
+  revision,
+});
+
+// spheres rebuilt from descriptors carry a bare body that only holds transforms
+export const mirrorSphere = (
+  descriptor: SphereDescriptor,
+  existing?: SimSphere
+): SimSphere => {
+  const sphere: SimSphere = existing ?? {
+    ...descriptor,
+    body: new CANNON.Body(),
+    scale: 1,
+    spawnProgress: 1,
+    lastSpeed: 0,
+    stationaryTime: 0,
+  };
+
+  sphere.radius = descriptor.radius;
+  sphere.isCueBall = descriptor.isCueBall;
+  sphere.archetype = descriptor.archetype;
+  sphere.charge = descriptor.charge;
+  sphere.appearance = { ...descriptor.appearance };
+  sphere.light = descriptor.light ? { ...descriptor.light } : null;
+  sphere.revision = descriptor.revision;
+  return sphere;
+};
+
+export interface SimulationFrame {
+  type: "frame";
+  processed: number;
+  time: number;
+  alpha: number;
+  transforms: Float32Array;
+  count: number;
+  pendingId: number | null;
+  cueBallId: number | null;
+  grabbedSphereId: number | null;
+  nextCueStrikeIn: number | null;
+  stepDuration: number;
+  kineticEnergy: number;
+  spheres: SphereDescriptor[];
+  fluidSurface: FluidSurface | null;
+  forceFields: readonly ForceField[] | null;
+  events: SimulationEventRecord[];
+}
+
+export interface SnapshotReply {
+  type: "snapshot";
+  request: number;
+  snapshot: SimulationSnapshot;
+}
+
+export interface RecordingReply {
+  type: "recording";
+  request: number;
+  recording: Recording | null;
+}
+
+export interface ErrorReply {
+  type: "error";
+  command: SimulationCommand["type"];
+  request: number | null;
+  message: string;
+}
+
+export type SimulationReply =
+  | SimulationFrame
+  | SnapshotReply
+  | RecordingReply
+  | ErrorReply;
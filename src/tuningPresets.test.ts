@@ -0,0 +1,67 @@
+import {
+  PRESET_STORAGE_KEY,
+  TuningPreset,
+  loadPresets,
+  parsePreset,
+  savePresets,
+  serializePreset,
+  upsertPreset,
+} from "./tuningPresets";
+
+const chaos: TuningPreset = {
+  name: "chaos",
+  physicsConfig: { restitution: 1.1, boundaryMode: "hard" },
+  sphereConfig: { cueBallImpulseFactor: 120, cueBallColor: 0xff00aa },
+  renderConfig: { bloomStrength: 1.8 },
+};
+
+describe("tuning presets", () => {
+  beforeEach(() => window.localStorage.clear());
+
+  it("saves and loads presets through storage", () => {
+    const calm = { ...chaos, name: "calm", renderConfig: {} };
+    savePresets(window.localStorage, upsertPreset([chaos], calm));
+
+    expect(loadPresets(window.localStorage)).toEqual([chaos, calm]);
+    expect(upsertPreset([chaos, calm], { ...calm, physicsConfig: {} })).toEqual(
+      [chaos, { ...calm, physicsConfig: {} }]
+    );
+  });
+
+  it("round trips exported JSON", () => {
+    expect(parsePreset(serializePreset(chaos))).toEqual(chaos);
+  });
+
+  it("drops invalid settings with a warning and rejects unusable files", () => {
+    const warn = jest.fn();
+    const preset = parsePreset(
+      JSON.stringify({
+        ...chaos,
+        physicsConfig: { restitution: "high", friction: 0.2 },
+        renderConfig: { bloomRadius: 4, mode: "instanced" },
+      }),
+      warn
+    );
+
+    expect(preset.physicsConfig).toEqual({ friction: 0.2 });
+    expect(preset.renderConfig).toEqual({ mode: "instanced" });
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(() => parsePreset("{")).toThrow("Preset is not valid JSON");
+    expect(() => parsePreset("{}")).toThrow(
+      "Preset file must be an object with a name"
+    );
+  });
+
+  it("skips corrupt storage instead of throwing", () => {
+    const warn = jest.fn();
+    window.localStorage.setItem(PRESET_STORAGE_KEY, "not json");
+    expect(loadPresets(window.localStorage, warn)).toEqual([]);
+
+    window.localStorage.setItem(
+      PRESET_STORAGE_KEY,
+      JSON.stringify([chaos, { physicsConfig: {} }])
+    );
+    expect(loadPresets(window.localStorage, warn)).toEqual([chaos]);
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  PhysicsConfig,
+  SphereConfig,
+  Warn,
+  readPhysicsOverrides,
+  readSphereOverrides,
+} from "./simulation";
+import { RenderConfig, readRenderOverrides } from "./rendering/config";
+
+export interface TuningValues {
+  physicsConfig: Partial<PhysicsConfig>;
+  sphereConfig: Partial<SphereConfig>;
+  renderConfig: Partial<RenderConfig>;
+}
+
+export interface TuningPreset extends TuningValues {
+  name: string;
+}
+
+export const PRESET_STORAGE_KEY = "galacticSpheres.tuningPresets";
+
+export const emptyTuning: TuningValues = {
+  physicsConfig: {},
+  sphereConfig: {},
+  renderConfig: {},
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const readPreset = (value: unknown, source: string, warn: Warn) => {
+  if (!isRecord(value) || typeof value.name !== "string" || !value.name) {
+    throw new Error(`Preset ${source} must be an object with a name`);
+  }
+
+  const where = `in preset "${value.name}"`;
+  return {
+    name: value.name,
+    physicsConfig: readPhysicsOverrides(value.physicsConfig, where, warn),
+    sphereConfig: readSphereOverrides(value.sphereConfig, where, warn),
+    renderConfig: readRenderOverrides(value.renderConfig, where, warn),
+  };
+};
+
+export const serializePreset = (preset: TuningPreset): string =>
+  JSON.stringify(preset, null, 2);
+
+export const parsePreset = (
+  text: string,
+  warn: Warn = console.warn
+): TuningPreset => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Preset is not valid JSON");
+  }
+  return readPreset(data, "file", warn);
+};
+
+export const loadPresets = (
+  storage: Storage,
+  warn: Warn = console.warn
+): TuningPreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(storage.getItem(PRESET_STORAGE_KEY) ?? "[]");
+  } catch {
+    warn("Ignoring saved presets: they are not valid JSON");
+    return [];
+  }
+  if (!Array.isArray(data)) {
+    warn("Ignoring saved presets: expected a list");
+    return [];
+  }
+
+  return data.flatMap((entry, index) => {
+    try {
+      return [readPreset(entry, `${index} in storage`, warn)];
+    } catch (error) {
+      warn(`Ignoring saved preset: ${(error as Error).message}`);
+      return [];
+    }
+  });
+};
+
+export const savePresets = (
+  storage: Storage,
+  presets: readonly TuningPreset[],
+  warn: Warn = console.warn
+) => {
+  try {
+    storage.setItem(PRESET_STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    warn(`Presets could not be saved: ${(error as Error).message}`);
+  }
+};
+
+export const upsertPreset = (
+  presets: readonly TuningPreset[],
+  preset: TuningPreset
+): TuningPreset[] => {
+  const index = presets.findIndex(({ name }) => name === preset.name);
+  return index < 0
+    ? [...presets, preset]
+    : presets.map((entry, i) => (i === index ? preset : entry));
+};